@@ -4,6 +4,8 @@ export default {
   schema: './src/lib/db/schema.ts',
   out: './drizzle',
   dialect: 'sqlite',
+  // todos_fts and its shadow tables are managed by src/lib/search.ts
+  tablesFilter: ['!todos_fts*'],
   dbCredentials: {
     url: 'file:sqlite.db',
   },
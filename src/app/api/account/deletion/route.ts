@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  cancelAccountDeletion,
+  checkDeletionCredentials,
+  scheduleAccountDeletion,
+} from '@/lib/account-deletion';
+import { deleteAccountSchema } from '@/lib/account-schemas';
+import { auth } from '@/lib/auth';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+
+// Deletion is requested from a signed-in browser session only, like API
+// tokens
+
+// POST /api/account/deletion - Schedule the account for deletion after the
+// grace period and sign out everywhere else
+// Body: { password? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const body = await parseBody(request, deleteAccountSchema);
+    if ('response' in body) {
+      return body.response;
+    }
+
+    const check = await checkDeletionCredentials(
+      session.user.id,
+      session.session.createdAt,
+      body.data.password,
+    );
+    if (check === 'password_required') {
+      return validationError([
+        { field: 'password', message: 'Password is required' },
+      ]);
+    }
+    if (check === 'wrong_password') {
+      return validationError([
+        { field: 'password', message: 'Password is incorrect' },
+      ]);
+    }
+    if (check === 'stale_session') {
+      return apiError(403, 'Sign in again to delete your account');
+    }
+
+    const status = await scheduleAccountDeletion(
+      session.user.id,
+      session.session.id,
+      new URL('/settings', request.nextUrl.origin).toString(),
+    );
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error scheduling account deletion:', error);
+    return apiError(500, 'Failed to delete account');
+  }
+}
+
+// DELETE /api/account/deletion - Keep the account after all
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    return NextResponse.json(await cancelAccountDeletion(session.user.id));
+  } catch (error) {
+    console.error('Error cancelling account deletion:', error);
+    return apiError(500, 'Failed to cancel account deletion');
+  }
+}
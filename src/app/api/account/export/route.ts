@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { exportAccount } from '@/lib/account-export';
+import { auth } from '@/lib/auth';
+import { DEFAULT_TIMEZONE, formatZonedInput } from '@/lib/dates';
+import { apiError } from '@/lib/responses';
+
+// GET /api/account/export - Download everything stored about the account
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { date } = formatZonedInput(
+      new Date(),
+      session.user.timezone || DEFAULT_TIMEZONE,
+    );
+    return NextResponse.json(await exportAccount(session.user.id), {
+      headers: {
+        'Content-Disposition': `attachment; filename="account-${date}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    return apiError(500, 'Failed to export account');
+  }
+}
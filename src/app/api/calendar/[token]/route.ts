@@ -0,0 +1,42 @@
+import type { NextRequest } from 'next/server';
+import { calendarFeed, findCalendarUser } from '@/lib/calendar-feed';
+import { calendarFeedQuerySchema } from '@/lib/calendar-schemas';
+import { apiError, parseQuery } from '@/lib/responses';
+
+// GET /api/calendar/[token].ics - The user's todos as an iCalendar feed
+// Query: ?type=events|todos (default events)
+// The token in the path is the only credential, since calendar apps can't
+// sign in.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    const { token } = await params;
+
+    const feedUser = await findCalendarUser(token.replace(/\.ics$/, ''));
+    if (!feedUser) {
+      return apiError(404, 'Calendar feed not found');
+    }
+
+    const query = parseQuery(
+      request.nextUrl.searchParams,
+      calendarFeedQuerySchema,
+    );
+    if ('response' in query) {
+      return query.response;
+    }
+    const { type = 'events' } = query.data;
+
+    return new Response(await calendarFeed(feedUser, type), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${type}.ics"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return apiError(500, 'Failed to serve calendar feed');
+  }
+}
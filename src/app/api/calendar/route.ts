@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import {
+  calendarFeedStatus,
+  revokeCalendarToken,
+  rotateCalendarToken,
+} from '@/lib/calendar-feed';
+import { apiError } from '@/lib/responses';
+
+// The feed URL is managed from a signed-in browser session only, like API
+// tokens
+
+// GET /api/calendar - Whether the user's calendar feed is on
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    return NextResponse.json(await calendarFeedStatus(session.user.id));
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return apiError(500, 'Failed to fetch calendar feed');
+  }
+}
+
+// POST /api/calendar - Turn the calendar feed on, or replace its URL; the
+// response is the only time the token is shown
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const feed = await rotateCalendarToken(session.user.id);
+
+    return NextResponse.json(feed, {
+      status: 201,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return apiError(500, 'Failed to create calendar feed');
+  }
+}
+
+// DELETE /api/calendar - Turn the calendar feed off
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    await revokeCalendarToken(session.user.id);
+
+    return NextResponse.json({ message: 'Calendar feed turned off' });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    return apiError(500, 'Failed to revoke calendar feed');
+  }
+}
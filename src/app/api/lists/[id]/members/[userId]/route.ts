@@ -0,0 +1,118 @@
+import { and, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { authorizeList } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { listMembers } from '@/lib/db/schema';
+import { isListRole } from '@/lib/roles';
+
+// PATCH /api/lists/[id]/members/[userId] - Change a member's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+    const body = await request.json();
+    const { role } = body;
+
+    if (!isListRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be viewer, editor or owner' },
+        { status: 400 },
+      );
+    }
+
+    const access = await authorizeList(session.user.id, id, 'owner');
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    if (userId === access.list.userId) {
+      return NextResponse.json(
+        { error: 'The list creator is always an owner' },
+        { status: 400 },
+      );
+    }
+
+    const updatedMember = await db
+      .update(listMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(listMembers.listId, id), eq(listMembers.userId, userId)))
+      .returning();
+
+    if (updatedMember.length === 0) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedMember[0]);
+  } catch (error) {
+    console.error('Error updating list member:', error);
+    return NextResponse.json(
+      { error: 'Failed to update list member' },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/lists/[id]/members/[userId] - Remove a member from a list
+// Owners can remove anyone but the creator; members can remove themselves.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+
+    const access = await authorizeList(
+      session.user.id,
+      id,
+      userId === session.user.id ? 'viewer' : 'owner',
+    );
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    if (userId === access.list.userId) {
+      return NextResponse.json(
+        { error: 'The list creator cannot be removed' },
+        { status: 400 },
+      );
+    }
+
+    const removedMember = await db
+      .delete(listMembers)
+      .where(and(eq(listMembers.listId, id), eq(listMembers.userId, userId)))
+      .returning();
+
+    if (removedMember.length === 0) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Error removing list member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove list member' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { authorizeList } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { listMembers, user } from '@/lib/db/schema';
+import type { ListMemberDetails } from '@/lib/lists';
+import { isListRole } from '@/lib/roles';
+
+// GET /api/lists/[id]/members - Get everyone with access to a list
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeList(session.user.id, id, 'viewer');
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const [creator] = await db
+      .select({ userId: user.id, name: user.name, email: user.email })
+      .from(user)
+      .where(eq(user.id, access.list.userId));
+
+    const members = await db
+      .select({
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        role: listMembers.role,
+      })
+      .from(listMembers)
+      .innerJoin(user, eq(user.id, listMembers.userId))
+      .where(eq(listMembers.listId, id))
+      .orderBy(asc(listMembers.createdAt));
+
+    const result: ListMemberDetails[] = [
+      { ...creator, role: 'owner', isCreator: true },
+      ...members.map((member) => ({ ...member, isCreator: false })),
+    ];
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching list members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch list members' },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/lists/[id]/members - Invite a user to a list by email
+// Body: { email, role? } - role defaults to editor
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { email } = body;
+    const role = body.role ?? 'editor';
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    if (!isListRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be viewer, editor or owner' },
+        { status: 400 },
+      );
+    }
+
+    const access = await authorizeList(session.user.id, id, 'owner');
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const [invitee] = await db
+      .select({ userId: user.id, name: user.name, email: user.email })
+      .from(user)
+      .where(eq(user.email, email.trim().toLowerCase()))
+      .limit(1);
+
+    if (!invitee) {
+      return NextResponse.json(
+        { error: 'No user with this email' },
+        { status: 404 },
+      );
+    }
+
+    const existingMember = await db
+      .select({ userId: listMembers.userId })
+      .from(listMembers)
+      .where(
+        and(eq(listMembers.listId, id), eq(listMembers.userId, invitee.userId)),
+      )
+      .limit(1);
+
+    if (invitee.userId === access.list.userId || existingMember.length > 0) {
+      return NextResponse.json(
+        { error: 'This user already has access to the list' },
+        { status: 409 },
+      );
+    }
+
+    await db.insert(listMembers).values({
+      listId: id,
+      userId: invitee.userId,
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const member: ListMemberDetails = { ...invitee, role, isCreator: false };
+    return NextResponse.json(member, { status: 201 });
+  } catch (error) {
+    console.error('Error adding list member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add list member' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { eq } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { authorizeList } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { lists, todos } from '@/lib/db/schema';
+import { listWithRoleColumns } from '@/lib/lists';
+import { nextVersion } from '@/lib/todos';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// PATCH /api/lists/[id] - Update a list
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { name, color, sortOrder, archived } = body;
+
+    if (color && !COLOR_PATTERN.test(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 },
+      );
+    }
+
+    // Only owners can change the list itself
+    const access = await authorizeList(session.user.id, id, 'owner');
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+    const existingList = access.list;
+
+    await db
+      .update(lists)
+      .set({
+        name: name || existingList.name,
+        color: color !== undefined ? color || null : existingList.color,
+        sortOrder: Number.isInteger(sortOrder)
+          ? sortOrder
+          : existingList.sortOrder,
+        archived: archived ?? existingList.archived,
+        updatedAt: new Date(),
+      })
+      .where(eq(lists.id, id));
+
+    const updatedList = await db
+      .select(listWithRoleColumns(session.user.id))
+      .from(lists)
+      .where(eq(lists.id, id));
+
+    return NextResponse.json(updatedList[0]);
+  } catch (error) {
+    console.error('Error updating list:', error);
+    return NextResponse.json(
+      { error: 'Failed to update list' },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/lists/[id] - Delete a list (its todos become unassigned)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeList(session.user.id, id, 'owner');
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    // Each todo goes back to its creator's inbox; memberships cascade
+    await db.transaction(async (tx) => {
+      await tx
+        .update(todos)
+        .set({ listId: null, updatedAt: new Date(), version: nextVersion })
+        .where(eq(todos.listId, id));
+      await tx.delete(lists).where(eq(lists.id, id));
+    });
+
+    return NextResponse.json({ message: 'List deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting list:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete list' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { accessibleListsFilter } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { lists } from '@/lib/db/schema';
+import { listWithRoleColumns } from '@/lib/lists';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// GET /api/lists - Get the lists the user created or was added to
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Archived lists are hidden unless explicitly requested
+    const includeArchived =
+      request.nextUrl.searchParams.get('archived') === 'true';
+
+    const userLists = await db
+      .select(listWithRoleColumns(session.user.id))
+      .from(lists)
+      .where(
+        includeArchived
+          ? accessibleListsFilter(session.user.id)
+          : and(
+              accessibleListsFilter(session.user.id),
+              eq(lists.archived, false),
+            ),
+      )
+      .orderBy(asc(lists.sortOrder), asc(lists.createdAt));
+
+    return NextResponse.json(userLists);
+  } catch (error) {
+    console.error('Error fetching lists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch lists' },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/lists - Create a new list
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, color, sortOrder } = body;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    if (color && !COLOR_PATTERN.test(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 },
+      );
+    }
+
+    const newList = await db
+      .insert(lists)
+      .values({
+        id: crypto.randomUUID(),
+        name,
+        color: color || null,
+        sortOrder: Number.isInteger(sortOrder) ? sortOrder : 0,
+        archived: false,
+        userId: session.user.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    return NextResponse.json(
+      { ...newList[0], role: 'owner', memberCount: 0 },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('Error creating list:', error);
+    return NextResponse.json(
+      { error: 'Failed to create list' },
+      { status: 500 },
+    );
+  }
+}
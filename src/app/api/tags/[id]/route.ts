@@ -0,0 +1,126 @@
+import { and, eq, ne } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { tags, todoTags } from '@/lib/db/schema';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// PATCH /api/tags/[id] - Rename or recolor a tag
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : undefined;
+    const { color } = body;
+
+    if (color && !COLOR_PATTERN.test(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 },
+      );
+    }
+
+    // Verify the tag belongs to the user
+    const existingTag = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, session.user.id)))
+      .limit(1);
+
+    if (existingTag.length === 0) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    if (name) {
+      const duplicate = await db
+        .select({ id: tags.id })
+        .from(tags)
+        .where(
+          and(
+            eq(tags.userId, session.user.id),
+            eq(tags.name, name),
+            ne(tags.id, id),
+          ),
+        )
+        .limit(1);
+
+      if (duplicate.length > 0) {
+        return NextResponse.json(
+          { error: 'A tag with this name already exists' },
+          { status: 409 },
+        );
+      }
+    }
+
+    const updatedTag = await db
+      .update(tags)
+      .set({
+        name: name || existingTag[0].name,
+        color: color !== undefined ? color || null : existingTag[0].color,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tags.id, id), eq(tags.userId, session.user.id)))
+      .returning();
+
+    return NextResponse.json(updatedTag[0]);
+  } catch (error) {
+    console.error('Error updating tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tag' },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/tags/[id] - Delete a tag and detach it from its todos
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Verify the tag belongs to the user before deleting
+    const existingTag = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, session.user.id)))
+      .limit(1);
+
+    if (existingTag.length === 0) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(todoTags).where(eq(todoTags.tagId, id));
+      await tx
+        .delete(tags)
+        .where(and(eq(tags.id, id), eq(tags.userId, session.user.id)));
+    });
+
+    return NextResponse.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 },
+    );
+  }
+}
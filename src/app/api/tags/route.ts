@@ -0,0 +1,91 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { tags } from '@/lib/db/schema';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// GET /api/tags - Get all tags for the authenticated user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userTags = await db
+      .select()
+      .from(tags)
+      .where(eq(tags.userId, session.user.id))
+      .orderBy(asc(tags.name));
+
+    return NextResponse.json(userTags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/tags - Create a new tag
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const { color } = body;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    if (color && !COLOR_PATTERN.test(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 },
+      );
+    }
+
+    const existingTag = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.userId, session.user.id), eq(tags.name, name)))
+      .limit(1);
+
+    if (existingTag.length > 0) {
+      return NextResponse.json(
+        { error: 'A tag with this name already exists' },
+        { status: 409 },
+      );
+    }
+
+    const newTag = await db
+      .insert(tags)
+      .values({
+        id: crypto.randomUUID(),
+        name,
+        color: color || null,
+        userId: session.user.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    return NextResponse.json(newTag[0], { status: 201 });
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 },
+    );
+  }
+}
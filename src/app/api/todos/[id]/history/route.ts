@@ -0,0 +1,47 @@
+import { desc, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeTodo } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { todoEvents, user } from '@/lib/db/schema';
+import { apiError } from '@/lib/responses';
+
+// GET /api/todos/[id]/history - Get a todo's change history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+
+    const access = await authorizeTodo(session.user.id, id, 'viewer');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const events = await db
+      .select({
+        id: todoEvents.id,
+        action: todoEvents.action,
+        changes: todoEvents.changes,
+        userId: todoEvents.userId,
+        actorName: user.name,
+        createdAt: todoEvents.createdAt,
+      })
+      .from(todoEvents)
+      .leftJoin(user, eq(user.id, todoEvents.userId))
+      .where(eq(todoEvents.todoId, id))
+      .orderBy(desc(todoEvents.createdAt));
+
+    return NextResponse.json(events);
+  } catch (error) {
+    console.error('Error fetching todo history:', error);
+    return apiError(500, 'Failed to fetch todo history');
+  }
+}
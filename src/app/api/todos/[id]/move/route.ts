@@ -0,0 +1,157 @@
+import { and, eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { accessibleTodosFilter, authorizeTodo } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { todos } from '@/lib/db/schema';
+import { diffTodo } from '@/lib/history';
+import { keyBetween } from '@/lib/positions';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+import { moveTodoSchema } from '@/lib/todo-schemas';
+import {
+  hasDuplicatePositions,
+  neighbourPositions,
+  nextVersion,
+  rebalancePositions,
+  recordTodoEvents,
+  todoTransaction,
+} from '@/lib/todos';
+
+// POST /api/todos/[id]/move - Reorder a todo among its siblings
+// Body: MoveTodoInput - the sibling the todo should directly
+// follow and/or precede. Only the moved todo's position changes.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+    const parsed = await parseBody(request, moveTodoSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const { after = null, before = null } = parsed.data;
+
+    if (after === null && before === null) {
+      return validationError([
+        { field: 'after', message: 'after or before is required' },
+      ]);
+    }
+    if (after === id || before === id) {
+      return validationError([
+        {
+          field: after === id ? 'after' : 'before',
+          message: 'A todo cannot be moved next to itself',
+        },
+      ]);
+    }
+
+    const access = await authorizeTodo(session.user.id, id, 'editor');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const todo = access.todo;
+
+    const findSibling = async (siblingId: string | null) => {
+      if (siblingId === null) {
+        return null;
+      }
+      const sibling = await db
+        .select()
+        .from(todos)
+        .where(
+          and(eq(todos.id, siblingId), accessibleTodosFilter(session.user.id)),
+        )
+        .limit(1);
+      return sibling[0] ?? undefined;
+    };
+
+    const afterTodo = await findSibling(after);
+    const beforeTodo = await findSibling(before);
+
+    if (afterTodo === undefined || beforeTodo === undefined) {
+      return apiError(404, 'Todo not found');
+    }
+    if (
+      (afterTodo && afterTodo.parentId !== todo.parentId) ||
+      (beforeTodo && beforeTodo.parentId !== todo.parentId)
+    ) {
+      return validationError([
+        {
+          field:
+            afterTodo && afterTodo.parentId !== todo.parentId
+              ? 'after'
+              : 'before',
+          message: 'after and before must share the todo parent',
+        },
+      ]);
+    }
+
+    const movedTodo = await todoTransaction(async (tx) => {
+      if (await hasDuplicatePositions(tx, session.user.id, todo.parentId)) {
+        await rebalancePositions(tx, session.user.id, todo.parentId);
+      }
+
+      const positionOf = async (siblingId: string) => {
+        const [sibling] = await tx
+          .select({ position: todos.position })
+          .from(todos)
+          .where(eq(todos.id, siblingId));
+        return sibling.position;
+      };
+
+      // With a single anchor, the other bound is its nearest neighbour
+      let lower = afterTodo ? await positionOf(afterTodo.id) : null;
+      let upper = beforeTodo ? await positionOf(beforeTodo.id) : null;
+      if (lower !== null && upper === null) {
+        upper = (await neighbourPositions(tx, session.user.id, todo, lower))
+          .next;
+      } else if (upper !== null && lower === null) {
+        lower = (await neighbourPositions(tx, session.user.id, todo, upper))
+          .previous;
+      }
+
+      if (lower !== null && upper !== null && lower >= upper) {
+        return null;
+      }
+
+      // Diffed against the position after any rebalance, so undo lands in
+      // the same place
+      const previous = { ...todo, position: await positionOf(id) };
+      const moved = await tx
+        .update(todos)
+        .set({
+          position: keyBetween(lower, upper),
+          updatedAt: new Date(),
+          version: nextVersion,
+        })
+        .where(eq(todos.id, id))
+        .returning();
+      await recordTodoEvents(tx, session.user.id, [
+        { todoId: id, action: 'update', changes: diffTodo(previous, moved[0]) },
+      ]);
+      return moved;
+    });
+
+    if (!movedTodo) {
+      return validationError([
+        {
+          field: 'before',
+          message: 'The after todo must be ordered before the before todo',
+        },
+      ]);
+    }
+
+    return NextResponse.json(movedTodo[0]);
+  } catch (error) {
+    console.error('Error moving todo:', error);
+    return apiError(500, 'Failed to move todo');
+  }
+}
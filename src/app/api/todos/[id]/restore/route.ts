@@ -0,0 +1,46 @@
+import { eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeTodo } from '@/lib/authz';
+import { todos } from '@/lib/db/schema';
+import { apiError } from '@/lib/responses';
+import { recordTodoEvents, todoTransaction } from '@/lib/todos';
+import { isParentTrashed, restoreTodo } from '@/lib/trash';
+
+// POST /api/todos/[id]/restore - Bring a todo back from the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+
+    const access = await authorizeTodo(session.user.id, id, 'editor', true);
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    if (await isParentTrashed(access.todo)) {
+      return apiError(409, 'Restore the parent todo first');
+    }
+
+    const restoredTodo = await todoTransaction(async (tx) => {
+      await restoreTodo(tx, access.todo);
+      await recordTodoEvents(tx, session.user.id, [
+        { todoId: id, action: 'restore', changes: {} },
+      ]);
+      return tx.select().from(todos).where(eq(todos.id, id));
+    });
+
+    return NextResponse.json(restoredTodo[0]);
+  } catch (error) {
+    console.error('Error restoring todo:', error);
+    return apiError(500, 'Failed to restore todo');
+  }
+}
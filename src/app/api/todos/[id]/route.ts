@@ -1,94 +1,273 @@
-import { and, eq } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { db } from '@/lib/db';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeList, authorizeTodo, canMoveOutOfList } from '@/lib/authz';
+import { type DbTransaction, db } from '@/lib/db';
 import { todos } from '@/lib/db/schema';
+import { matchesVersion, versionETag } from '@/lib/etags';
+import {
+  apiError,
+  parseBody,
+  readIfMatch,
+  validationError,
+  versionMismatch,
+} from '@/lib/responses';
+import { type MessageResponse, updateTodoSchema } from '@/lib/todo-schemas';
+import {
+  applyTodoUpdate,
+  parseSchedule,
+  parseTagIds,
+  recordTodoEvents,
+  todoDetails,
+  todoTransaction,
+} from '@/lib/todos';
+import { purgeTodos, trashTodo } from '@/lib/trash';
+
+// The 412 for a stale If-Match, or a 404 if the todo was deleted for good
+// in the meantime
+async function currentVersionMismatch(userId: string, id: string) {
+  const current = await todoDetails(userId, id);
+  return current ? versionMismatch(current) : apiError(404, 'Todo not found');
+}
+
+// GET /api/todos/[id] - Get one todo, with its version as the ETag
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+    const access = await authorizeTodo(session.user.id, id, 'viewer');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const todo = await todoDetails(session.user.id, id);
+    if (!todo) {
+      return apiError(404, 'Todo not found');
+    }
+    return NextResponse.json(todo, {
+      headers: { ETag: versionETag(todo.version) },
+    });
+  } catch (error) {
+    console.error('Error fetching todo:', error);
+    return apiError(500, 'Failed to fetch todo');
+  }
+}
 
 // PATCH /api/todos/[id] - Update a todo
+// Requires If-Match with the todo's ETag; a stale one is a 412 carrying the
+// current todo.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const session = await auth.api.getSession({ headers: request.headers });
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
     }
+    const { session } = authenticated;
 
     const { id } = await params;
-    const body = await request.json();
-    const { title, description, completed } = body;
-
-    // Verify the todo belongs to the user
-    const existingTodo = await db
-      .select()
-      .from(todos)
-      .where(and(eq(todos.id, id), eq(todos.userId, session.user.id)))
-      .limit(1);
-
-    if (existingTodo.length === 0) {
-      return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
-    }
-
-    const updatedTodo = await db
-      .update(todos)
-      .set({
-        title: title ?? existingTodo[0].title,
-        description:
-          description !== undefined ? description : existingTodo[0].description,
-        completed: completed ?? existingTodo[0].completed,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(todos.id, id), eq(todos.userId, session.user.id)))
-      .returning();
-
-    return NextResponse.json(updatedTodo[0]);
+    const precondition = readIfMatch(request);
+    if ('response' in precondition) {
+      return precondition.response;
+    }
+    const parsed = await parseBody(request, updateTodoSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const body = parsed.data;
+
+    const access = await authorizeTodo(session.user.id, id, 'editor');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+    const existingTodo = access.todo;
+
+    const schedule = parseSchedule(body, session.user.timezone, existingTodo);
+    if ('error' in schedule) {
+      return validationError([
+        { field: schedule.field, message: schedule.error },
+      ]);
+    }
+
+    // Subtasks always live in their parent's list
+    if (body.listId !== undefined && existingTodo.parentId) {
+      return validationError([
+        { field: 'listId', message: 'Subtasks move with their parent todo' },
+      ]);
+    }
+
+    if (
+      body.listId !== undefined &&
+      body.listId !== existingTodo.listId &&
+      !canMoveOutOfList(session.user.id, existingTodo, access.role)
+    ) {
+      return apiError(
+        403,
+        "Only the list's owner or the todo's creator can move it out",
+      );
+    }
+
+    // Moving to another list requires edit access to the target list
+    if (body.listId) {
+      const target = await authorizeList(
+        session.user.id,
+        body.listId,
+        'editor',
+      );
+      if ('error' in target) {
+        return apiError(target.status, target.error);
+      }
+    }
+
+    // tagIds replaces the todo's tags when present
+    const tagIds = body.tagIds
+      ? await parseTagIds(body.tagIds, session.user.id)
+      : undefined;
+    if (tagIds && 'error' in tagIds) {
+      return validationError([{ field: 'tagIds', message: tagIds.error }]);
+    }
+
+    const updatedTodo = await todoTransaction(async (tx) => {
+      // Checked in the transaction so no other change can land in between.
+      // The todo may also have been purged from the trash since.
+      const [current] = await tx.select().from(todos).where(eq(todos.id, id));
+      if (!current) {
+        return 'not_found';
+      }
+      if (!matchesVersion(precondition.ifMatch, current.version)) {
+        return 'stale';
+      }
+      return applyTodoUpdate(
+        tx,
+        session.user,
+        current,
+        {
+          title: body.title,
+          description: body.description,
+          completed: body.completed,
+          listId: body.listId,
+          ...schedule.values,
+          priority: body.priority,
+          important: body.important,
+          completeSubtasks: body.completeSubtasks,
+        },
+        tagIds?.tagIds,
+      );
+    });
+
+    if (updatedTodo === 'not_found') {
+      return apiError(404, 'Todo not found');
+    }
+    if (updatedTodo === 'stale') {
+      return currentVersionMismatch(session.user.id, id);
+    }
+
+    return NextResponse.json(updatedTodo, {
+      headers: { ETag: versionETag(updatedTodo.version) },
+    });
   } catch (error) {
     console.error('Error updating todo:', error);
-    return NextResponse.json(
-      { error: 'Failed to update todo' },
-      { status: 500 },
-    );
+    return apiError(500, 'Failed to update todo');
   }
 }
 
-// DELETE /api/todos/[id] - Delete a todo
+// DELETE /api/todos/[id] - Move a todo to the trash
+// ?permanent=true deletes a todo that is already in the trash for good.
+// Requires If-Match like PATCH.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const session = await auth.api.getSession({ headers: request.headers });
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
     }
+    const { session } = authenticated;
 
     const { id } = await params;
+    const permanent = request.nextUrl.searchParams.get('permanent') === 'true';
+    const precondition = readIfMatch(request);
+    if ('response' in precondition) {
+      return precondition.response;
+    }
 
-    // Verify the todo belongs to the user before deleting
-    const existingTodo = await db
-      .select()
-      .from(todos)
-      .where(and(eq(todos.id, id), eq(todos.userId, session.user.id)))
-      .limit(1);
+    const access = await authorizeTodo(
+      session.user.id,
+      id,
+      'editor',
+      permanent,
+    );
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    // Checked in the transaction like PATCH; the todo may be gone by then
+    const checkVersion = async (tx: DbTransaction) => {
+      const [current] = await tx
+        .select({ version: todos.version })
+        .from(todos)
+        .where(eq(todos.id, id));
+      if (!current) {
+        return 'not_found';
+      }
+      return matchesVersion(precondition.ifMatch, current.version)
+        ? 'current'
+        : 'stale';
+    };
+    const failed = (outcome: 'not_found' | 'stale') =>
+      outcome === 'not_found'
+        ? apiError(404, 'Todo not found')
+        : currentVersionMismatch(session.user.id, id);
 
-    if (existingTodo.length === 0) {
-      return NextResponse.json({ error: 'Todo not found' }, { status: 404 });
+    if (permanent) {
+      const purged = await db.transaction(async (tx) => {
+        const version = await checkVersion(tx);
+        if (version !== 'current') {
+          return version;
+        }
+        await purgeTodos(tx, [id]);
+        return 'done';
+      });
+      if (purged !== 'done') {
+        return failed(purged);
+      }
+      return NextResponse.json<MessageResponse>({
+        message: 'Todo deleted successfully',
+      });
     }
 
-    await db
-      .delete(todos)
-      .where(and(eq(todos.id, id), eq(todos.userId, session.user.id)));
+    const trashed = await todoTransaction(async (tx) => {
+      const version = await checkVersion(tx);
+      if (version !== 'current') {
+        return version;
+      }
+      await trashTodo(tx, id);
+      await recordTodoEvents(tx, session.user.id, [
+        { todoId: id, action: 'delete', changes: {} },
+      ]);
+      return 'done';
+    });
+    if (trashed !== 'done') {
+      return failed(trashed);
+    }
 
-    return NextResponse.json({ message: 'Todo deleted successfully' });
+    return NextResponse.json<MessageResponse>({
+      message: 'Todo moved to trash',
+    });
   } catch (error) {
     console.error('Error deleting todo:', error);
-    return NextResponse.json(
-      { error: 'Failed to delete todo' },
-      { status: 500 },
-    );
+    return apiError(500, 'Failed to delete todo');
   }
 }
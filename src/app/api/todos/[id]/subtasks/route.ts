@@ -0,0 +1,116 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeTodo } from '@/lib/authz';
+import { db } from '@/lib/db';
+import { todos } from '@/lib/db/schema';
+import { diffTodo } from '@/lib/history';
+import { apiError, parseBody } from '@/lib/responses';
+import { createSubtaskSchema } from '@/lib/todo-schemas';
+import {
+  endPosition,
+  recordTodoEvents,
+  todoExists,
+  todoTransaction,
+} from '@/lib/todos';
+
+// GET /api/todos/[id]/subtasks - Get the subtasks of a todo
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+
+    const access = await authorizeTodo(session.user.id, id, 'viewer');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const subtasks = await db
+      .select()
+      .from(todos)
+      .where(and(eq(todos.parentId, id), isNull(todos.deletedAt)))
+      .orderBy(todos.position, todos.createdAt);
+
+    return NextResponse.json(subtasks);
+  } catch (error) {
+    console.error('Error fetching subtasks:', error);
+    return apiError(500, 'Failed to fetch subtasks');
+  }
+}
+
+// POST /api/todos/[id]/subtasks - Add a subtask to a todo
+// Body: CreateSubtaskInput. A client-picked id that is already taken is a 409.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+    const parsed = await parseBody(request, createSubtaskSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const { id: subtaskId, title, description } = parsed.data;
+
+    const access = await authorizeTodo(session.user.id, id, 'editor');
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const parent = access.todo;
+
+    if (parent.parentId) {
+      return apiError(422, 'Subtasks cannot have subtasks');
+    }
+
+    if (subtaskId && (await todoExists(subtaskId))) {
+      return apiError(409, 'Todo already exists');
+    }
+
+    const newSubtask = await todoTransaction(async (tx) => {
+      const inserted = await tx
+        .insert(todos)
+        .values({
+          id: subtaskId ?? crypto.randomUUID(),
+          title,
+          description: description || null,
+          completed: false,
+          listId: parent.listId,
+          parentId: id,
+          position: await endPosition(tx, session.user.id, id),
+          userId: session.user.id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+      await recordTodoEvents(tx, session.user.id, [
+        {
+          todoId: inserted[0].id,
+          action: 'create',
+          changes: diffTodo(null, inserted[0]),
+        },
+      ]);
+      return inserted;
+    });
+
+    return NextResponse.json(newSubtask[0], { status: 201 });
+  } catch (error) {
+    console.error('Error creating subtask:', error);
+    return apiError(500, 'Failed to create subtask');
+  }
+}
@@ -0,0 +1,214 @@
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeList, authorizeTodo } from '@/lib/authz';
+import { type DbTransaction, db } from '@/lib/db';
+import { todoEvents, todos } from '@/lib/db/schema';
+import { DATE_FIELDS, diffTodo, type TodoEventEffects } from '@/lib/history';
+import { apiError } from '@/lib/responses';
+import type { UndoResponse } from '@/lib/todo-schemas';
+import {
+  nextVersion,
+  recordTodoEvents,
+  replaceTodoTags,
+  todoTransaction,
+  userTagIds,
+} from '@/lib/todos';
+import { isParentTrashed, restoreTodo, trashTodo } from '@/lib/trash';
+
+// Reverts what completing a todo did to others: its next occurrence goes to
+// the trash and the subtasks it completed reopen. Todos that were completed
+// or trashed since are left alone.
+async function revertCompletionEffects(
+  tx: DbTransaction,
+  userId: string,
+  { nextOccurrenceId, completedSubtaskIds = [] }: TodoEventEffects,
+) {
+  if (nextOccurrenceId) {
+    const [next] = await tx
+      .select()
+      .from(todos)
+      .where(eq(todos.id, nextOccurrenceId));
+    if (next && !next.completed && !next.deletedAt) {
+      await trashTodo(tx, next.id);
+      await recordTodoEvents(tx, userId, [
+        { todoId: next.id, action: 'delete', changes: {} },
+      ]);
+    }
+  }
+
+  if (completedSubtaskIds.length === 0) {
+    return;
+  }
+  const reopening = and(
+    inArray(todos.id, completedSubtaskIds),
+    eq(todos.completed, true),
+    isNull(todos.deletedAt),
+  );
+  const before = await tx.select().from(todos).where(reopening);
+  const reopened = await tx
+    .update(todos)
+    .set({
+      completed: false,
+      completedBy: null,
+      updatedAt: new Date(),
+      version: nextVersion,
+    })
+    .where(reopening)
+    .returning();
+  await recordTodoEvents(
+    tx,
+    userId,
+    reopened.map((subtask) => ({
+      todoId: subtask.id,
+      action: 'update',
+      changes: diffTodo(
+        before.find((todo) => todo.id === subtask.id) ?? null,
+        subtask,
+      ),
+    })),
+  );
+}
+
+// POST /api/todos/[id]/undo - Revert the latest change to a todo
+// Only whoever made that change can undo it. The undo is recorded as a change
+// of its own, so undoing twice restores the original change.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const { id } = await params;
+
+    // Deleted todos are in the trash, so look there too. Checking access
+    // before reading history means other users' todos are simply not found.
+    let access = await authorizeTodo(session.user.id, id, 'editor');
+    if ('error' in access && access.status === 404) {
+      access = await authorizeTodo(session.user.id, id, 'editor', true);
+    }
+    if ('error' in access) {
+      return apiError(access.status, access.error);
+    }
+
+    const [event] = await db
+      .select()
+      .from(todoEvents)
+      .where(eq(todoEvents.todoId, id))
+      .orderBy(desc(todoEvents.createdAt))
+      .limit(1);
+
+    if (!event) {
+      return apiError(404, 'Nothing to undo');
+    }
+
+    if (event.userId !== session.user.id) {
+      return apiError(409, 'Only your own latest change can be undone');
+    }
+
+    // Only a deletion can be undone in the trash, and only there
+    if ((event.action === 'delete') !== Boolean(access.todo.deletedAt)) {
+      return apiError(404, 'Todo not found');
+    }
+
+    if (event.action === 'delete') {
+      if (await isParentTrashed(access.todo)) {
+        return apiError(409, 'Restore the parent todo first');
+      }
+      await todoTransaction(async (tx) => {
+        await restoreTodo(tx, access.todo);
+        await recordTodoEvents(tx, session.user.id, [
+          { todoId: id, action: 'restore', changes: {} },
+        ]);
+      });
+
+      return NextResponse.json<UndoResponse>({ undone: event.action });
+    }
+
+    if (event.action === 'create' || event.action === 'restore') {
+      await todoTransaction(async (tx) => {
+        await trashTodo(tx, id);
+        await recordTodoEvents(tx, session.user.id, [
+          { todoId: id, action: 'delete', changes: {} },
+        ]);
+      });
+
+      return NextResponse.json<UndoResponse>({ undone: event.action });
+    }
+
+    // Updates and completions put every changed field back
+    const values: Record<string, unknown> = {};
+    for (const [field, change] of Object.entries(event.changes)) {
+      if (field !== 'tagIds') {
+        values[field] =
+          DATE_FIELDS.includes(field) && typeof change.from === 'string'
+            ? new Date(change.from)
+            : change.from;
+      }
+    }
+    const previousTagIds = event.changes.tagIds?.from as string[] | undefined;
+
+    if (typeof values.listId === 'string') {
+      const target = await authorizeList(
+        session.user.id,
+        values.listId,
+        'editor',
+      );
+      if ('error' in target) {
+        return apiError(target.status, target.error);
+      }
+    }
+
+    await todoTransaction(async (tx) => {
+      const currentTagIds = previousTagIds
+        ? await userTagIds(tx, id, session.user.id)
+        : undefined;
+
+      const [updated] = await tx
+        .update(todos)
+        .set({ ...values, updatedAt: new Date(), version: nextVersion })
+        .where(eq(todos.id, id))
+        .returning();
+
+      if (updated.listId !== access.todo.listId) {
+        await tx
+          .update(todos)
+          .set({
+            listId: updated.listId,
+            updatedAt: new Date(),
+            version: nextVersion,
+          })
+          .where(eq(todos.parentId, id));
+      }
+
+      if (previousTagIds) {
+        await replaceTodoTags(tx, id, previousTagIds, session.user.id);
+      }
+
+      await recordTodoEvents(tx, session.user.id, [
+        {
+          todoId: id,
+          action: 'update',
+          changes: diffTodo(
+            { ...access.todo, tagIds: currentTagIds },
+            { ...updated, tagIds: previousTagIds },
+          ),
+        },
+      ]);
+
+      if (event.action === 'complete' && event.effects) {
+        await revertCompletionEffects(tx, session.user.id, event.effects);
+      }
+    });
+
+    return NextResponse.json<UndoResponse>({ undone: event.action });
+  } catch (error) {
+    console.error('Error undoing todo change:', error);
+    return apiError(500, 'Failed to undo change');
+  }
+}
@@ -0,0 +1,183 @@
+import { eq } from 'drizzle-orm';
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeList, authorizeTodo, canMoveOutOfList } from '@/lib/authz';
+import type { BulkResult } from '@/lib/bulk';
+import { type Todo, todos } from '@/lib/db/schema';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+import { type BulkTodosResponse, bulkTodosSchema } from '@/lib/todo-schemas';
+import {
+  applyTodoUpdate,
+  parseSchedule,
+  recordTodoEvents,
+  type TodoUpdateValues,
+  todoDetails,
+  todoTransaction,
+} from '@/lib/todos';
+import { trashTodo } from '@/lib/trash';
+
+// POST /api/todos/bulk - Apply one operation to many todos
+// Body: BulkTodosInput. operation is complete, uncomplete, delete, move (to
+// listId, null for the inbox) or set (fields).
+// Todos that can't be changed are reported in the per-id results and don't
+// stop the rest, which are changed in a single transaction.
+// Each todo comes with the version it was selected at, like If-Match on
+// PATCH and DELETE; one that has changed since is a 412 result carrying the
+// current todo, and is left alone.
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const parsed = await parseBody(request, bulkTodosSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const { operation, listId = null, fields = {} } = parsed.data;
+    const versions = new Map(
+      parsed.data.todos.map(({ id, version }) => [id, version]),
+    );
+
+    // Checks that don't depend on the todo are made once, up front
+    let values: TodoUpdateValues = {};
+    if (operation === 'complete' || operation === 'uncomplete') {
+      values = { completed: operation === 'complete' };
+    }
+
+    if (operation === 'move') {
+      if (listId) {
+        const target = await authorizeList(session.user.id, listId, 'editor');
+        if ('error' in target) {
+          return apiError(target.status, target.error);
+        }
+      }
+      values = { listId };
+    }
+
+    if (operation === 'set') {
+      if (Object.keys(fields).length === 0) {
+        return validationError([
+          { field: 'fields', message: 'fields must set at least one field' },
+        ]);
+      }
+      values = { priority: fields.priority, important: fields.important };
+    }
+
+    const results = new Map<string, BulkResult>();
+    const changes = new Map<string, TodoUpdateValues>();
+
+    for (const id of versions.keys()) {
+      const access = await authorizeTodo(session.user.id, id, 'editor');
+      if ('error' in access) {
+        results.set(id, { id, status: access.status, error: access.error });
+        continue;
+      }
+      const todo = access.todo;
+
+      if (operation === 'move' && todo.parentId) {
+        results.set(id, {
+          id,
+          status: 422,
+          error: 'Subtasks move with their parent todo',
+        });
+        continue;
+      }
+
+      if (
+        operation === 'move' &&
+        todo.listId !== listId &&
+        !canMoveOutOfList(session.user.id, todo, access.role)
+      ) {
+        results.set(id, {
+          id,
+          status: 403,
+          error: "Only the list's owner or the todo's creator can move it out",
+        });
+        continue;
+      }
+
+      // Schedules are checked against each todo's own due date and reminder
+      if (operation === 'set') {
+        const schedule = parseSchedule(fields, session.user.timezone, todo);
+        if ('error' in schedule) {
+          results.set(id, { id, status: 422, error: schedule.error });
+          continue;
+        }
+        changes.set(id, { ...values, ...schedule.values });
+      } else {
+        changes.set(id, values);
+      }
+      results.set(id, { id, status: 200 });
+    }
+
+    const stale: string[] = [];
+    await todoTransaction(async (tx) => {
+      // Versions are all checked before anything changes, since changing one
+      // todo can change others in the batch too (completing or trashing their
+      // parent). A todo may also have been purged from the trash since it was
+      // checked.
+      for (const id of changes.keys()) {
+        const [current] = await tx
+          .select({ version: todos.version })
+          .from(todos)
+          .where(eq(todos.id, id));
+        if (!current) {
+          results.set(id, { id, status: 404, error: 'Todo not found' });
+          changes.delete(id);
+        } else if (current.version !== versions.get(id)) {
+          stale.push(id);
+          changes.delete(id);
+        }
+      }
+
+      for (const [id, todoValues] of changes) {
+        // Re-read, as an earlier todo in the batch may have changed this one
+        const [current] = await tx.select().from(todos).where(eq(todos.id, id));
+
+        if (operation === 'delete') {
+          // Subtasks selected with their parent go to the trash with it, so
+          // restoring the parent brings them back too
+          if (current.deletedAt || hasSelectedParent(current, changes)) {
+            continue;
+          }
+          await trashTodo(tx, id);
+          await recordTodoEvents(tx, session.user.id, [
+            { todoId: id, action: 'delete', changes: {} },
+          ]);
+          continue;
+        }
+
+        await applyTodoUpdate(tx, session.user, current, todoValues);
+      }
+    });
+
+    for (const id of stale) {
+      const current = await todoDetails(session.user.id, id);
+      results.set(
+        id,
+        current
+          ? {
+              id,
+              status: 412,
+              error: 'This todo was changed by someone else',
+              current,
+            }
+          : { id, status: 404, error: 'Todo not found' },
+      );
+    }
+
+    return NextResponse.json<BulkTodosResponse>({
+      results: [...results.values()],
+    });
+  } catch (error) {
+    console.error('Error applying bulk operation:', error);
+    return apiError(500, 'Failed to update todos');
+  }
+}
+
+function hasSelectedParent(todo: Todo, changes: Map<string, TodoUpdateValues>) {
+  return todo.parentId !== null && changes.has(todo.parentId);
+}
@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { DEFAULT_TIMEZONE, formatZonedInput } from '@/lib/dates';
+import { apiError, parseQuery } from '@/lib/responses';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_EXTENSIONS,
+  exportTodos,
+} from '@/lib/todo-export';
+import { exportQuerySchema } from '@/lib/todo-schemas';
+
+// GET /api/todos/export - Download every todo the user can see
+// Query: ?format=json|csv|markdown (default json)
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const query = parseQuery(request.nextUrl.searchParams, exportQuerySchema);
+    if ('response' in query) {
+      return query.response;
+    }
+    const { format = 'json' } = query.data;
+
+    const { date } = formatZonedInput(
+      new Date(),
+      session.user.timezone || DEFAULT_TIMEZONE,
+    );
+    return new Response(exportTodos(session.user, format), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="todos-${date}.${EXPORT_EXTENSIONS[format]}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting todos:', error);
+    return apiError(500, 'Failed to export todos');
+  }
+}
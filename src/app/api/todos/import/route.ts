@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { authorizeList } from '@/lib/authz';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+import {
+  commitImport,
+  importReport,
+  parseImport,
+  planImport,
+} from '@/lib/todo-import';
+import { importTodosSchema } from '@/lib/todo-schemas';
+
+// POST /api/todos/import - Import todos from a file's contents
+// Rows that match an existing todo or an earlier row are skipped, and rows
+// with errors are reported rather than failing the import. With dryRun the
+// report shows what would happen and nothing is saved.
+export async function POST(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const parsed = await parseBody(request, importTodosSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const body = parsed.data;
+
+    let target = null;
+    if (body.listId) {
+      const access = await authorizeList(
+        session.user.id,
+        body.listId,
+        'editor',
+      );
+      if ('error' in access) {
+        return apiError(access.status, access.error);
+      }
+      target = access.list;
+    }
+
+    const file = parseImport(body.format, body.content);
+    if ('error' in file) {
+      return validationError([{ field: 'content', message: file.error }]);
+    }
+
+    const plan = await planImport(session.user, file.rows, target);
+    const dryRun = body.dryRun ?? false;
+    if (!dryRun) {
+      await commitImport(session.user.id, plan);
+    }
+
+    return NextResponse.json(importReport(plan, dryRun));
+  } catch (error) {
+    console.error('Error importing todos:', error);
+    return apiError(500, 'Failed to import todos');
+  }
+}
@@ -1,69 +1,242 @@
-import { eq } from 'drizzle-orm';
+import { and, asc, desc, eq, isNull } from 'drizzle-orm';
 import { type NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { authenticate } from '@/lib/api-tokens';
+import { accessibleTodosFilter, authorizeList } from '@/lib/authz';
 import { db } from '@/lib/db';
 import { todos } from '@/lib/db/schema';
+import { diffTodo } from '@/lib/history';
+import {
+  apiError,
+  parseBody,
+  parseQuery,
+  validationError,
+} from '@/lib/responses';
+import { ensureSearchIndex, searchFilter } from '@/lib/search';
+import { createTodoSchema, type TodoPage } from '@/lib/todo-schemas';
+import {
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  endPosition,
+  parseSchedule,
+  parseTagIds,
+  recordTodoEvents,
+  replaceTodoTags,
+  SMART_VIEWS,
+  smartViewFilter,
+  sortExpression,
+  TODO_SORTS,
+  tagFilter,
+  todoExists,
+  todoTransaction,
+  todoWithDetailsColumns,
+} from '@/lib/todos';
+import {
+  array,
+  integer,
+  object,
+  oneOf,
+  optional,
+  string,
+} from '@/lib/validation';
 
-// GET /api/todos - Get all todos for the authenticated user
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// ?listId=<id>|inbox&view=today|upcoming|overdue&tag=<id>&tag=<id>
+// &tagMatch=any|all&completed=true|false&sort=<TodoSort>&order=asc|desc
+// &limit=&cursor=&q=
+const todosQuerySchema = object({
+  listId: optional(string()),
+  view: optional(oneOf(SMART_VIEWS)),
+  tag: array(string()),
+  tagMatch: optional(oneOf(['any', 'all'])),
+  completed: optional(oneOf(['true', 'false'])),
+  sort: optional(oneOf(TODO_SORTS)),
+  order: optional(oneOf(['asc', 'desc'])),
+  limit: optional(integer({ min: 1 })),
+  cursor: optional(string()),
+  q: optional(string()),
+});
+
+// GET /api/todos - Get a page of top-level todos the user can see
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({ headers: request.headers });
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const query = parseQuery(request.nextUrl.searchParams, todosQuerySchema, [
+      'tag',
+    ]);
+    if ('response' in query) {
+      return query.response;
+    }
+    const { listId, view, tag: tagIds, completed, q = '' } = query.data;
+
+    // ?listId=<id> narrows to one list, ?listId=inbox to the user's own
+    // unassigned todos
+    const listFilter =
+      listId === 'inbox'
+        ? isNull(todos.listId)
+        : listId
+          ? eq(todos.listId, listId)
+          : undefined;
+
+    const viewFilter = view
+      ? smartViewFilter(view, session.user.timezone)
+      : undefined;
+
+    // Several tags match todos with any of them unless tagMatch=all
+    const tagMatch = query.data.tagMatch ?? 'any';
+
+    const completedFilter =
+      completed !== undefined
+        ? eq(todos.completed, completed === 'true')
+        : undefined;
+
+    const sort = query.data.sort ?? (view ? 'due' : 'position');
+    const order = query.data.order ?? 'asc';
+    const limit = Math.min(
+      query.data.limit ?? DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE,
+    );
+
+    const cursor = query.data.cursor ? decodeCursor(query.data.cursor) : null;
+    if (query.data.cursor && !cursor) {
+      return validationError([{ field: 'cursor', message: 'Invalid cursor' }]);
+    }
 
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // q matches words in the title or description via the search index
+    if (q) {
+      await ensureSearchIndex();
     }
 
-    const userTodos = await db
-      .select()
+    const expression = sortExpression(sort);
+
+    // Subtasks are served by /api/todos/[id]/subtasks. One extra row is read
+    // to tell whether another page follows.
+    const rows = await db
+      .select({
+        ...todoWithDetailsColumns(session.user.id),
+        sortKey: expression,
+      })
       .from(todos)
-      .where(eq(todos.userId, session.user.id))
-      .orderBy(todos.createdAt);
+      .where(
+        and(
+          accessibleTodosFilter(session.user.id),
+          isNull(todos.parentId),
+          listFilter,
+          viewFilter,
+          tagFilter(tagIds, tagMatch),
+          completedFilter,
+          searchFilter(q),
+          cursor ? cursorFilter(sort, order, cursor) : undefined,
+        ),
+      )
+      .orderBy(
+        order === 'asc' ? asc(expression) : desc(expression),
+        order === 'asc' ? asc(todos.id) : desc(todos.id),
+      )
+      .limit(limit + 1);
 
-    return NextResponse.json(userTodos);
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? encodeCursor({ value: last.sortKey as string | number, id: last.id })
+        : null;
+
+    return NextResponse.json<TodoPage>({
+      items: page.map(({ sortKey: _sortKey, ...todo }) => todo),
+      nextCursor,
+    });
   } catch (error) {
     console.error('Error fetching todos:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch todos' },
-      { status: 500 },
-    );
+    return apiError(500, 'Failed to fetch todos');
   }
 }
 
 // POST /api/todos - Create a new todo
+// Body: CreateTodoInput. A client-picked id that is already taken is a 409.
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth.api.getSession({ headers: request.headers });
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
 
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const parsed = await parseBody(request, createTodoSchema);
+    if ('response' in parsed) {
+      return parsed.response;
     }
+    const body = parsed.data;
 
-    const body = await request.json();
-    const { title, description } = body;
+    if (body.id && (await todoExists(body.id))) {
+      return apiError(409, 'Todo already exists');
+    }
 
-    if (!title) {
-      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    const schedule = parseSchedule(body, session.user.timezone);
+    if ('error' in schedule) {
+      return validationError([
+        { field: schedule.field, message: schedule.error },
+      ]);
     }
 
-    const newTodo = await db
-      .insert(todos)
-      .values({
-        id: crypto.randomUUID(),
-        title,
-        description: description || null,
-        completed: false,
-        userId: session.user.id,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .returning();
+    // Adding to a list takes edit access to it
+    if (body.listId) {
+      const access = await authorizeList(
+        session.user.id,
+        body.listId,
+        'editor',
+      );
+      if ('error' in access) {
+        return apiError(access.status, access.error);
+      }
+    }
+
+    const tagIds = await parseTagIds(body.tagIds ?? [], session.user.id);
+    if ('error' in tagIds) {
+      return validationError([{ field: 'tagIds', message: tagIds.error }]);
+    }
+
+    const newTodo = await todoTransaction(async (tx) => {
+      const inserted = await tx
+        .insert(todos)
+        .values({
+          id: body.id ?? crypto.randomUUID(),
+          title: body.title,
+          description: body.description || null,
+          completed: false,
+          listId: body.listId || null,
+          ...schedule.values,
+          priority: body.priority,
+          important: body.important,
+          completeSubtasks: body.completeSubtasks === true,
+          position: await endPosition(tx, session.user.id, null),
+          userId: session.user.id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+
+      await replaceTodoTags(tx, inserted[0].id, tagIds.tagIds, session.user.id);
+      await recordTodoEvents(tx, session.user.id, [
+        {
+          todoId: inserted[0].id,
+          action: 'create',
+          changes: diffTodo(null, { ...inserted[0], tagIds: tagIds.tagIds }),
+        },
+      ]);
+      return inserted;
+    });
 
     return NextResponse.json(newTodo[0], { status: 201 });
   } catch (error) {
     console.error('Error creating todo:', error);
-    return NextResponse.json(
-      { error: 'Failed to create todo' },
-      { status: 500 },
-    );
+    return apiError(500, 'Failed to create todo');
   }
 }
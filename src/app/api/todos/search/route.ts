@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { apiError, parseQuery } from '@/lib/responses';
+import { searchTodos, toMatchQuery } from '@/lib/search';
+import { integer, object, optional, string } from '@/lib/validation';
+
+const DEFAULT_RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 50;
+
+const searchQuerySchema = object({
+  q: optional(string()),
+  limit: optional(integer({ min: 1 })),
+});
+
+// GET /api/todos/search?q= - Full-text search over the user's todos
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const query = parseQuery(request.nextUrl.searchParams, searchQuerySchema);
+    if ('response' in query) {
+      return query.response;
+    }
+    const { q = '', limit = DEFAULT_RESULT_LIMIT } = query.data;
+
+    // A query without any searchable words matches nothing
+    const matchQuery = toMatchQuery(q);
+    if (!matchQuery) {
+      return NextResponse.json([]);
+    }
+
+    const results = await searchTodos(
+      session.user.id,
+      matchQuery,
+      Math.min(limit, MAX_RESULT_LIMIT),
+    );
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Error searching todos:', error);
+    return apiError(500, 'Failed to search todos');
+  }
+}
@@ -0,0 +1,84 @@
+import type { NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { apiError } from '@/lib/responses';
+import { subscribeTodoEvents, type TodoStreamMessage } from '@/lib/todo-stream';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// How long the browser waits before reconnecting
+const RETRY_MS = 3000;
+
+const formatMessage = ({ id, event }: TodoStreamMessage) =>
+  `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+// GET /api/todos/stream - Server-Sent Events for changes to the user's todos
+// Events are create, update (data: { type, todo }) and delete (data:
+// { type, todoId }). A reconnect sends Last-Event-ID (or ?lastEventId=) to
+// get the events it missed; when those are gone a reset event tells the
+// client to refetch.
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const lastEventId =
+      request.headers.get('last-event-id') ??
+      request.nextUrl.searchParams.get('lastEventId');
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) =>
+          controller.enqueue(encoder.encode(chunk));
+
+        const { missed, unsubscribe } = subscribeTodoEvents(
+          session.user.id,
+          lastEventId,
+          (message) => send(formatMessage(message)),
+        );
+        const heartbeat = setInterval(
+          () => send(': heartbeat\n\n'),
+          HEARTBEAT_INTERVAL_MS,
+        );
+        close = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+        request.signal.addEventListener('abort', () => {
+          close();
+          // Already closed if the stream was cancelled first
+          try {
+            controller.close();
+          } catch {}
+        });
+
+        send(`retry: ${RETRY_MS}\n\n`);
+        if (missed === null) {
+          send('event: reset\ndata: {}\n\n');
+        } else {
+          for (const message of missed) {
+            send(formatMessage(message));
+          }
+        }
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening todo stream:', error);
+    return apiError(500, 'Failed to open todo stream');
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/api-tokens';
+import { apiError } from '@/lib/responses';
+import { listTrashedTodos } from '@/lib/trash';
+
+// GET /api/todos/trash - Get the todos in the user's trash
+export async function GET(request: NextRequest) {
+  try {
+    const authenticated = await authenticate(request);
+    if ('response' in authenticated) {
+      return authenticated.response;
+    }
+    const { session } = authenticated;
+
+    const trashedTodos = await listTrashedTodos(session.user.id);
+
+    return NextResponse.json(trashedTodos);
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return apiError(500, 'Failed to fetch trash');
+  }
+}
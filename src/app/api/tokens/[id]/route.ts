@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { revokeApiToken } from '@/lib/api-tokens';
+import { auth } from '@/lib/auth';
+import { apiError } from '@/lib/responses';
+
+// DELETE /api/tokens/[id] - Revoke an API token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { id } = await params;
+
+    if (!(await revokeApiToken(session.user.id, id))) {
+      return apiError(404, 'API token not found');
+    }
+
+    return NextResponse.json({ message: 'API token revoked' });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return apiError(500, 'Failed to revoke API token');
+  }
+}
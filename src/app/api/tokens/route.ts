@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createApiTokenSchema } from '@/lib/api-token-schemas';
+import { createApiToken, listApiTokens } from '@/lib/api-tokens';
+import { auth } from '@/lib/auth';
+import { apiError, parseBody } from '@/lib/responses';
+
+// Tokens are managed from a signed-in browser session only, so a leaked
+// token can't be used to mint more
+
+// GET /api/tokens - List the user's API tokens, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    return NextResponse.json(await listApiTokens(session.user.id));
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return apiError(500, 'Failed to fetch API tokens');
+  }
+}
+
+// POST /api/tokens - Create an API token; the response is the only time
+// its secret is shown
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const parsed = await parseBody(request, createApiTokenSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+
+    const token = await createApiToken(session.user.id, parsed.data);
+
+    return NextResponse.json(token, {
+      status: 201,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return apiError(500, 'Failed to create API token');
+  }
+}
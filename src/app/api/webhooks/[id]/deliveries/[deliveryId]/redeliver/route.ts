@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { apiError } from '@/lib/responses';
+import {
+  findWebhook,
+  processWebhookDeliveries,
+  redeliverWebhookDelivery,
+} from '@/lib/webhooks';
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver - Send a
+// delivery's payload again as a new delivery
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { id, deliveryId } = await params;
+
+    if (!(await findWebhook(session.user.id, id))) {
+      return apiError(404, 'Webhook not found');
+    }
+
+    const delivery = await redeliverWebhookDelivery(id, deliveryId);
+    if (!delivery) {
+      return apiError(404, 'Delivery not found');
+    }
+
+    processWebhookDeliveries().catch((error) => {
+      console.error('Error delivering webhooks:', error);
+    });
+
+    return NextResponse.json(delivery, { status: 201 });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return apiError(500, 'Failed to redeliver webhook');
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { apiError } from '@/lib/responses';
+import { findWebhook, listWebhookDeliveries } from '@/lib/webhooks';
+
+// GET /api/webhooks/[id]/deliveries - A webhook's recent deliveries, newest
+// first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { id } = await params;
+
+    if (!(await findWebhook(session.user.id, id))) {
+      return apiError(404, 'Webhook not found');
+    }
+
+    return NextResponse.json(await listWebhookDeliveries(id));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return apiError(500, 'Failed to fetch webhook deliveries');
+  }
+}
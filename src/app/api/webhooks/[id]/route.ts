@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+import { updateWebhookSchema } from '@/lib/webhook-schemas';
+import { checkWebhookUrl, deleteWebhook, updateWebhook } from '@/lib/webhooks';
+
+// PATCH /api/webhooks/[id] - Change a webhook's URL, events or secret, or
+// pause and resume it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { id } = await params;
+    const parsed = await parseBody(request, updateWebhookSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+
+    const urlError =
+      parsed.data.url && (await checkWebhookUrl(parsed.data.url));
+    if (urlError) {
+      return validationError([{ field: 'url', message: urlError }]);
+    }
+
+    const webhook = await updateWebhook(session.user.id, id, parsed.data);
+    if (!webhook) {
+      return apiError(404, 'Webhook not found');
+    }
+
+    return NextResponse.json(webhook);
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return apiError(500, 'Failed to update webhook');
+  }
+}
+
+// DELETE /api/webhooks/[id] - Delete a webhook and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const { id } = await params;
+
+    if (!(await deleteWebhook(session.user.id, id))) {
+      return apiError(404, 'Webhook not found');
+    }
+
+    return NextResponse.json({ message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return apiError(500, 'Failed to delete webhook');
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { apiError, parseBody, validationError } from '@/lib/responses';
+import { createWebhookSchema } from '@/lib/webhook-schemas';
+import { checkWebhookUrl, createWebhook, listWebhooks } from '@/lib/webhooks';
+
+// GET /api/webhooks - List the user's webhooks
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    return NextResponse.json(await listWebhooks(session.user.id));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return apiError(500, 'Failed to fetch webhooks');
+  }
+}
+
+// POST /api/webhooks - Subscribe a URL to todo events; the response is the
+// only one that includes the signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session) {
+      return apiError(401, 'Unauthorized');
+    }
+
+    const parsed = await parseBody(request, createWebhookSchema);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+
+    const urlError = await checkWebhookUrl(parsed.data.url);
+    if (urlError) {
+      return validationError([{ field: 'url', message: urlError }]);
+    }
+
+    const webhook = await createWebhook(session.user.id, parsed.data);
+
+    return NextResponse.json(webhook, {
+      status: 201,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return apiError(500, 'Failed to create webhook');
+  }
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import Link from 'next/link';
+import AuthForm from '@/components/AuthForm';
+import TodoExport from '@/components/TodoExport';
+import TodoImport from '@/components/TodoImport';
+import { useSession } from '@/lib/auth-client';
+
+export default function Data() {
+  const { data: session, isPending } = useSession();
+
+  if (isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <AuthForm />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+              Import and export
+            </h1>
+            <Link
+              href="/"
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Back to todos
+            </Link>
+          </div>
+        </div>
+      </nav>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <TodoExport />
+        <TodoImport />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import MagicLinkForm from '@/components/MagicLinkForm';
+
+const ERRORS: Record<string, string> = {
+  EXPIRED_TOKEN: 'This sign-in link has expired. Ask for a new one.',
+  INVALID_TOKEN:
+    "This sign-in link isn't valid or was already used. Ask for a new one.",
+};
+
+// Sign-in links that fail land here with ?error=...
+export default async function MagicLink({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { error } = await searchParams;
+  return (
+    <MagicLinkForm
+      error={error ? (ERRORS[error] ?? 'Failed to sign you in.') : null}
+    />
+  );
+}
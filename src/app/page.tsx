@@ -1,11 +1,23 @@
 'use client';
 
+import Link from 'next/link';
+import { useState } from 'react';
+import AccountDeletionBanner from '@/components/AccountDeletionBanner';
 import AuthForm from '@/components/AuthForm';
+import ListSidebar from '@/components/ListSidebar';
+import SyncStatus from '@/components/SyncStatus';
+import TimezoneSelect from '@/components/TimezoneSelect';
 import TodoList from '@/components/TodoList';
+import TrashView from '@/components/TrashView';
+import UndoToast from '@/components/UndoToast';
+import VerifyEmailBanner from '@/components/VerifyEmailBanner';
+import { useTodoStream } from '@/hooks/useTodoStream';
 import { signOut, useSession } from '@/lib/auth-client';
 
 export default function Home() {
   const { data: session, isPending } = useSession();
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  useTodoStream(Boolean(session));
 
   if (isPending) {
     return (
@@ -28,9 +40,23 @@ export default function Home() {
               Todo App
             </h1>
             <div className="flex items-center gap-4">
+              <SyncStatus />
+              <TimezoneSelect />
               <span className="text-sm text-gray-600 dark:text-gray-300">
                 {session.user.name || session.user.email}
               </span>
+              <Link
+                href="/data"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Data
+              </Link>
+              <Link
+                href="/settings"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Settings
+              </Link>
               <button
                 type="button"
                 onClick={() => signOut()}
@@ -42,9 +68,31 @@ export default function Home() {
           </div>
         </div>
       </nav>
-      <main className="py-8">
-        <TodoList />
+      {session.user.deletionScheduledAt && (
+        <AccountDeletionBanner
+          deletionScheduledAt={session.user.deletionScheduledAt}
+        />
+      )}
+      {!session.user.emailVerified && (
+        <VerifyEmailBanner email={session.user.email} />
+      )}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex flex-col md:flex-row gap-6">
+        <ListSidebar
+          selectedListId={selectedListId}
+          onSelect={setSelectedListId}
+        />
+        <div className="flex-1 min-w-0">
+          {selectedListId === 'trash' ? (
+            <TrashView />
+          ) : (
+            <TodoList
+              listId={selectedListId}
+              onLeaveList={() => setSelectedListId(null)}
+            />
+          )}
+        </div>
       </main>
+      <UndoToast />
     </div>
   );
 }
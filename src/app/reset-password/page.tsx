@@ -0,0 +1,21 @@
+import ResetPasswordForm from '@/components/ResetPasswordForm';
+
+// Reset links land here with ?token=..., or with ?error=INVALID_TOKEN once
+// the token has expired or been used
+export default async function ResetPassword({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; error?: string }>;
+}) {
+  const { token, error } = await searchParams;
+  return (
+    <ResetPasswordForm
+      token={token ?? null}
+      error={
+        error
+          ? 'This reset link has expired or was already used. Ask for a new one.'
+          : null
+      }
+    />
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import Link from 'next/link';
+import ApiTokens from '@/components/ApiTokens';
+import AuthForm from '@/components/AuthForm';
+import CalendarFeed from '@/components/CalendarFeed';
+import DeleteAccount from '@/components/DeleteAccount';
+import LinkedAccounts from '@/components/LinkedAccounts';
+import ProfileSettings from '@/components/ProfileSettings';
+import SessionList from '@/components/SessionList';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import Webhooks from '@/components/Webhooks';
+import { useSession } from '@/lib/auth-client';
+
+export default function Settings() {
+  const { data: session, isPending } = useSession();
+
+  if (isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <AuthForm />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+              Settings
+            </h1>
+            <Link
+              href="/"
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Back to todos
+            </Link>
+          </div>
+        </div>
+      </nav>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <ProfileSettings />
+        <TwoFactorSettings />
+        <SessionList />
+        <LinkedAccounts />
+        <ApiTokens />
+        <Webhooks />
+        <CalendarFeed />
+        <DeleteAccount />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import TwoFactorChallenge from '@/components/TwoFactorChallenge';
+
+export default function TwoFactor() {
+  return <TwoFactorChallenge />;
+}
@@ -0,0 +1,21 @@
+import VerifyEmailResult from '@/components/VerifyEmailResult';
+
+const ERRORS: Record<string, string> = {
+  token_expired: 'This verification link has expired.',
+  invalid_token: "This verification link isn't valid.",
+  user_not_found: 'The account for this link no longer exists.',
+};
+
+// Verification links land here, with ?error=... when they didn't work
+export default async function VerifyEmail({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { error } = await searchParams;
+  return (
+    <VerifyEmailResult
+      error={error ? (ERRORS[error] ?? 'Failed to verify your email.') : null}
+    />
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import Link from 'next/link';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+interface AccountDeletionBannerProps {
+  deletionScheduledAt: Date;
+}
+
+// Shown while a requested deletion is in its grace period
+export default function AccountDeletionBanner({
+  deletionScheduledAt,
+}: AccountDeletionBannerProps) {
+  const { data: session } = useSession();
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+
+  return (
+    <div className="bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-3">
+        <span>
+          Your account will be deleted on{' '}
+          {formatDue(new Date(deletionScheduledAt), false, timeZone)}.
+        </span>
+        <Link href="/settings" className="font-medium underline">
+          Keep my account
+        </Link>
+      </div>
+    </div>
+  );
+}
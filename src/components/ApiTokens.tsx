@@ -0,0 +1,254 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  createApiToken,
+  revokeApiToken,
+  useApiTokens,
+} from '@/hooks/useApiTokens';
+import {
+  API_TOKEN_NAME_MAX_LENGTH,
+  API_TOKEN_SCOPES,
+  type ApiTokenScope,
+  type CreatedApiToken,
+} from '@/lib/api-token-schemas';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read todos',
+  write: 'Create, change and delete todos',
+};
+
+// Expiry choices in days; null never expires
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function ApiTokens() {
+  const { tokens, isLoading, isError } = useApiTokens();
+  const { data: session } = useSession();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [error, setError] = useState<string | null>(null);
+  // The token just created, whose secret is shown until dismissed
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+  const formatDate = (value: Date | string) =>
+    formatDue(new Date(value), false, timeZone);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((value) => value !== scope)
+        : [...current, scope],
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const token = await createApiToken({ name, scopes, expiresInDays });
+      setCreated(token);
+      setCopied(false);
+      setName('');
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to create API token',
+      );
+    }
+  };
+
+  const handleCopy = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (id: string, tokenName: string) => {
+    if (
+      !confirm(`Revoke "${tokenName}"? Scripts using it will stop working.`)
+    ) {
+      return;
+    }
+    setError(null);
+    try {
+      await revokeApiToken(id);
+      if (created?.id === id) {
+        setCreated(null);
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to revoke API token',
+      );
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        API tokens
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Tokens let scripts and the command line use the todo API. Send one as{' '}
+        <code>Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {created && (
+        <div
+          role="alert"
+          className="mb-4 rounded-md border border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/30 p-3 text-sm space-y-2"
+        >
+          <p className="text-gray-700 dark:text-gray-300">
+            Copy your new token now. You won't be able to see it again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-white dark:bg-gray-900 px-2 py-1 text-gray-900 dark:text-white">
+              {created.secret}
+            </code>
+            <button
+              type="button"
+              onClick={() => handleCopy(created.secret)}
+              className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCreated(null)}
+              className="text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3 mb-6">
+        <div>
+          <label
+            htmlFor="token-name"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Name
+          </label>
+          <input
+            id="token-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={API_TOKEN_NAME_MAX_LENGTH}
+            placeholder="e.g. Backup script"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Scopes
+          </legend>
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label
+              key={scope}
+              className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+            >
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </fieldset>
+        <div>
+          <label
+            htmlFor="token-expiry"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Expires after
+          </label>
+          <select
+            id="token-expiry"
+            value={expiresInDays ?? ''}
+            onChange={(e) =>
+              setExpiresInDays(e.target.value ? Number(e.target.value) : null)
+            }
+            className={inputClassName}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        <button
+          type="submit"
+          disabled={!name.trim() || scopes.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Create token
+        </button>
+      </form>
+
+      {isError ? (
+        <p className="text-sm text-red-500">Failed to load API tokens.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Loading tokens...
+        </p>
+      ) : tokens && tokens.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map((token) => (
+            <li key={token.id} className="py-3 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {token.name}{' '}
+                  <code className="text-xs text-gray-500 dark:text-gray-400">
+                    {token.prefix}…
+                  </code>
+                </p>
+                <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+                  {token.scopes.join(', ')} · Created{' '}
+                  {formatDate(token.createdAt)} ·{' '}
+                  {token.lastUsedAt
+                    ? `Last used ${formatDate(token.lastUsedAt)}`
+                    : 'Never used'}{' '}
+                  ·{' '}
+                  {token.expiresAt
+                    ? `${new Date(token.expiresAt) <= new Date() ? 'Expired' : 'Expires'} ${formatDate(token.expiresAt)}`
+                    : 'Never expires'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token.id, token.name)}
+                className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          You have no API tokens.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { signIn, signUp } from '@/lib/auth-client';
@@ -10,26 +11,55 @@ export default function AuthForm() {
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
       if (isLogin) {
-        await signIn.email({
+        const result = await signIn.email({
           email,
           password,
         });
+        if (result.error) {
+          // Signing in while verification is required sends a new link
+          setError(
+            result.error.code === 'EMAIL_NOT_VERIFIED'
+              ? "Your email isn't verified yet. We've sent you a new verification link."
+              : result.error.message || 'Failed to sign in',
+          );
+          return;
+        }
+        // The password was right; the account also wants a code
+        if ('twoFactorRedirect' in result.data) {
+          router.push('/two-factor');
+          return;
+        }
       } else {
-        await signUp.email({
+        const result = await signUp.email({
           email,
           password,
           name,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          callbackURL: '/verify-email',
         });
+        if (result.error) {
+          setError(result.error.message || 'Failed to sign up');
+          return;
+        }
+        // No session until the email is verified, when that is required
+        if (!result.data.token) {
+          setNotice(
+            `We've sent a verification link to ${email}. Follow it to finish signing up.`,
+          );
+          return;
+        }
       }
       router.push('/');
       router.refresh();
@@ -42,10 +72,13 @@ export default function AuthForm() {
 
   const handleOAuthSignIn = async (provider: 'google' | 'github') => {
     try {
-      await signIn.social({
+      const result = await signIn.social({
         provider,
         callbackURL: '/',
       });
+      if (result.error) {
+        setError(result.error.message || 'Failed to sign in');
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     }
@@ -117,6 +150,14 @@ export default function AuthForm() {
           {error && (
             <div className="text-red-500 text-sm text-center">{error}</div>
           )}
+          {notice && (
+            <p
+              role="alert"
+              className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+            >
+              {notice}
+            </p>
+          )}
 
           <div>
             <button
@@ -128,12 +169,30 @@ export default function AuthForm() {
             </button>
           </div>
 
+          {isLogin && (
+            <div className="flex items-center justify-between text-sm">
+              <Link
+                href="/forgot-password"
+                className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+              >
+                Forgot password?
+              </Link>
+              <Link
+                href="/magic-link"
+                className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+              >
+                Email me a sign-in link
+              </Link>
+            </div>
+          )}
+
           <div className="flex items-center justify-center">
             <button
               type="button"
               onClick={() => {
                 setIsLogin(!isLogin);
                 setError('');
+                setNotice('');
               }}
               className="text-sm text-blue-600 hover:text-blue-500 dark:text-blue-400"
             >
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+
+interface BackupCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Freshly generated backup codes, shown once
+export default function BackupCodes({ codes, onDone }: BackupCodesProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+  };
+
+  return (
+    <div
+      role="alert"
+      className="rounded-md border border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/30 p-3 text-sm space-y-3"
+    >
+      <p className="text-gray-700 dark:text-gray-300">
+        Save these backup codes somewhere safe. Each one signs you in once if
+        you lose your authenticator app. You won't be able to see them again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-gray-900 dark:text-white">
+        {codes.map((code) => (
+          <li
+            key={code}
+            className="rounded bg-white dark:bg-gray-900 px-2 py-1 text-center"
+          >
+            {code}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+}
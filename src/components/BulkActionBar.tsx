@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { bulkUpdateTodos } from '@/hooks/useTodos';
+import type { BulkOperation } from '@/lib/bulk';
+import type { ListWithRole } from '@/lib/lists';
+import { PRIORITIES, PRIORITY_LABELS, type Priority } from '@/lib/priorities';
+import { hasRole } from '@/lib/roles';
+import type { TodoWithDetails } from '@/lib/todos';
+
+const controlClassName =
+  'text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white';
+
+const buttonClassName =
+  'text-sm px-3 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50';
+
+interface BulkActionBarProps {
+  selectedTodos: TodoWithDetails[];
+  lists?: ListWithRole[];
+  onClear: () => void;
+}
+
+export default function BulkActionBar({
+  selectedTodos,
+  lists,
+  onClear,
+}: BulkActionBarProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (
+    operation: BulkOperation,
+    options?: Parameters<typeof bulkUpdateTodos>[2],
+  ) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const results = await bulkUpdateTodos(selectedTodos, operation, options);
+      const failed = results.filter((result) => result.status !== 200);
+      if (failed.length > 0) {
+        setMessage(
+          `${failed.length} of ${results.length} todos could not be changed: ${failed[0].error}`,
+        );
+      } else {
+        onClear();
+      }
+    } catch (error) {
+      console.error('Error updating todos:', error);
+      setMessage('Failed to update todos');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected todos"
+      className="sticky top-0 z-10 mb-4 flex flex-wrap items-center gap-2 bg-white dark:bg-gray-800 rounded-lg shadow px-4 py-2"
+    >
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">
+        {selectedTodos.length} selected
+      </span>
+      <button
+        type="button"
+        onClick={() => run('complete')}
+        disabled={isWorking}
+        className={`${buttonClassName} text-gray-700 dark:text-gray-300`}
+      >
+        Complete
+      </button>
+      <button
+        type="button"
+        onClick={() => run('uncomplete')}
+        disabled={isWorking}
+        className={`${buttonClassName} text-gray-700 dark:text-gray-300`}
+      >
+        Reopen
+      </button>
+      <label htmlFor="bulk-list" className="sr-only">
+        Move to list
+      </label>
+      <select
+        id="bulk-list"
+        value=""
+        onChange={(e) =>
+          run('move', {
+            listId: e.target.value === 'inbox' ? null : e.target.value,
+          })
+        }
+        disabled={isWorking}
+        className={controlClassName}
+      >
+        <option value="" disabled>
+          Move to…
+        </option>
+        <option value="inbox">Inbox</option>
+        {lists
+          ?.filter((list) => hasRole(list.role, 'editor'))
+          .map((list) => (
+            <option key={list.id} value={list.id}>
+              {list.name}
+            </option>
+          ))}
+      </select>
+      <label htmlFor="bulk-priority" className="sr-only">
+        Set priority
+      </label>
+      <select
+        id="bulk-priority"
+        value=""
+        onChange={(e) =>
+          run('set', { fields: { priority: e.target.value as Priority } })
+        }
+        disabled={isWorking}
+        className={controlClassName}
+      >
+        <option value="" disabled>
+          Priority…
+        </option>
+        {PRIORITIES.map((level) => (
+          <option key={level} value={level}>
+            {PRIORITY_LABELS[level]}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => run('delete')}
+        disabled={isWorking}
+        className={`${buttonClassName} text-red-600 dark:text-red-400`}
+      >
+        Delete
+      </button>
+      <button
+        type="button"
+        onClick={onClear}
+        className={`${buttonClassName} ml-auto text-gray-500 dark:text-gray-400`}
+      >
+        Clear selection
+      </button>
+      {message && (
+        <p className="w-full text-sm text-red-600 dark:text-red-400">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
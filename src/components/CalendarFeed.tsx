@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  revokeCalendarFeed,
+  rotateCalendarFeed,
+  useCalendarFeed,
+} from '@/hooks/useCalendarFeed';
+import { useSession } from '@/lib/auth-client';
+import {
+  CALENDAR_FEED_TYPES,
+  type CalendarFeedType,
+  calendarFeedPath,
+} from '@/lib/calendar-schemas';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+const TYPE_LABELS: Record<CalendarFeedType, string> = {
+  events: 'Calendar events for todos with a due date',
+  todos: 'Tasks, for apps with a task list',
+};
+
+export default function CalendarFeed() {
+  const { feed, isLoading, isError } = useCalendarFeed();
+  const { data: session } = useSession();
+  const [error, setError] = useState<string | null>(null);
+  // The token just created, whose URLs are shown until dismissed
+  const [token, setToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState<CalendarFeedType | null>(null);
+
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+  const feedUrl = (value: string, type: CalendarFeedType) =>
+    `${window.location.origin}${calendarFeedPath(value, type)}`;
+
+  const handleRotate = async () => {
+    if (
+      feed?.enabled &&
+      !confirm(
+        'Replace the feed URL? Calendars using the old one will stop updating.',
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    try {
+      const created = await rotateCalendarFeed();
+      setToken(created.token);
+      setCopied(null);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to create calendar feed',
+      );
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (
+      !confirm(
+        'Turn off the calendar feed? Subscribed calendars will stop updating.',
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    try {
+      await revokeCalendarFeed();
+      setToken(null);
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to turn off calendar feed',
+      );
+    }
+  };
+
+  const handleCopy = async (type: CalendarFeedType) => {
+    if (token) {
+      await navigator.clipboard.writeText(feedUrl(token, type));
+      setCopied(type);
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Calendar feed
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Subscribe to your todos from Google Calendar, Apple Calendar or Outlook.
+        Anyone with the feed URL can see your todos, so keep it private.
+      </p>
+
+      {token && (
+        <div
+          role="alert"
+          className="mb-4 rounded-md border border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/30 p-3 text-sm space-y-2"
+        >
+          <p className="text-gray-700 dark:text-gray-300">
+            Copy a feed URL into your calendar app now. You won't be able to see
+            it again.
+          </p>
+          {CALENDAR_FEED_TYPES.map((type) => (
+            <div key={type} className="space-y-1">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {TYPE_LABELS[type]}
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate rounded bg-white dark:bg-gray-900 px-2 py-1 text-gray-900 dark:text-white">
+                  {feedUrl(token, type)}
+                </code>
+                <button
+                  type="button"
+                  onClick={() => handleCopy(type)}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {copied === type ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setToken(null)}
+            className="text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {isError ? (
+        <p className="text-sm text-red-500">Failed to load calendar feed.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <div className="flex items-center gap-4">
+          <p className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            {feed?.enabled
+              ? `On${feed.createdAt ? ` since ${formatDue(new Date(feed.createdAt), false, timeZone)}` : ''}`
+              : 'Off'}
+          </p>
+          <button
+            type="button"
+            onClick={handleRotate}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            {feed?.enabled ? 'Get a new URL' : 'Turn on'}
+          </button>
+          {feed?.enabled && (
+            <button
+              type="button"
+              onClick={handleRevoke}
+              className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      )}
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  cancelAccountDeletion,
+  scheduleAccountDeletion,
+  useLinkedAccounts,
+} from '@/hooks/useAccount';
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/account-schemas';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+// Offers the data export first, then deletion after a grace period that can
+// be cancelled from here
+export default function DeleteAccount() {
+  const { data: session, refetch } = useSession();
+  const { accounts } = useLinkedAccounts();
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+  const scheduledAt = session?.user.deletionScheduledAt;
+  const hasPassword = accounts?.some(
+    (account) => account.providerId === 'credential',
+  );
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      !confirm(
+        `Delete your account? You have ${ACCOUNT_DELETION_GRACE_DAYS} days to change your mind.`,
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      await scheduleAccountDeletion(hasPassword ? password : undefined);
+      await refetch();
+      setConfirming(false);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to delete account',
+      );
+    } finally {
+      setPassword('');
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      await cancelAccountDeletion();
+      await refetch();
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to cancel account deletion',
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Your data and account
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Download everything stored about your account as JSON. Deleting your
+        account removes your todos, tags and lists after{' '}
+        {ACCOUNT_DELETION_GRACE_DAYS} days; lists you share pass to another
+        member.
+      </p>
+
+      <a
+        href="/api/account/export"
+        download
+        className="inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        Download your data
+      </a>
+
+      <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+        {scheduledAt ? (
+          <div className="flex items-center gap-4">
+            <p className="flex-1 text-sm text-red-700 dark:text-red-400">
+              Your account will be deleted on{' '}
+              {formatDue(new Date(scheduledAt), false, timeZone)}.
+            </p>
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Keep my account
+            </button>
+          </div>
+        ) : confirming ? (
+          <form onSubmit={handleDelete} className="space-y-2">
+            <div className="flex items-center gap-2">
+              {hasPassword ? (
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Your password"
+                  aria-label="Your password"
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <p className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+                  If you signed in more than a few minutes ago, sign out and in
+                  again first.
+                </p>
+              )}
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Delete account
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setConfirming(false);
+                  setError(null);
+                }}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+          >
+            Delete account
+          </button>
+        )}
+      </div>
+      {error && (
+        <p role="alert" className="mt-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import type { UpdateTodoInput } from '@/lib/todo-schemas';
+
+const FIELD_LABELS: Record<keyof UpdateTodoInput, string> = {
+  title: 'title',
+  description: 'description',
+  completed: 'status',
+  listId: 'list',
+  dueAt: 'due date',
+  remindAt: 'reminder',
+  recurrence: 'repeat',
+  priority: 'priority',
+  important: 'important flag',
+  completeSubtasks: 'subtask completion',
+  tagIds: 'tags',
+};
+
+const fieldList = (fields: (keyof UpdateTodoInput)[]) =>
+  fields.map((field) => FIELD_LABELS[field]).join(', ');
+
+interface EditConflictProps {
+  yourFields: (keyof UpdateTodoInput)[];
+  theirFields: (keyof UpdateTodoInput)[];
+  onMerge: () => void;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+}
+
+// Shown in the edit dialog when someone else saved the todo while it was
+// being edited
+export default function EditConflict({
+  yourFields,
+  theirFields,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+}: EditConflictProps) {
+  const overlap = yourFields.filter((field) => theirFields.includes(field));
+
+  return (
+    <div
+      role="alert"
+      className="rounded-md border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 p-3 text-sm text-gray-700 dark:text-gray-300 space-y-2"
+    >
+      <p>
+        Someone else changed this todo while you were editing it
+        {theirFields.length > 0 && ` (${fieldList(theirFields)})`}.
+      </p>
+      <p>
+        Merge saves the fields you changed
+        {yourFields.length > 0 && ` (${fieldList(yourFields)})`} and keeps
+        theirs for the rest.
+        {overlap.length > 0 &&
+          ` You both changed ${fieldList(overlap)}; yours will be kept.`}{' '}
+        Overwrite saves everything in this form.
+      </p>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onMerge}
+          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Merge
+        </button>
+        <button
+          type="button"
+          onClick={onOverwrite}
+          className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Overwrite
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          Discard mine
+        </button>
+      </div>
+    </div>
+  );
+}
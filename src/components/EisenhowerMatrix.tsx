@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import PriorityBadge from '@/components/PriorityBadge';
+import { updateTodo } from '@/hooks/useTodos';
+import { formatDue } from '@/lib/dates';
+import {
+  isUrgent,
+  QUADRANTS,
+  type Quadrant,
+  quadrantFields,
+} from '@/lib/priorities';
+import { hasRole } from '@/lib/roles';
+import type { TodoWithDetails } from '@/lib/todos';
+
+const inQuadrant = (todo: TodoWithDetails, quadrant: Quadrant) =>
+  isUrgent(todo.priority) === quadrant.urgent &&
+  todo.important === quadrant.important;
+
+interface EisenhowerMatrixProps {
+  todos: TodoWithDetails[];
+  timeZone: string;
+  onEdit: (todo: TodoWithDetails) => void;
+}
+
+export default function EisenhowerMatrix({
+  todos,
+  timeZone,
+  onEdit,
+}: EisenhowerMatrixProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overLabel, setOverLabel] = useState<string | null>(null);
+
+  const handleDrop = async (quadrant: Quadrant) => {
+    const todo = todos.find((t) => t.id === draggingId);
+    setDraggingId(null);
+    setOverLabel(null);
+    if (!todo || inQuadrant(todo, quadrant)) {
+      return;
+    }
+    try {
+      await updateTodo(todo, quadrantFields(quadrant, todo.priority));
+    } catch (error) {
+      console.error('Error moving todo:', error);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-[auto_1fr_1fr] gap-3">
+      <div />
+      <p className="text-center text-sm font-medium text-gray-500 dark:text-gray-400">
+        Urgent
+      </p>
+      <p className="text-center text-sm font-medium text-gray-500 dark:text-gray-400">
+        Not urgent
+      </p>
+      {[true, false].map((important) => (
+        <div key={String(important)} className="contents">
+          <p className="self-center text-sm font-medium text-gray-500 dark:text-gray-400 [writing-mode:vertical-rl] rotate-180">
+            {important ? 'Important' : 'Not important'}
+          </p>
+          {QUADRANTS.filter((quadrant) => quadrant.important === important).map(
+            (quadrant) => (
+              <section
+                key={quadrant.label}
+                aria-label={quadrant.label}
+                onDragOver={(e) => {
+                  if (draggingId !== null) {
+                    e.preventDefault();
+                    setOverLabel(quadrant.label);
+                  }
+                }}
+                onDragLeave={() => setOverLabel(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(quadrant);
+                }}
+                className={`min-h-48 rounded-lg p-3 space-y-2 transition-colors ${
+                  overLabel === quadrant.label
+                    ? 'bg-blue-50 dark:bg-blue-900/30 ring-2 ring-blue-500'
+                    : 'bg-gray-100 dark:bg-gray-800/60'
+                }`}
+              >
+                <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                  {quadrant.label}
+                </h2>
+                {todos
+                  .filter((todo) => inQuadrant(todo, quadrant))
+                  .map((todo) => (
+                    <button
+                      key={todo.id}
+                      type="button"
+                      draggable={hasRole(todo.role, 'editor')}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(todo.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setOverLabel(null);
+                      }}
+                      onClick={() => onEdit(todo)}
+                      className={`w-full text-left bg-white dark:bg-gray-800 rounded-md shadow p-2 cursor-grab hover:shadow-md transition-shadow ${
+                        draggingId === todo.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <span
+                        className={`block text-sm ${
+                          todo.completed
+                            ? 'line-through text-gray-500 dark:text-gray-400'
+                            : 'text-gray-900 dark:text-white'
+                        }`}
+                      >
+                        {todo.title}
+                      </span>
+                      <span className="flex items-center gap-2 mt-1">
+                        <PriorityBadge
+                          priority={todo.priority}
+                          important={false}
+                        />
+                        {todo.dueAt && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Due{' '}
+                            {formatDue(
+                              new Date(todo.dueAt),
+                              todo.dueHasTime,
+                              timeZone,
+                            )}
+                          </span>
+                        )}
+                      </span>
+                    </button>
+                  ))}
+              </section>
+            ),
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { requestPasswordReset } from '@/lib/auth-client';
+import { AUTH_LINK_LIFETIMES, describeLifetime } from '@/lib/auth-emails';
+import AuthPage, { authButtonClassName, authInputClassName } from './AuthPage';
+
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    const result = await requestPasswordReset({
+      email,
+      redirectTo: '/reset-password',
+    });
+    setLoading(false);
+    if (result.error) {
+      setError(result.error.message || 'Failed to send reset link');
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <AuthPage title="Reset your password">
+      {sent ? (
+        <p
+          role="alert"
+          className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+        >
+          If there is an account for {email}, we've sent it a link to choose a
+          new password. The link expires in{' '}
+          {describeLifetime(AUTH_LINK_LIFETIMES.resetPassword)}.
+        </p>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Enter your email and we'll send you a link to choose a new password.
+          </p>
+          <div>
+            <label htmlFor="email" className="sr-only">
+              Email address
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              required
+              className={authInputClassName}
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          {error && (
+            <div className="text-red-500 text-sm text-center">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className={authButtonClassName}
+          >
+            {loading ? 'Sending...' : 'Send reset link'}
+          </button>
+        </form>
+      )}
+      <p className="text-center text-sm">
+        <Link
+          href="/"
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          Back to sign in
+        </Link>
+      </p>
+    </AuthPage>
+  );
+}
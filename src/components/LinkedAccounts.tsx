@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { unlinkProvider, useLinkedAccounts } from '@/hooks/useAccount';
+import { linkSocial, useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+const PROVIDERS = [
+  { id: 'google', name: 'Google' },
+  { id: 'github', name: 'GitHub' },
+] as const;
+
+// Google and GitHub accounts that can sign in to this one. The last way to
+// sign in can't be removed.
+export default function LinkedAccounts() {
+  const { data: session } = useSession();
+  const { accounts, isLoading, isError } = useLinkedAccounts();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+
+  const handleLink = async (provider: 'google' | 'github') => {
+    setError(null);
+    setPending(provider);
+    // Leaves the page for the provider and comes back to settings
+    const result = await linkSocial({ provider, callbackURL: '/settings' });
+    if (result.error) {
+      setError(result.error.message || 'Failed to connect account');
+      setPending(null);
+    }
+  };
+
+  const handleUnlink = async (providerId: string, name: string) => {
+    if (!confirm(`Disconnect ${name}? You won't be able to sign in with it.`)) {
+      return;
+    }
+    setError(null);
+    setPending(providerId);
+    try {
+      await unlinkProvider(providerId);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to disconnect account',
+      );
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Connected accounts
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Sign in with Google or GitHub as well as, or instead of, a password.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : isError ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Failed to load connected accounts
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {PROVIDERS.map((provider) => {
+            const linked = accounts?.find(
+              (account) => account.providerId === provider.id,
+            );
+            return (
+              <li key={provider.id} className="flex items-center gap-4 py-3">
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {provider.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {linked
+                      ? `Connected ${formatDue(new Date(linked.createdAt), false, timeZone)}`
+                      : 'Not connected'}
+                  </p>
+                </div>
+                {linked ? (
+                  <button
+                    type="button"
+                    onClick={() => handleUnlink(provider.id, provider.name)}
+                    disabled={pending !== null || (accounts?.length ?? 0) < 2}
+                    title={
+                      (accounts?.length ?? 0) < 2
+                        ? 'Add a password or another account first'
+                        : undefined
+                    }
+                    className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+                  >
+                    Disconnect
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleLink(provider.id)}
+                    disabled={pending !== null}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  >
+                    Connect
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && (
+        <p role="alert" className="mt-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
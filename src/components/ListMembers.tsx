@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  inviteMember,
+  removeMember,
+  updateMemberRole,
+  useListMembers,
+} from '@/hooks/useLists';
+import { useSession } from '@/lib/auth-client';
+import type { ListWithRole } from '@/lib/lists';
+import { LIST_ROLES, type ListRole } from '@/lib/roles';
+
+const ROLE_LABELS: Record<ListRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+const controlClassName =
+  'text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white';
+
+interface ListMembersProps {
+  list: ListWithRole;
+  onLeave: () => void;
+}
+
+export default function ListMembers({ list, onLeave }: ListMembersProps) {
+  const { members } = useListMembers(list.id);
+  const { data: session } = useSession();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ListRole>('editor');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const isOwner = list.role === 'owner';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+    try {
+      await inviteMember(list.id, email, role);
+      setEmail('');
+    } catch (error) {
+      setInviteError(
+        error instanceof Error ? error.message : 'Failed to invite member',
+      );
+    }
+  };
+
+  const handleRoleChange = async (userId: string, newRole: ListRole) => {
+    try {
+      await updateMemberRole(list.id, userId, newRole);
+    } catch (error) {
+      console.error('Error updating member:', error);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const isSelf = userId === session?.user.id;
+    if (
+      confirm(
+        isSelf
+          ? 'Leave this list? You will lose access to its todos.'
+          : 'Remove this member from the list?',
+      )
+    ) {
+      try {
+        await removeMember(list.id, userId);
+        if (isSelf) {
+          onLeave();
+        }
+      } catch (error) {
+        console.error('Error removing member:', error);
+      }
+    }
+  };
+
+  return (
+    <section className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        className="text-sm text-gray-700 dark:text-gray-300"
+      >
+        {isExpanded ? '▾' : '▸'}{' '}
+        {list.memberCount > 0
+          ? `Shared with ${list.memberCount} ${list.memberCount === 1 ? 'person' : 'people'}`
+          : 'Only you'}{' '}
+        · You are {ROLE_LABELS[list.role].toLowerCase()}
+      </button>
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          <ul className="space-y-2">
+            {members?.map((member) => (
+              <li key={member.userId} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">
+                    {member.name}
+                    {member.userId === session?.user.id && ' (you)'}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {member.email}
+                  </p>
+                </div>
+                {isOwner && !member.isCreator ? (
+                  <>
+                    <label
+                      htmlFor={`member-role-${member.userId}`}
+                      className="sr-only"
+                    >
+                      Role for {member.name}
+                    </label>
+                    <select
+                      id={`member-role-${member.userId}`}
+                      value={member.role}
+                      onChange={(e) =>
+                        handleRoleChange(
+                          member.userId,
+                          e.target.value as ListRole,
+                        )
+                      }
+                      className={controlClassName}
+                    >
+                      {LIST_ROLES.map((value) => (
+                        <option key={value} value={value}>
+                          {ROLE_LABELS[value]}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                ) : (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {member.isCreator ? 'Creator' : ROLE_LABELS[member.role]}
+                  </span>
+                )}
+                {!member.isCreator &&
+                  (isOwner || member.userId === session?.user.id) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member.userId)}
+                      className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+                    >
+                      {member.userId === session?.user.id ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+              </li>
+            ))}
+          </ul>
+          {isOwner && (
+            <form onSubmit={handleInvite} className="space-y-1">
+              <div className="flex gap-2">
+                <label htmlFor="invite-email" className="sr-only">
+                  Email to invite
+                </label>
+                <input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  placeholder="Invite by email"
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <label htmlFor="invite-role" className="sr-only">
+                  Role
+                </label>
+                <select
+                  id="invite-role"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as ListRole)}
+                  className={controlClassName}
+                >
+                  {LIST_ROLES.map((value) => (
+                    <option key={value} value={value}>
+                      {ROLE_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  Invite
+                </button>
+              </div>
+              {inviteError && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {inviteError}
+                </p>
+              )}
+            </form>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
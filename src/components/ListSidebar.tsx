@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { createList, deleteList, updateList, useLists } from '@/hooks/useLists';
+import { FALLBACK_COLOR, PALETTE } from '@/lib/colors';
+
+interface ListSidebarProps {
+  selectedListId: string | null;
+  onSelect: (listId: string | null) => void;
+}
+
+export default function ListSidebar({
+  selectedListId,
+  onSelect,
+}: ListSidebarProps) {
+  const { lists, isLoading } = useLists();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PALETTE[0]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const newList = await createList(name, color);
+      setName('');
+      onSelect(newList.id);
+    } catch (error) {
+      console.error('Error creating list:', error);
+    }
+  };
+
+  const handleArchive = async (id: string) => {
+    try {
+      await updateList(id, { archived: true });
+      if (selectedListId === id) {
+        onSelect(null);
+      }
+    } catch (error) {
+      console.error('Error archiving list:', error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Delete this list? Its todos will be moved to the inbox.')) {
+      try {
+        await deleteList(id);
+        if (selectedListId === id) {
+          onSelect(null);
+        }
+      } catch (error) {
+        console.error('Error deleting list:', error);
+      }
+    }
+  };
+
+  const itemClassName = (active: boolean) =>
+    `w-full flex items-center gap-2 text-left px-3 py-2 rounded-md text-sm transition-colors ${
+      active
+        ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <aside className="w-full md:w-64 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+        Lists
+      </h2>
+      <nav className="space-y-1">
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          className={itemClassName(selectedListId === null)}
+        >
+          All Todos
+        </button>
+        <button
+          type="button"
+          onClick={() => onSelect('inbox')}
+          className={itemClassName(selectedListId === 'inbox')}
+        >
+          Inbox
+        </button>
+        {isLoading ? (
+          <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+            Loading lists...
+          </p>
+        ) : (
+          lists?.map((list) => (
+            <div key={list.id} className="group flex items-center">
+              <button
+                type="button"
+                onClick={() => onSelect(list.id)}
+                className={itemClassName(selectedListId === list.id)}
+              >
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: list.color ?? FALLBACK_COLOR }}
+                  aria-hidden="true"
+                />
+                <span className="truncate">{list.name}</span>
+                {list.memberCount > 0 && (
+                  <span
+                    className="ml-auto text-xs text-gray-400"
+                    title="Shared"
+                    role="img"
+                    aria-label="Shared"
+                  >
+                    👥
+                  </span>
+                )}
+              </button>
+              {list.role === 'owner' && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleArchive(list.id)}
+                    className="hidden group-hover:block text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 px-1"
+                    aria-label={`Archive ${list.name}`}
+                  >
+                    Archive
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(list.id)}
+                    className="hidden group-hover:block text-xs text-red-600 hover:text-red-700 dark:text-red-400 px-1"
+                    aria-label={`Delete ${list.name}`}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+        <button
+          type="button"
+          onClick={() => onSelect('trash')}
+          className={itemClassName(selectedListId === 'trash')}
+        >
+          Trash
+        </button>
+      </nav>
+
+      <form onSubmit={handleCreate} className="mt-4 space-y-2">
+        <label htmlFor="new-list-name" className="sr-only">
+          New list name
+        </label>
+        <input
+          id="new-list-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          placeholder="New list"
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+        />
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1">
+            {PALETTE.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setColor(value)}
+                className={`w-5 h-5 rounded-full ${
+                  color === value
+                    ? 'ring-2 ring-offset-1 ring-gray-400 dark:ring-offset-gray-800'
+                    : ''
+                }`}
+                style={{ backgroundColor: value }}
+                aria-label={`Use color ${value}`}
+                aria-pressed={color === value}
+              />
+            ))}
+          </div>
+          <button
+            type="submit"
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+    </aside>
+  );
+}
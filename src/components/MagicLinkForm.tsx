@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { signIn } from '@/lib/auth-client';
+import { AUTH_LINK_LIFETIMES, describeLifetime } from '@/lib/auth-emails';
+import AuthPage, { authButtonClassName, authInputClassName } from './AuthPage';
+
+interface MagicLinkFormProps {
+  // Why the last link didn't sign the user in
+  error: string | null;
+}
+
+export default function MagicLinkForm({
+  error: linkError,
+}: MagicLinkFormProps) {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState(linkError ?? '');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    const result = await signIn.magicLink({
+      email,
+      callbackURL: '/',
+      errorCallbackURL: '/magic-link',
+    });
+    setLoading(false);
+    if (result.error) {
+      setError(result.error.message || 'Failed to send sign-in link');
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <AuthPage title="Sign in with a link">
+      {sent ? (
+        <p
+          role="alert"
+          className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+        >
+          If there is an account for {email}, we've sent it a sign-in link. The
+          link expires in {describeLifetime(AUTH_LINK_LIFETIMES.magicLink)} and
+          works once.
+        </p>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            We'll email you a link that signs you in without your password.
+          </p>
+          <div>
+            <label htmlFor="email" className="sr-only">
+              Email address
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              required
+              className={authInputClassName}
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          {error && (
+            <div className="text-red-500 text-sm text-center">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className={authButtonClassName}
+          >
+            {loading ? 'Sending...' : 'Email me a link'}
+          </button>
+        </form>
+      )}
+      <p className="text-center text-sm">
+        <Link
+          href="/"
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          Sign in with a password
+        </Link>
+      </p>
+    </AuthPage>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { PRIORITY_LABELS, type Priority } from '@/lib/priorities';
+
+const PRIORITY_CLASSNAMES: Record<Exclude<Priority, 'none'>, string> = {
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  medium: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+interface PriorityBadgeProps {
+  priority: Priority;
+  important: boolean;
+}
+
+export default function PriorityBadge({
+  priority,
+  important,
+}: PriorityBadgeProps) {
+  if (priority === 'none' && !important) {
+    return null;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {priority !== 'none' && (
+        <span
+          className={`text-xs font-medium px-1.5 py-0.5 rounded ${PRIORITY_CLASSNAMES[priority]}`}
+        >
+          {PRIORITY_LABELS[priority]}
+        </span>
+      )}
+      {important && (
+        <span
+          className="text-xs text-amber-500"
+          title="Important"
+          role="img"
+          aria-label="Important"
+        >
+          ★
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { revalidateSessions, useLinkedAccounts } from '@/hooks/useAccount';
+import {
+  changeEmail,
+  changePassword,
+  updateUser,
+  useSession,
+} from '@/lib/auth-client';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClassName =
+  'flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClassName =
+  'px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50';
+
+type Field = 'name' | 'email' | 'password';
+
+export default function ProfileSettings() {
+  const { data: session, refetch } = useSession();
+  const { accounts } = useLinkedAccounts();
+  const [name, setName] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  // Which form is saving, and what happened to the last one submitted
+  const [saving, setSaving] = useState<Field | null>(null);
+  const [notice, setNotice] = useState<{ field: Field; text: string } | null>(
+    null,
+  );
+  const [error, setError] = useState<{ field: Field; text: string } | null>(
+    null,
+  );
+
+  if (!session) {
+    return null;
+  }
+
+  const hasPassword = accounts?.some(
+    (account) => account.providerId === 'credential',
+  );
+
+  const save = async (field: Field, request: () => Promise<string>) => {
+    setNotice(null);
+    setError(null);
+    setSaving(field);
+    try {
+      setNotice({ field, text: await request() });
+    } catch (error) {
+      setError({
+        field,
+        text:
+          error instanceof Error && error.message
+            ? error.message
+            : 'Failed to update account',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleName = (e: React.FormEvent) => {
+    e.preventDefault();
+    save('name', async () => {
+      const result = await updateUser({ name: (name ?? '').trim() });
+      if (result.error) {
+        throw new Error(result.error.message);
+      }
+      await refetch();
+      setName(null);
+      return 'Name saved.';
+    });
+  };
+
+  const handleEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    save('email', async () => {
+      const newEmail = email.trim();
+      const result = await changeEmail({ newEmail, callbackURL: '/settings' });
+      if (result.error) {
+        throw new Error(result.error.message);
+      }
+      setEmail('');
+      // Unverified addresses change straight away
+      if (!session.user.emailVerified) {
+        await refetch();
+        return `Your email is now ${newEmail}. Check it for a verification link.`;
+      }
+      return `We've sent a link to ${session.user.email} to approve the change.`;
+    });
+  };
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    save('password', async () => {
+      const result = await changePassword({
+        currentPassword,
+        newPassword,
+        revokeOtherSessions: true,
+      });
+      if (result.error) {
+        throw new Error(
+          result.error.code === 'INVALID_PASSWORD'
+            ? 'Your current password is incorrect'
+            : result.error.message,
+        );
+      }
+      setCurrentPassword('');
+      setNewPassword('');
+      revalidateSessions();
+      return "Password changed. You've been signed out on your other devices.";
+    });
+  };
+
+  const message = (field: Field) => (
+    <>
+      {notice?.field === field && (
+        <p
+          role="alert"
+          className="mt-2 text-sm text-green-700 dark:text-green-400"
+        >
+          {notice.text}
+        </p>
+      )}
+      {error?.field === field && (
+        <p role="alert" className="mt-2 text-sm text-red-600 dark:text-red-400">
+          {error.text}
+        </p>
+      )}
+    </>
+  );
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Profile
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Your name, the email you sign in with and your password.
+      </p>
+
+      <div className="space-y-6">
+        <form onSubmit={handleName}>
+          <label
+            htmlFor="profile-name"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Name
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="profile-name"
+              type="text"
+              autoComplete="name"
+              required
+              maxLength={100}
+              value={name ?? session.user.name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={saving === 'name' || name === null}
+              className={buttonClassName}
+            >
+              Save
+            </button>
+          </div>
+          {message('name')}
+        </form>
+
+        <form onSubmit={handleEmail}>
+          <label
+            htmlFor="profile-email"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Email
+          </label>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            Currently {session.user.email}
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              id="profile-email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="New email"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={saving === 'email'}
+              className={buttonClassName}
+            >
+              Change
+            </button>
+          </div>
+          {message('email')}
+        </form>
+
+        {hasPassword ? (
+          <form onSubmit={handlePassword}>
+            <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Password
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="password"
+                autoComplete="current-password"
+                required
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                placeholder="Current password"
+                aria-label="Current password"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="New password"
+                aria-label="New password"
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={saving === 'password'}
+                className={buttonClassName}
+              >
+                Change
+              </button>
+            </div>
+            {message('password')}
+          </form>
+        ) : (
+          accounts && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              You sign in with a linked account and have no password.{' '}
+              <Link
+                href="/forgot-password"
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Set one by email
+              </Link>
+            </p>
+          )
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,37 @@
+import { qrCode } from '@/lib/qr';
+
+// Light modules around the code that scanners need
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  label: string;
+  size?: number;
+}
+
+export default function QrCode({ value, label, size = 192 }: QrCodeProps) {
+  const modules = qrCode(value);
+  const extent = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) =>
+      row.map((dark, x) =>
+        dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '',
+      ),
+    )
+    .join('');
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      className="rounded bg-white"
+    >
+      <title>{label}</title>
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { describeRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const INTERVAL_UNITS = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+} as const;
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  // Used to pre-select the weekday/day of month of a new rule
+  dueDate: string;
+}
+
+export default function RecurrencePicker({
+  value,
+  onChange,
+  dueDate,
+}: RecurrencePickerProps) {
+  const due = dueDate ? new Date(`${dueDate}T00:00:00Z`) : null;
+  const endMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'none') {
+      onChange(null);
+      return;
+    }
+    const rule: RecurrenceRule = {
+      freq: freq as RecurrenceRule['freq'],
+      interval: value?.interval ?? 1,
+      until: value?.until,
+      count: value?.count,
+    };
+    if (rule.freq === 'weekly') {
+      rule.byWeekday = [due ? due.getUTCDay() : 1];
+    }
+    if (rule.freq === 'monthly') {
+      rule.byMonthDay = due ? due.getUTCDate() : 1;
+    }
+    onChange(rule);
+  };
+
+  const handleWeekdayToggle = (day: number) => {
+    if (!value) {
+      return;
+    }
+    const current = value.byWeekday ?? [];
+    const byWeekday = current.includes(day)
+      ? current.filter((d) => d !== day)
+      : [...current, day].sort((a, b) => a - b);
+    // A weekly rule needs at least one weekday
+    if (byWeekday.length > 0) {
+      onChange({ ...value, byWeekday });
+    }
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (!value) {
+      return;
+    }
+    const { until: _until, count: _count, ...rest } = value;
+    if (mode === 'until') {
+      onChange({ ...rest, until: dueDate || undefined });
+    } else if (mode === 'count') {
+      onChange({ ...rest, count: 5 });
+    } else {
+      onChange(rest);
+    }
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Repeat
+      </legend>
+      <div className="flex items-center gap-2">
+        <label htmlFor="recurrence-freq" className="sr-only">
+          Frequency
+        </label>
+        <select
+          id="recurrence-freq"
+          value={value?.freq ?? 'none'}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          disabled={!dueDate}
+          className={`${inputClassName} disabled:opacity-50`}
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+        {value && (
+          <>
+            <label
+              htmlFor="recurrence-interval"
+              className="text-sm text-gray-700 dark:text-gray-300"
+            >
+              every
+            </label>
+            <input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: Math.max(1, Number(e.target.value) || 1),
+                })
+              }
+              className={`${inputClassName} w-20`}
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              {INTERVAL_UNITS[value.freq]}
+            </span>
+          </>
+        )}
+      </div>
+      {!dueDate && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Set a due date to make this todo repeat
+        </p>
+      )}
+
+      {value?.freq === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((letter, day) => (
+            <button
+              key={WEEKDAY_LABELS[day]}
+              type="button"
+              onClick={() => handleWeekdayToggle(day)}
+              aria-label={WEEKDAY_LABELS[day]}
+              aria-pressed={value.byWeekday?.includes(day) ?? false}
+              className={`w-8 h-8 rounded-full text-sm font-medium ${
+                value.byWeekday?.includes(day)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {letter}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.freq === 'monthly' && (
+        <div className="flex items-center gap-2">
+          <label
+            htmlFor="recurrence-month-day"
+            className="text-sm text-gray-700 dark:text-gray-300"
+          >
+            On day
+          </label>
+          <input
+            id="recurrence-month-day"
+            type="number"
+            min={1}
+            max={31}
+            value={value.byMonthDay ?? 1}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                byMonthDay: Math.min(
+                  31,
+                  Math.max(1, Number(e.target.value) || 1),
+                ),
+              })
+            }
+            className={`${inputClassName} w-20`}
+          />
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-2">
+          <label
+            htmlFor="recurrence-end"
+            className="text-sm text-gray-700 dark:text-gray-300"
+          >
+            Ends
+          </label>
+          <select
+            id="recurrence-end"
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endMode === 'until' && (
+            <input
+              type="date"
+              aria-label="End date"
+              value={value.until ?? ''}
+              min={dueDate}
+              onChange={(e) =>
+                onChange({ ...value, until: e.target.value || undefined })
+              }
+              className={inputClassName}
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                aria-label="Number of occurrences"
+                min={1}
+                max={1000}
+                value={value.count ?? 1}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: Math.max(1, Number(e.target.value) || 1),
+                  })
+                }
+                className={`${inputClassName} w-20`}
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                times
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {describeRecurrence(value)}
+        </p>
+      )}
+    </fieldset>
+  );
+}
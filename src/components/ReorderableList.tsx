@@ -0,0 +1,198 @@
+'use client';
+
+import { type ReactNode, useState } from 'react';
+import type { ReorderTarget } from '@/hooks/useTodos';
+
+const indicatorClassName =
+  'absolute inset-x-0 h-0.5 bg-blue-500 rounded-full pointer-events-none';
+
+interface ReorderableItem {
+  id: string;
+  title: string;
+}
+
+interface ReorderableListProps<T extends ReorderableItem> {
+  items: T[];
+  disabled?: boolean;
+  // Items that can't be moved themselves but still serve as drop anchors
+  isLocked?: (item: T) => boolean;
+  onReorder: (id: string, target: ReorderTarget) => void;
+  renderItem: (item: T, handle: ReactNode) => ReactNode;
+}
+
+// Neighbours of `id` once it is placed at `index` among the other items
+function targetAt(items: ReorderableItem[], id: string, index: number) {
+  const rest = items.filter((item) => item.id !== id);
+  return { after: rest[index - 1]?.id, before: rest[index]?.id };
+}
+
+export default function ReorderableList<T extends ReorderableItem>({
+  items,
+  disabled = false,
+  isLocked,
+  onReorder,
+  renderItem,
+}: ReorderableListProps<T>) {
+  // Mouse: the dragged item and the gap (0..items.length) it hovers over
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Keyboard: the picked-up item and its pending index among the others
+  const [picked, setPicked] = useState<{ id: string; index: number } | null>(
+    null,
+  );
+  const [announcement, setAnnouncement] = useState('');
+
+  const commit = (id: string, index: number) => {
+    const currentIndex = items.findIndex((item) => item.id === id);
+    if (index !== currentIndex) {
+      onReorder(id, targetAt(items, id, index));
+    }
+  };
+
+  const handleDrop = () => {
+    if (draggingId !== null && dropIndex !== null) {
+      const currentIndex = items.findIndex((item) => item.id === draggingId);
+      // The gap index counts the dragged item itself, which is removed first
+      commit(draggingId, dropIndex > currentIndex ? dropIndex - 1 : dropIndex);
+    }
+    setDraggingId(null);
+    setDropIndex(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, item: T) => {
+    const title = item.title;
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (picked?.id === item.id) {
+        commit(item.id, picked.index);
+        setAnnouncement(`Dropped ${title} at position ${picked.index + 1}`);
+        setPicked(null);
+      } else {
+        const index = items.findIndex((i) => i.id === item.id);
+        setPicked({ id: item.id, index });
+        setAnnouncement(
+          `Picked up ${title} at position ${index + 1} of ${items.length}. Use the arrow keys to move, space to drop, escape to cancel.`,
+        );
+      }
+    } else if (picked?.id === item.id) {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        const index = Math.min(
+          items.length - 1,
+          Math.max(0, picked.index + (e.key === 'ArrowUp' ? -1 : 1)),
+        );
+        setPicked({ id: item.id, index });
+        setAnnouncement(`${title} moved to position ${index + 1}`);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setPicked(null);
+        setAnnouncement(`Cancelled moving ${title}`);
+      }
+    }
+  };
+
+  // While moving with the keyboard, preview the item at its pending place
+  let displayed = items;
+  if (picked) {
+    const item = items.find((i) => i.id === picked.id);
+    if (item) {
+      displayed = items.filter((i) => i.id !== picked.id);
+      displayed.splice(picked.index, 0, item);
+    }
+  }
+
+  return (
+    <div>
+      <ul
+        className="space-y-3"
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setDropIndex(null);
+          }
+        }}
+      >
+        {displayed.map((item, index) => {
+          const locked = disabled || (isLocked?.(item) ?? false);
+          const handle = locked ? null : (
+            <button
+              type="button"
+              aria-label={`Reorder ${item.title}`}
+              aria-pressed={picked?.id === item.id}
+              aria-describedby="reorder-instructions"
+              onKeyDown={(e) => handleKeyDown(e, item)}
+              // The preview moves the row in the DOM, which drops focus, so
+              // the picked handle takes it back; tabbing away cancels the move
+              ref={
+                picked?.id === item.id
+                  ? (el) => {
+                      if (el && document.activeElement !== el) {
+                        el.focus();
+                      }
+                    }
+                  : undefined
+              }
+              onBlur={(e) => {
+                if (picked?.id === item.id && e.relatedTarget) {
+                  setPicked(null);
+                }
+              }}
+              className="cursor-grab active:cursor-grabbing px-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              ⠿
+            </button>
+          );
+          return (
+            <li
+              key={item.id}
+              draggable={!locked}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(item.id);
+              }}
+              onDragOver={(e) => {
+                if (draggingId === null) {
+                  return;
+                }
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                const below = e.clientY > rect.top + rect.height / 2;
+                setDropIndex(below ? index + 1 : index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop();
+              }}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropIndex(null);
+              }}
+              className={`relative ${draggingId === item.id ? 'opacity-50' : ''} ${
+                picked?.id === item.id ? 'ring-2 ring-blue-500 rounded-lg' : ''
+              }`}
+            >
+              {draggingId !== null && dropIndex === index && (
+                <div className={`${indicatorClassName} -top-2`} aria-hidden />
+              )}
+              {renderItem(item, handle)}
+              {draggingId !== null &&
+                dropIndex === displayed.length &&
+                index === displayed.length - 1 && (
+                  <div
+                    className={`${indicatorClassName} -bottom-2`}
+                    aria-hidden
+                  />
+                )}
+            </li>
+          );
+        })}
+      </ul>
+      <p id="reorder-instructions" className="sr-only">
+        Press space to pick up a todo, the arrow keys to move it and space again
+        to drop it.
+      </p>
+      <p className="sr-only" aria-live="assertive">
+        {announcement}
+      </p>
+    </div>
+  );
+}
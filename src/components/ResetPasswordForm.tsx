@@ -0,0 +1,134 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { resetPassword } from '@/lib/auth-client';
+import AuthPage, { authButtonClassName, authInputClassName } from './AuthPage';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface ResetPasswordFormProps {
+  token: string | null;
+  // Why the link can't be used, when it can't
+  error: string | null;
+}
+
+export default function ResetPasswordForm({
+  token,
+  error: linkError,
+}: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState(linkError ?? '');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) {
+      return;
+    }
+    if (password !== confirmation) {
+      setError("The passwords don't match");
+      return;
+    }
+    setError('');
+    setLoading(true);
+    const result = await resetPassword({ newPassword: password, token });
+    setLoading(false);
+    if (result.error) {
+      setError(
+        result.error.code === 'INVALID_TOKEN'
+          ? 'This reset link has expired or was already used. Ask for a new one.'
+          : result.error.message || 'Failed to reset password',
+      );
+      return;
+    }
+    setDone(true);
+  };
+
+  if (done) {
+    return (
+      <AuthPage title="Password changed">
+        <p
+          role="alert"
+          className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+        >
+          Your password has been changed and you've been signed out everywhere.
+        </p>
+        <p className="text-center text-sm">
+          <Link
+            href="/"
+            className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+          >
+            Sign in
+          </Link>
+        </p>
+      </AuthPage>
+    );
+  }
+
+  return (
+    <AuthPage title="Choose a new password">
+      {token && !linkError ? (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="password" className="sr-only">
+                New password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                className={authInputClassName}
+                placeholder="New password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirmation" className="sr-only">
+                Confirm new password
+              </label>
+              <input
+                id="confirmation"
+                type="password"
+                autoComplete="new-password"
+                required
+                className={authInputClassName}
+                placeholder="Confirm new password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          </div>
+          {error && (
+            <div className="text-red-500 text-sm text-center">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className={authButtonClassName}
+          >
+            {loading ? 'Saving...' : 'Change password'}
+          </button>
+        </form>
+      ) : (
+        <div className="text-red-500 text-sm text-center">
+          {error || 'This reset link is missing its token.'}
+        </div>
+      )}
+      <p className="text-center text-sm">
+        <Link
+          href="/forgot-password"
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          Ask for a new link
+        </Link>
+      </p>
+    </AuthPage>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import {
+  Combobox,
+  ComboboxInput,
+  ComboboxOption,
+  ComboboxOptions,
+} from '@headlessui/react';
+import { useEffect, useRef, useState } from 'react';
+import { useTodoSearch } from '@/hooks/useTodos';
+import type { SnippetPart, TodoSearchResult } from '@/lib/search';
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  // Parts are keyed by the offset they start at in the snippet
+  const offsets = parts.map((_, index) =>
+    parts
+      .slice(0, index)
+      .reduce((offset, part) => offset + part.text.length, 0),
+  );
+  return parts.map((part, index) =>
+    part.match ? (
+      <mark
+        key={offsets[index]}
+        className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm"
+      >
+        {part.text}
+      </mark>
+    ) : (
+      <span key={offsets[index]}>{part.text}</span>
+    ),
+  );
+}
+
+interface SearchBoxProps {
+  onSelect: (todo: TodoSearchResult) => void;
+}
+
+export default function SearchBox({ onSelect }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const { results, isLoading } = useTodoSearch(query);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // "/" or Ctrl/Cmd+K focuses the search box from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping =
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (
+        (e.key === 'k' && (e.metaKey || e.ctrlKey)) ||
+        (e.key === '/' && !isTyping)
+      ) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSelect = (todo: TodoSearchResult | null) => {
+    if (todo) {
+      onSelect(todo);
+      setQuery('');
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <Combobox value={null} onChange={handleSelect}>
+      <div className="relative mb-6">
+        <ComboboxInput
+          ref={inputRef}
+          aria-label="Search todos"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setQuery('');
+            }
+          }}
+          placeholder="Search todos"
+          className="w-full px-3 py-2 pr-16 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white"
+        />
+        <kbd className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 border border-gray-300 dark:border-gray-600 rounded px-1.5">
+          /
+        </kbd>
+        {query.trim() && (
+          <ComboboxOptions
+            static
+            className="absolute z-10 mt-1 w-full max-h-96 overflow-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg ring-1 ring-black/5 empty:hidden"
+          >
+            {results?.map((todo) => (
+              <ComboboxOption
+                key={todo.id}
+                value={todo}
+                className="px-4 py-2 cursor-pointer data-focus:bg-blue-50 dark:data-focus:bg-blue-900/30"
+              >
+                <p
+                  className={`text-sm font-medium ${
+                    todo.completed
+                      ? 'line-through text-gray-500 dark:text-gray-400'
+                      : 'text-gray-900 dark:text-white'
+                  }`}
+                >
+                  {todo.titleSnippet.length > 0 ? (
+                    <Snippet parts={todo.titleSnippet} />
+                  ) : (
+                    todo.title
+                  )}
+                </p>
+                {todo.descriptionSnippet.length > 0 && (
+                  <p className="text-xs mt-0.5 text-gray-600 dark:text-gray-300">
+                    <Snippet parts={todo.descriptionSnippet} />
+                  </p>
+                )}
+              </ComboboxOption>
+            ))}
+            {results?.length === 0 && !isLoading && (
+              <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                No matching todos
+              </p>
+            )}
+          </ComboboxOptions>
+        )}
+      </div>
+    </Combobox>
+  );
+}
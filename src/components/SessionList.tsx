@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  revokeDeviceSession,
+  revokeOtherDeviceSessions,
+  useSessions,
+} from '@/hooks/useAccount';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+
+// "Firefox on macOS" from a user agent; good enough to recognise a device
+function describeDevice(userAgent: string | null | undefined) {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['OPR/', 'Opera'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+      ['curl/', 'curl'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Unknown browser';
+  const system = [
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Android', 'Android'],
+    ['Mac OS X', 'macOS'],
+    ['Windows', 'Windows'],
+    ['Linux', 'Linux'],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+}
+
+export default function SessionList() {
+  const { data: current } = useSession();
+  const { sessions, isLoading, isError } = useSessions();
+  const [error, setError] = useState<string | null>(null);
+
+  const timeZone = current?.user.timezone || DEFAULT_TIMEZONE;
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleRevoke = (token: string) =>
+    run(() => revokeDeviceSession(token), 'Failed to sign out device');
+
+  const handleRevokeOthers = () => {
+    if (!confirm('Sign out everywhere except this device?')) {
+      return;
+    }
+    run(revokeOtherDeviceSessions, 'Failed to sign out other devices');
+  };
+
+  const sorted = [...(sessions ?? [])].sort((a, b) =>
+    a.id === current?.session.id
+      ? -1
+      : b.id === current?.session.id
+        ? 1
+        : new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+  );
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Sessions
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        The devices signed in to your account. Sign out any you don't recognise,
+        and change your password if you're unsure.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : isError ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Failed to load sessions
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {sorted.map((session) => {
+            const isCurrent = session.id === current?.session.id;
+            return (
+              <li key={session.id} className="flex items-center gap-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {describeDevice(session.userAgent)}
+                    {isCurrent && (
+                      <span className="ml-2 text-xs font-normal text-green-700 dark:text-green-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.ipAddress && `${session.ipAddress} · `}
+                    Signed in{' '}
+                    {formatDue(new Date(session.createdAt), true, timeZone)}
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(session.token)}
+                    className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {sorted.length > 1 && (
+        <button
+          type="button"
+          onClick={handleRevokeOthers}
+          className="mt-3 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+        >
+          Sign out all other devices
+        </button>
+      )}
+      {error && (
+        <p role="alert" className="mt-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  createSubtask,
+  deleteTodo,
+  updateTodo,
+  useSubtasks,
+} from '@/hooks/useTodos';
+import type { Todo } from '@/lib/db/schema';
+
+interface SubtaskListProps {
+  parentId: string;
+  readOnly?: boolean;
+}
+
+export default function SubtaskList({
+  parentId,
+  readOnly = false,
+}: SubtaskListProps) {
+  const { subtasks, isLoading, isError } = useSubtasks(parentId);
+  const [title, setTitle] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createSubtask(parentId, title);
+      setTitle('');
+    } catch (error) {
+      console.error('Error creating subtask:', error);
+    }
+  };
+
+  const handleToggle = async (subtask: Todo) => {
+    try {
+      await updateTodo(subtask, { completed: !subtask.completed });
+    } catch (error) {
+      console.error('Error toggling subtask:', error);
+    }
+  };
+
+  const handleDelete = async (subtask: Todo) => {
+    try {
+      await deleteTodo(subtask);
+    } catch (error) {
+      console.error('Error deleting subtask:', error);
+    }
+  };
+
+  if (isError) {
+    return (
+      <p className="text-sm text-red-500 pl-9 pb-3">Failed to load subtasks.</p>
+    );
+  }
+
+  return (
+    <div className="pl-9 pr-4 pb-4 space-y-2">
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Loading subtasks...
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {subtasks?.map((subtask) => (
+            <li key={subtask.id} className="group flex items-center gap-3">
+              <input
+                id={`subtask-${subtask.id}`}
+                type="checkbox"
+                checked={subtask.completed}
+                onChange={() => handleToggle(subtask)}
+                disabled={readOnly}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 focus:ring-2 cursor-pointer disabled:cursor-default"
+              />
+              <label
+                htmlFor={`subtask-${subtask.id}`}
+                className={`flex-1 text-sm ${
+                  subtask.completed
+                    ? 'line-through text-gray-500 dark:text-gray-400'
+                    : 'text-gray-800 dark:text-gray-200'
+                }`}
+              >
+                {subtask.title}
+              </label>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(subtask)}
+                  className="invisible group-hover:visible text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+                  aria-label={`Delete subtask ${subtask.title}`}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <label htmlFor={`new-subtask-${parentId}`} className="sr-only">
+            New subtask
+          </label>
+          <input
+            id={`new-subtask-${parentId}`}
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            required
+            placeholder="Add a subtask"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="submit"
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
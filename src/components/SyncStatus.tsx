@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  discardConflict,
+  loadQueue,
+  replayQueue,
+  retryConflict,
+  useOfflineQueue,
+} from '@/hooks/useOfflineQueue';
+import { revalidateTodos } from '@/hooks/useTodos';
+
+// How often a queue left over while online (the server was unreachable) is
+// tried again
+const RETRY_INTERVAL_MS = 30_000;
+
+const subscribeOnline = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+const sync = () => replayQueue().then(revalidateTodos);
+
+// Shows whether changes are waiting to be sent and lists the ones the server
+// rejected when they were replayed
+export default function SyncStatus() {
+  const { pending, conflicts } = useOfflineQueue();
+  const isOnline = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true,
+  );
+  const hasPending = pending.length > 0;
+
+  // Picks up changes left from an earlier visit, which are then sent below
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  useEffect(() => {
+    if (!isOnline || !hasPending) {
+      return;
+    }
+    sync();
+    const timer = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, hasPending]);
+
+  const handleRetry = async (conflict: (typeof conflicts)[number]) => {
+    await retryConflict(conflict);
+    revalidateTodos();
+  };
+
+  return (
+    <>
+      {(!isOnline || hasPending) && (
+        <span
+          aria-live="polite"
+          className="text-sm text-amber-600 dark:text-amber-400"
+        >
+          {isOnline ? 'Syncing' : 'Offline'}
+          {hasPending &&
+            ` · ${pending.length} ${pending.length === 1 ? 'change' : 'changes'} waiting`}
+        </span>
+      )}
+      {conflicts.length > 0 && (
+        <div
+          role="alert"
+          className="fixed bottom-4 right-4 z-40 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4"
+        >
+          <h2 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+            Some offline changes could not be saved
+          </h2>
+          <ul className="space-y-3">
+            {conflicts.map((conflict) => (
+              <li key={conflict.mutation.seq} className="text-sm">
+                <p className="text-gray-700 dark:text-gray-300">
+                  {conflict.mutation.description}
+                </p>
+                <p className="text-red-600 dark:text-red-400">
+                  {conflict.message}
+                </p>
+                <div className="flex gap-3 mt-1">
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(conflict)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {conflict.current ? 'Overwrite' : 'Retry'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => discardConflict(conflict)}
+                    className="text-gray-500 dark:text-gray-400 hover:underline"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
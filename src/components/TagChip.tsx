@@ -0,0 +1,24 @@
+import { FALLBACK_COLOR } from '@/lib/colors';
+import type { Tag } from '@/lib/db/schema';
+
+interface TagChipProps {
+  tag: Tag;
+  active?: boolean;
+}
+
+export default function TagChip({ tag, active = true }: TagChipProps) {
+  const color = tag.color ?? FALLBACK_COLOR;
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border"
+      style={{
+        borderColor: color,
+        backgroundColor: active ? color : 'transparent',
+        color: active ? '#fff' : color,
+      }}
+    >
+      {tag.name}
+    </span>
+  );
+}
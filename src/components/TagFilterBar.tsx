@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import TagChip from '@/components/TagChip';
+import { createTag, deleteTag, useTags } from '@/hooks/useTags';
+import { PALETTE } from '@/lib/colors';
+import type { TagMatch } from '@/lib/todos';
+
+interface TagFilterBarProps {
+  selectedTagIds: string[];
+  onSelectedTagIdsChange: (tagIds: string[]) => void;
+  match: TagMatch;
+  onMatchChange: (match: TagMatch) => void;
+}
+
+export default function TagFilterBar({
+  selectedTagIds,
+  onSelectedTagIdsChange,
+  match,
+  onMatchChange,
+}: TagFilterBarProps) {
+  const { tags } = useTags();
+  const [name, setName] = useState('');
+
+  const handleToggle = (tagId: string) => {
+    onSelectedTagIdsChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId],
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createTag(name, PALETTE[(tags?.length ?? 0) % PALETTE.length]);
+      setName('');
+    } catch (error) {
+      console.error('Error creating tag:', error);
+    }
+  };
+
+  const handleDelete = async (tagId: string, tagName: string) => {
+    if (confirm(`Delete the tag "${tagName}"? Todos keep everything else.`)) {
+      try {
+        await deleteTag(tagId);
+        onSelectedTagIdsChange(selectedTagIds.filter((id) => id !== tagId));
+      } catch (error) {
+        console.error('Error deleting tag:', error);
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {tags?.map((tag) => (
+        <span key={tag.id} className="group inline-flex items-center">
+          <button
+            type="button"
+            onClick={() => handleToggle(tag.id)}
+            aria-pressed={selectedTagIds.includes(tag.id)}
+            aria-label={`Filter by ${tag.name}`}
+          >
+            <TagChip tag={tag} active={selectedTagIds.includes(tag.id)} />
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDelete(tag.id, tag.name)}
+            className="invisible group-hover:visible ml-0.5 text-xs text-gray-400 hover:text-red-600"
+            aria-label={`Delete tag ${tag.name}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {selectedTagIds.length > 1 && (
+        <button
+          type="button"
+          onClick={() => onMatchChange(match === 'any' ? 'all' : 'any')}
+          className="text-xs px-2 py-0.5 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+        >
+          Match {match === 'any' ? 'any tag' : 'all tags'}
+        </button>
+      )}
+      <form onSubmit={handleCreate} className="inline-flex">
+        <label htmlFor="new-tag-name" className="sr-only">
+          New tag name
+        </label>
+        <input
+          id="new-tag-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          placeholder="+ New tag"
+          className="w-28 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+        />
+      </form>
+    </div>
+  );
+}
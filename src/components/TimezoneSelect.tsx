@@ -0,0 +1,45 @@
+'use client';
+
+import { revalidateTodos } from '@/hooks/useTodos';
+import { updateUser, useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE } from '@/lib/dates';
+
+export default function TimezoneSelect() {
+  const { data: session, refetch } = useSession();
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+  const timeZones = Intl.supportedValuesOf('timeZone');
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    try {
+      await updateUser({ timezone: e.target.value });
+      await refetch();
+      // Smart views depend on the user's timezone
+      revalidateTodos();
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+    }
+  };
+
+  return (
+    <>
+      <label htmlFor="timezone" className="sr-only">
+        Timezone
+      </label>
+      <select
+        id="timezone"
+        value={timeZone}
+        onChange={handleChange}
+        className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white max-w-48"
+      >
+        {!timeZones.includes(timeZone) && (
+          <option value={timeZone}>{timeZone}</option>
+        )}
+        {timeZones.map((zone) => (
+          <option key={zone} value={zone}>
+            {zone}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
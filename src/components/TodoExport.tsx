@@ -0,0 +1,33 @@
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/todo-schemas';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+};
+
+export default function TodoExport() {
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Export
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Download every todo you can see, including completed ones and those in
+        shared lists. Items in the trash are left out.
+      </p>
+      <div className="flex flex-wrap gap-3">
+        {EXPORT_FORMATS.map((format) => (
+          <a
+            key={format}
+            href={`/api/todos/export?format=${format}`}
+            download
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            {FORMAT_LABELS[format]}
+          </a>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useLists } from '@/hooks/useLists';
+import { useTags } from '@/hooks/useTags';
+import { useTodoHistory } from '@/hooks/useTodos';
+import { formatDue } from '@/lib/dates';
+import {
+  FIELD_LABELS,
+  type TodoChanges,
+  type TodoHistoryEntry,
+} from '@/lib/history';
+import { isPriority, PRIORITY_LABELS } from '@/lib/priorities';
+import { describeRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+import type { TodoWithDetails } from '@/lib/todos';
+
+interface TodoHistoryProps {
+  todo: TodoWithDetails;
+  timeZone: string;
+}
+
+export default function TodoHistory({ todo, timeZone }: TodoHistoryProps) {
+  const { history, isLoading, isError } = useTodoHistory(todo.id);
+  const { lists } = useLists();
+  const { tags } = useTags();
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === '') {
+      return 'nothing';
+    }
+    switch (field) {
+      case 'dueAt':
+        return formatDue(new Date(value as string), todo.dueHasTime, timeZone);
+      case 'remindAt':
+        return formatDue(new Date(value as string), true, timeZone);
+      case 'listId':
+        return lists?.find((list) => list.id === value)?.name ?? 'another list';
+      case 'tagIds': {
+        const names = (value as string[]).map(
+          (tagId) => tags?.find((tag) => tag.id === tagId)?.name ?? 'a tag',
+        );
+        return names.length > 0 ? names.join(', ') : 'none';
+      }
+      case 'recurrence':
+        return describeRecurrence(value as RecurrenceRule);
+      case 'priority':
+        return isPriority(value) ? PRIORITY_LABELS[value] : String(value);
+      default:
+        return typeof value === 'boolean'
+          ? value
+            ? 'on'
+            : 'off'
+          : `"${String(value)}"`;
+    }
+  };
+
+  const describeChanges = (changes: TodoChanges) => {
+    const descriptions = Object.entries(changes)
+      .filter(([field]) => field in FIELD_LABELS)
+      .map(([field, change]) => {
+        if (field === 'completed') {
+          return change.to ? 'marked it complete' : 'reopened it';
+        }
+        if (field === 'position') {
+          return 'reordered it';
+        }
+        if (field === 'listId' && change.to === null) {
+          return 'moved it to the inbox';
+        }
+        return `changed the ${FIELD_LABELS[field]} from ${formatValue(field, change.from)} to ${formatValue(field, change.to)}`;
+      });
+    return descriptions.length > 0
+      ? descriptions.join('; ')
+      : 'updated this todo';
+  };
+
+  const describeEvent = (event: TodoHistoryEntry) => {
+    switch (event.action) {
+      case 'create':
+        return 'created this todo';
+      case 'complete':
+        return 'completed this todo';
+      case 'delete':
+        return 'moved this todo to the trash';
+      case 'restore':
+        return 'restored this todo from the trash';
+      default:
+        return describeChanges(event.changes);
+    }
+  };
+
+  if (isError) {
+    return <p className="text-sm text-red-500">Failed to load history.</p>;
+  }
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        History
+      </h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Loading history...
+        </p>
+      ) : (
+        <ol className="max-h-40 overflow-y-auto border-l border-gray-200 dark:border-gray-700 pl-3 space-y-2">
+          {history?.map((event) => (
+            <li key={event.id} className="text-xs">
+              <p className="text-gray-800 dark:text-gray-200">
+                <span className="font-medium">
+                  {event.actorName ?? 'A former member'}
+                </span>{' '}
+                {describeEvent(event)}
+              </p>
+              <p className="text-gray-500 dark:text-gray-400">
+                {formatDue(new Date(event.createdAt), true, timeZone)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
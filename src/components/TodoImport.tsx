@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { useLists } from '@/hooks/useLists';
+import { importTodos } from '@/hooks/useTodos';
+import { hasRole } from '@/lib/roles';
+import {
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportReport,
+  type ImportRowStatus,
+  MAX_IMPORT_LENGTH,
+} from '@/lib/todo-schemas';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+  todoist: 'Todoist CSV',
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  create: 'New',
+  duplicate: 'Duplicate',
+  error: 'Error',
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  create: 'text-green-600 dark:text-green-400',
+  duplicate: 'text-gray-500 dark:text-gray-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+// Picks the format from the file name; a Todoist CSV is told apart from ours
+// by its TYPE and CONTENT columns
+function guessFormat(name: string, content: string): ImportFormat {
+  if (/\.json$/i.test(name)) {
+    return 'json';
+  }
+  if (/\.(md|markdown|txt)$/i.test(name)) {
+    return 'markdown';
+  }
+  const header = content.slice(0, content.search(/\r?\n|$/)).toUpperCase();
+  return header.includes('TYPE') && header.includes('CONTENT')
+    ? 'todoist'
+    : 'csv';
+}
+
+// Imports a file in two steps: a preview of every row, then the import
+export default function TodoImport() {
+  const { lists } = useLists();
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('json');
+  const [listId, setListId] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setError(null);
+    if (!file) {
+      setFileName('');
+      setContent('');
+      return;
+    }
+    if (file.size > MAX_IMPORT_LENGTH) {
+      setError('That file is too large to import');
+      return;
+    }
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setFormat(guessFormat(file.name, text));
+  };
+
+  const run = async (dryRun: boolean) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      setReport(
+        await importTodos({
+          format,
+          content,
+          listId: listId || null,
+          dryRun,
+        }),
+      );
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to import todos',
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Changing the options invalidates the preview
+  const change =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setReport(null);
+    };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Import
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Import an export from this app or a Todoist project exported as CSV.
+        You'll see what each row becomes before anything is saved. Todos that
+        already exist are skipped.
+      </p>
+
+      <div className="space-y-3">
+        <div>
+          <label
+            htmlFor="import-file"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            File
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".json,.csv,.md,.markdown,.txt"
+            onChange={handleFile}
+            className="block w-full text-sm text-gray-700 dark:text-gray-300"
+          />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <label
+              htmlFor="import-format"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Format
+            </label>
+            <select
+              id="import-format"
+              value={format}
+              onChange={(e) =>
+                change(setFormat)(e.target.value as ImportFormat)
+              }
+              className={inputClassName}
+            >
+              {IMPORT_FORMATS.map((value) => (
+                <option key={value} value={value}>
+                  {FORMAT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="import-list"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Todos without a list go to
+            </label>
+            <select
+              id="import-list"
+              value={listId}
+              onChange={(e) => change(setListId)(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Inbox</option>
+              {lists
+                ?.filter((list) => hasRole(list.role, 'editor'))
+                .map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        <button
+          type="button"
+          onClick={() => run(true)}
+          disabled={!content || isWorking}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Preview
+        </button>
+      </div>
+
+      {report && (
+        <div className="mt-6 space-y-3">
+          <p role="alert" className="text-sm text-gray-700 dark:text-gray-300">
+            {report.dryRun
+              ? `${fileName}: ${report.created} to import`
+              : `Imported ${report.created} ${report.created === 1 ? 'todo' : 'todos'}`}
+            , {report.duplicates} duplicate
+            {report.duplicates === 1 ? '' : 's'}, {report.errors}{' '}
+            {report.errors === 1 ? 'error' : 'errors'}.
+            {report.newLists.length > 0 &&
+              ` New lists: ${report.newLists.join(', ')}.`}
+            {report.newTags.length > 0 &&
+              ` New tags: ${report.newTags.join(', ')}.`}
+          </p>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+            <table className="w-full text-xs text-left">
+              <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900 text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-2 py-1 font-medium">Row</th>
+                  <th className="px-2 py-1 font-medium">Todo</th>
+                  <th className="px-2 py-1 font-medium">List</th>
+                  <th className="px-2 py-1 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {report.rows.map((row) => (
+                  <tr key={row.row} className="align-top">
+                    <td className="px-2 py-1">{row.row}</td>
+                    <td className="px-2 py-1">
+                      {row.parentTitle && (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {row.parentTitle} ›{' '}
+                        </span>
+                      )}
+                      {row.title || <em>Untitled</em>}
+                      {row.warnings.map((warning) => (
+                        <span
+                          key={warning}
+                          className="block text-amber-600 dark:text-amber-400"
+                        >
+                          {warning}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="px-2 py-1">{row.list ?? 'Inbox'}</td>
+                    <td className={`px-2 py-1 ${STATUS_CLASSES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                      {row.message && (
+                        <span className="block">{row.message}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {report.dryRun && (
+            <button
+              type="button"
+              onClick={() => run(false)}
+              disabled={report.created === 0 || isWorking}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Import {report.created} {report.created === 1 ? 'todo' : 'todos'}
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
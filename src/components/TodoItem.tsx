@@ -0,0 +1,212 @@
+'use client';
+
+import { type ReactNode, useState } from 'react';
+import PriorityBadge from '@/components/PriorityBadge';
+import SubtaskList from '@/components/SubtaskList';
+import TagChip from '@/components/TagChip';
+import { deleteTodo, updateTodo } from '@/hooks/useTodos';
+import { formatDue, startOfZonedDay } from '@/lib/dates';
+import type { Tag, Todo } from '@/lib/db/schema';
+import type { ListWithRole } from '@/lib/lists';
+import { describeRecurrence } from '@/lib/recurrence';
+import { hasRole } from '@/lib/roles';
+import type { TodoWithDetails } from '@/lib/todos';
+
+function isOverdue(todo: Todo, timeZone: string, now: Date) {
+  if (!todo.dueAt || todo.completed) {
+    return false;
+  }
+  const dueAt = new Date(todo.dueAt);
+  return todo.dueHasTime ? dueAt < now : dueAt < startOfZonedDay(now, timeZone);
+}
+
+interface TodoItemProps {
+  todo: TodoWithDetails;
+  lists?: ListWithRole[];
+  tags?: Tag[];
+  timeZone: string;
+  onEdit: (todo: TodoWithDetails) => void;
+  dragHandle?: ReactNode;
+  selected?: boolean;
+  // range is true for shift-clicks, which select everything since the last click
+  onSelect?: (range: boolean) => void;
+}
+
+export default function TodoItem({
+  todo,
+  lists,
+  tags,
+  timeZone,
+  onEdit,
+  dragHandle,
+  selected = false,
+  onSelect,
+}: TodoItemProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const todoTags = tags?.filter((tag) => todo.tagIds.includes(tag.id)) ?? [];
+  const canEdit = hasRole(todo.role, 'editor');
+  const isShared =
+    (lists?.find((list) => list.id === todo.listId)?.memberCount ?? 0) > 0;
+
+  const handleToggle = async () => {
+    try {
+      await updateTodo(todo, { completed: !todo.completed });
+    } catch (error) {
+      console.error('Error toggling todo:', error);
+    }
+  };
+
+  const handleMove = async (targetListId: string) => {
+    try {
+      await updateTodo(todo, { listId: targetListId || null });
+    } catch (error) {
+      console.error('Error moving todo:', error);
+    }
+  };
+
+  // Deleting only moves the todo to the trash, and the toast offers undo
+  const handleDelete = async () => {
+    try {
+      await deleteTodo(todo);
+    } catch (error) {
+      console.error('Error deleting todo:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow">
+      <div className="p-4 flex items-center gap-4">
+        {dragHandle}
+        {onSelect && canEdit && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={(e) =>
+              onSelect((e.nativeEvent as MouseEvent).shiftKey === true)
+            }
+            aria-label={`Select ${todo.title}`}
+            className="w-4 h-4 rounded border-gray-300 cursor-pointer"
+          />
+        )}
+        <input
+          type="checkbox"
+          checked={todo.completed}
+          onChange={handleToggle}
+          disabled={!canEdit}
+          aria-label={`Complete ${todo.title}`}
+          className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500 focus:ring-2 cursor-pointer disabled:cursor-default"
+        />
+        <div className="flex-1">
+          <h3
+            className={`font-medium flex items-center gap-2 ${
+              todo.completed
+                ? 'line-through text-gray-500 dark:text-gray-400'
+                : 'text-gray-900 dark:text-white'
+            }`}
+          >
+            {todo.title}
+            <PriorityBadge
+              priority={todo.priority}
+              important={todo.important}
+            />
+          </h3>
+          {todo.description && (
+            <p
+              className={`text-sm mt-1 ${
+                todo.completed
+                  ? 'line-through text-gray-400 dark:text-gray-500'
+                  : 'text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              {todo.description}
+            </p>
+          )}
+          {todo.dueAt && (
+            <p
+              className={`text-xs mt-1 ${
+                isOverdue(todo, timeZone, new Date())
+                  ? 'text-red-600 dark:text-red-400 font-medium'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              Due {formatDue(new Date(todo.dueAt), todo.dueHasTime, timeZone)}
+              {todo.remindAt &&
+                ` · Reminder ${formatDue(new Date(todo.remindAt), true, timeZone)}`}
+              {todo.recurrence && ` · ${describeRecurrence(todo.recurrence)}`}
+            </p>
+          )}
+          {isShared && (
+            <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+              Added by {todo.creatorName ?? 'a former member'}
+              {todo.completed &&
+                todo.completerName &&
+                ` · Completed by ${todo.completerName}`}
+            </p>
+          )}
+          {todoTags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {todoTags.map((tag) => (
+                <TagChip key={tag.id} tag={tag} />
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+            className="text-xs mt-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            {isExpanded ? '▾' : '▸'}{' '}
+            {todo.subtaskCount > 0
+              ? `${todo.subtaskCompletedCount}/${todo.subtaskCount} done`
+              : 'Subtasks'}
+          </button>
+        </div>
+        {canEdit ? (
+          <>
+            <label htmlFor={`list-${todo.id}`} className="sr-only">
+              Move to list
+            </label>
+            <select
+              id={`list-${todo.id}`}
+              value={todo.listId ?? ''}
+              onChange={(e) => handleMove(e.target.value)}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">Inbox</option>
+              {lists
+                ?.filter(
+                  (list) =>
+                    list.id === todo.listId || hasRole(list.role, 'editor'),
+                )
+                .map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onEdit(todo)}
+              className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 px-3 py-1 rounded hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              Delete
+            </button>
+          </>
+        ) : (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            View only
+          </span>
+        )}
+      </div>
+      {isExpanded && <SubtaskList parentId={todo.id} readOnly={!canEdit} />}
+    </div>
+  );
+}
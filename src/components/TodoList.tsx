@@ -1,63 +1,347 @@
 'use client';
 
 import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
-import { useState } from 'react';
-import { createTodo, deleteTodo, updateTodo, useTodos } from '@/hooks/useTodos';
-import type { Todo } from '@/lib/db/schema';
+import { useEffect, useRef, useState } from 'react';
+import BulkActionBar from '@/components/BulkActionBar';
+import EditConflict from '@/components/EditConflict';
+import EisenhowerMatrix from '@/components/EisenhowerMatrix';
+import ListMembers from '@/components/ListMembers';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import ReorderableList from '@/components/ReorderableList';
+import SearchBox from '@/components/SearchBox';
+import TagChip from '@/components/TagChip';
+import TagFilterBar from '@/components/TagFilterBar';
+import TodoHistory from '@/components/TodoHistory';
+import TodoItem from '@/components/TodoItem';
+import { useLists } from '@/hooks/useLists';
+import { useTags } from '@/hooks/useTags';
+import {
+  createTodo,
+  type ReorderTarget,
+  updateTodo,
+  useTodos,
+} from '@/hooks/useTodos';
+import { ApiError } from '@/lib/api';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatZonedInput } from '@/lib/dates';
+import { PRIORITIES, PRIORITY_LABELS, type Priority } from '@/lib/priorities';
+import type { RecurrenceRule } from '@/lib/recurrence';
+import { hasRole } from '@/lib/roles';
+import {
+  DESCRIPTION_MAX_LENGTH,
+  TITLE_MAX_LENGTH,
+  type UpdateTodoInput,
+} from '@/lib/todo-schemas';
+import type {
+  SmartView,
+  SortOrder,
+  TagMatch,
+  TodoSort,
+  TodoWithDetails,
+} from '@/lib/todos';
 
-export default function TodoList() {
-  const { todos, isLoading, isError } = useTodos();
+const VIEW_TABS: { view: SmartView | null; label: string }[] = [
+  { view: null, label: 'All' },
+  { view: 'today', label: 'Today' },
+  { view: 'upcoming', label: 'Upcoming' },
+  { view: 'overdue', label: 'Overdue' },
+];
+
+const SORT_OPTIONS: { sort: TodoSort; label: string }[] = [
+  { sort: 'created', label: 'Created' },
+  { sort: 'updated', label: 'Updated' },
+  { sort: 'title', label: 'Title' },
+  { sort: 'due', label: 'Due date' },
+  { sort: 'priority', label: 'Priority' },
+];
+
+const controlClassName =
+  'text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 dark:bg-gray-700 dark:text-white';
+
+// A todo's fields as the edit dialog sends them, to tell which ones an
+// edit or a concurrent change touched
+function todoFormFields(
+  todo: TodoWithDetails,
+  timeZone: string,
+): UpdateTodoInput {
+  const due = todo.dueAt && formatZonedInput(new Date(todo.dueAt), timeZone);
+  const remind =
+    todo.remindAt && formatZonedInput(new Date(todo.remindAt), timeZone);
+  return {
+    title: todo.title,
+    description: todo.description || '',
+    priority: todo.priority,
+    important: todo.important,
+    completeSubtasks: todo.completeSubtasks,
+    tagIds: todo.tagIds,
+    dueAt: due
+      ? todo.dueHasTime
+        ? `${due.date}T${due.time}`
+        : due.date
+      : null,
+    remindAt: remind ? `${remind.date}T${remind.time}` : null,
+    recurrence: due ? todo.recurrence : null,
+  };
+}
+
+function changedFields(before: UpdateTodoInput, after: UpdateTodoInput) {
+  return (Object.keys(after) as (keyof UpdateTodoInput)[]).filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+  );
+}
+
+interface TodoListProps {
+  listId?: string | null;
+  onLeaveList?: () => void;
+}
+
+export default function TodoList({
+  listId = null,
+  onLeaveList,
+}: TodoListProps) {
+  const [view, setView] = useState<SmartView | null>(null);
+  const [filterTagIds, setFilterTagIds] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+  const [status, setStatus] = useState<'all' | 'open' | 'done'>('all');
+  const [sort, setSort] = useState<TodoSort | null>(null);
+  const [order, setOrder] = useState<SortOrder>('asc');
+  const [layout, setLayout] = useState<'list' | 'matrix'>('list');
+  const {
+    todos,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    reorderTodo,
+    isError,
+  } = useTodos({
+    listId,
+    view,
+    tagIds: filterTagIds,
+    tagMatch,
+    completed: status === 'all' ? null : status === 'done',
+    sort: sort ?? undefined,
+    order,
+  });
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { lists } = useLists();
+  const { tags } = useTags();
+  const { data: session } = useSession();
   const [isOpen, setIsOpen] = useState(false);
-  const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
+  const [editingTodo, setEditingTodo] = useState<TodoWithDetails | null>(null);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [remindAt, setRemindAt] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [priority, setPriority] = useState<Priority>('none');
+  const [important, setImportant] = useState(false);
+  const [completeSubtasks, setCompleteSubtasks] = useState(false);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  // The server's copy when saving an edit found someone else had changed it
+  const [conflict, setConflict] = useState<TodoWithDetails | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // The last todo clicked, where a shift-click range starts
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+
+  // Manual order only makes sense while the list is shown in that order
+  const canReorder = view === null && sort === null && order === 'asc';
+
+  const handleReorder = async (id: string, target: ReorderTarget) => {
     try {
-      if (editingTodo) {
-        await updateTodo(editingTodo.id, { title, description });
-      } else {
-        await createTodo(title, description);
+      await reorderTodo(id, target);
+    } catch (error) {
+      console.error('Error moving todo:', error);
+    }
+  };
+
+  // Fetch the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore();
       }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, loadMore]);
+
+  // Todos that left the list (deleted, moved, filtered out) drop out of the
+  // selection
+  const selection = selectedIds.filter((id) =>
+    todos?.some((todo) => todo.id === id),
+  );
+
+  const handleSelect = (todo: TodoWithDetails, range: boolean) => {
+    const visible = todos ?? [];
+    const anchorIndex = visible.findIndex(
+      (item) => item.id === selectionAnchor,
+    );
+    if (range && anchorIndex >= 0) {
+      const index = visible.findIndex((item) => item.id === todo.id);
+      const rangeIds = visible
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .filter((item) => hasRole(item.role, 'editor'))
+        .map((item) => item.id);
+      setSelectedIds([...new Set([...selection, ...rangeIds])]);
+    } else {
+      setSelectedIds(
+        selection.includes(todo.id)
+          ? selection.filter((id) => id !== todo.id)
+          : [...selection, todo.id],
+      );
+    }
+    setSelectionAnchor(todo.id);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setSelectionAnchor(null);
+  };
+
+  const currentList = lists?.find((list) => list.id === listId);
+  const heading =
+    listId === 'inbox' ? 'Inbox' : (currentList?.name ?? 'My Todos');
+  // Viewers of a shared list can't add to it or change its todos
+  const canAdd = !currentList || hasRole(currentList.role, 'editor');
+  const canSave = !editingTodo || hasRole(editingTodo.role, 'editor');
+
+  const formFields = (): UpdateTodoInput & { title: string } => ({
+    title,
+    description,
+    priority,
+    important,
+    completeSubtasks,
+    tagIds,
+    dueAt: dueDate ? (dueTime ? `${dueDate}T${dueTime}` : dueDate) : null,
+    remindAt: remindAt || null,
+    recurrence: dueDate ? recurrence : null,
+  });
+
+  const saveEdit = async (todo: TodoWithDetails, updates: UpdateTodoInput) => {
+    try {
+      await updateTodo(todo, updates);
       setIsOpen(false);
-      setTitle('');
-      setDescription('');
-      setEditingTodo(null);
+      resetForm();
     } catch (error) {
+      if (error instanceof ApiError && error.status === 412 && error.current) {
+        setConflict(error.current);
+        return;
+      }
       console.error('Error saving todo:', error);
+      setFormError(
+        error instanceof Error ? error.message : 'Failed to save todo',
+      );
     }
   };
 
-  const handleEdit = (todo: Todo) => {
-    setEditingTodo(todo);
-    setTitle(todo.title);
-    setDescription(todo.description || '');
-    setIsOpen(true);
-  };
-
-  const handleToggle = async (todo: Todo) => {
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    if (editingTodo) {
+      await saveEdit(editingTodo, formFields());
+      return;
+    }
     try {
-      await updateTodo(todo.id, { completed: !todo.completed });
+      await createTodo({ ...formFields(), listId: currentList?.id });
+      setIsOpen(false);
+      resetForm();
     } catch (error) {
-      console.error('Error toggling todo:', error);
+      console.error('Error saving todo:', error);
+      setFormError(
+        error instanceof Error ? error.message : 'Failed to save todo',
+      );
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (confirm('Are you sure you want to delete this todo?')) {
-      try {
-        await deleteTodo(id);
-      } catch (error) {
-        console.error('Error deleting todo:', error);
-      }
+  // Fields this edit and the other change touched, compared with the todo
+  // as it was when the dialog opened
+  const yourFields =
+    editingTodo &&
+    changedFields(todoFormFields(editingTodo, timeZone), formFields());
+  const theirFields =
+    editingTodo &&
+    conflict &&
+    changedFields(
+      todoFormFields(editingTodo, timeZone),
+      todoFormFields(conflict, timeZone),
+    );
+
+  // Applies only the fields this edit changed on top of the other change
+  const handleMerge = () => {
+    if (!conflict || !yourFields) {
+      return;
     }
+    const fields = formFields();
+    setConflict(null);
+    saveEdit(
+      conflict,
+      Object.fromEntries(yourFields.map((field) => [field, fields[field]])),
+    );
   };
 
-  const openCreateModal = () => {
+  const handleOverwrite = () => {
+    if (!conflict) {
+      return;
+    }
+    setConflict(null);
+    saveEdit(conflict, formFields());
+  };
+
+  const resetForm = () => {
+    setFormError(null);
+    setConflict(null);
     setEditingTodo(null);
     setTitle('');
     setDescription('');
+    setDueDate('');
+    setDueTime('');
+    setRemindAt('');
+    setRecurrence(null);
+    setPriority('none');
+    setImportant(false);
+    setCompleteSubtasks(false);
+    setTagIds([]);
+  };
+
+  const handleEdit = (todo: TodoWithDetails) => {
+    setFormError(null);
+    setConflict(null);
+    setEditingTodo(todo);
+    setTitle(todo.title);
+    setDescription(todo.description || '');
+    if (todo.dueAt) {
+      const due = formatZonedInput(new Date(todo.dueAt), timeZone);
+      setDueDate(due.date);
+      setDueTime(todo.dueHasTime ? due.time : '');
+    } else {
+      setDueDate('');
+      setDueTime('');
+    }
+    if (todo.remindAt) {
+      const remind = formatZonedInput(new Date(todo.remindAt), timeZone);
+      setRemindAt(`${remind.date}T${remind.time}`);
+    } else {
+      setRemindAt('');
+    }
+    setRecurrence(todo.recurrence);
+    setPriority(todo.priority);
+    setImportant(todo.important);
+    setCompleteSubtasks(todo.completeSubtasks);
+    setTagIds(todo.tagIds);
+    setIsOpen(true);
+  };
+
+  const openCreateModal = () => {
+    resetForm();
     setIsOpen(true);
   };
 
@@ -70,18 +354,117 @@ export default function TodoList() {
   }
 
   return (
-    <div className="max-w-4xl mx-auto p-6">
+    <div className="max-w-4xl mx-auto">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-          My Todos
+          {heading}
         </h1>
+        {canAdd && (
+          <button
+            type="button"
+            onClick={openCreateModal}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Add Todo
+          </button>
+        )}
+      </div>
+
+      {currentList && (
+        <ListMembers
+          key={currentList.id}
+          list={currentList}
+          onLeave={() => onLeaveList?.()}
+        />
+      )}
+
+      <SearchBox onSelect={handleEdit} />
+
+      <div
+        className="flex gap-2 mb-6"
+        role="tablist"
+        aria-label="Due date views"
+      >
+        {VIEW_TABS.map((tab) => (
+          <button
+            key={tab.label}
+            type="button"
+            role="tab"
+            aria-selected={view === tab.view}
+            onClick={() => setView(tab.view)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+              view === tab.view
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <TagFilterBar
+        selectedTagIds={filterTagIds}
+        onSelectedTagIdsChange={setFilterTagIds}
+        match={tagMatch}
+        onMatchChange={setTagMatch}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <label htmlFor="todo-status" className="sr-only">
+          Status
+        </label>
+        <select
+          id="todo-status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as typeof status)}
+          className={controlClassName}
+        >
+          <option value="all">All</option>
+          <option value="open">Open</option>
+          <option value="done">Completed</option>
+        </select>
+        <label htmlFor="todo-sort" className="sr-only">
+          Sort by
+        </label>
+        <select
+          id="todo-sort"
+          value={sort ?? ''}
+          onChange={(e) => setSort((e.target.value as TodoSort) || null)}
+          className={controlClassName}
+        >
+          <option value="">Manual order</option>
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.sort} value={option.sort}>
+              {option.label}
+            </option>
+          ))}
+        </select>
         <button
           type="button"
-          onClick={openCreateModal}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          onClick={() => setOrder(order === 'asc' ? 'desc' : 'asc')}
+          aria-label={order === 'asc' ? 'Ascending' : 'Descending'}
+          className={controlClassName}
         >
-          Add Todo
+          {order === 'asc' ? '↑' : '↓'}
         </button>
+        <div className="ml-auto inline-flex rounded-md shadow-sm">
+          {(['list', 'matrix'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setLayout(option)}
+              aria-pressed={layout === option}
+              className={`text-sm px-3 py-1 border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md ${
+                layout === option
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {option === 'list' ? 'List' : 'Matrix'}
+            </button>
+          ))}
+        </div>
       </div>
 
       {isLoading ? (
@@ -90,65 +473,69 @@ export default function TodoList() {
         </div>
       ) : todos && todos.length > 0 ? (
         <div className="space-y-3">
-          {todos.map((todo) => (
-            <div
-              key={todo.id}
-              className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex items-center gap-4 hover:shadow-md transition-shadow"
-            >
-              <input
-                type="checkbox"
-                checked={todo.completed}
-                onChange={() => handleToggle(todo)}
-                className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500 focus:ring-2 cursor-pointer"
-              />
-              <div className="flex-1">
-                <h3
-                  className={`font-medium ${
-                    todo.completed
-                      ? 'line-through text-gray-500 dark:text-gray-400'
-                      : 'text-gray-900 dark:text-white'
-                  }`}
-                >
-                  {todo.title}
-                </h3>
-                {todo.description && (
-                  <p
-                    className={`text-sm mt-1 ${
-                      todo.completed
-                        ? 'line-through text-gray-400 dark:text-gray-500'
-                        : 'text-gray-600 dark:text-gray-300'
-                    }`}
-                  >
-                    {todo.description}
-                  </p>
-                )}
-              </div>
-              <button
-                type="button"
-                onClick={() => handleEdit(todo)}
-                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 px-3 py-1 rounded hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
-              >
-                Edit
-              </button>
+          {layout === 'list' && selection.length > 0 && (
+            <BulkActionBar
+              selectedTodos={todos.filter((todo) =>
+                selection.includes(todo.id),
+              )}
+              lists={lists}
+              onClear={clearSelection}
+            />
+          )}
+          {layout === 'matrix' ? (
+            <EisenhowerMatrix
+              todos={todos}
+              timeZone={timeZone}
+              onEdit={handleEdit}
+            />
+          ) : (
+            <ReorderableList
+              items={todos}
+              disabled={!canReorder}
+              isLocked={(todo) => !hasRole(todo.role, 'editor')}
+              onReorder={handleReorder}
+              renderItem={(todo, handle) => (
+                <TodoItem
+                  todo={todo}
+                  lists={lists}
+                  tags={tags}
+                  timeZone={timeZone}
+                  onEdit={handleEdit}
+                  dragHandle={handle}
+                  selected={selection.includes(todo.id)}
+                  onSelect={(range) => handleSelect(todo, range)}
+                />
+              )}
+            />
+          )}
+          {hasMore && (
+            <div ref={sentinelRef} className="text-center py-4">
               <button
                 type="button"
-                onClick={() => handleDelete(todo.id)}
-                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-50"
               >
-                Delete
+                {isLoadingMore ? 'Loading...' : 'Load more'}
               </button>
             </div>
-          ))}
+          )}
         </div>
       ) : (
         <div className="text-center py-12">
-          <button
-            type="button"
-            onClick={openCreateModal}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-          >
-            Create Todo
-          </button>
+          {canAdd ? (
+            <button
+              type="button"
+              onClick={openCreateModal}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Create Todo
+            </button>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">
+              This list has no todos yet.
+            </p>
+          )}
         </div>
       )}
 
@@ -177,6 +564,7 @@ export default function TodoList() {
                   value={title}
                   onChange={(e) => setTitle(e.target.value)}
                   required
+                  maxLength={TITLE_MAX_LENGTH}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
                   placeholder="Enter todo title"
                 />
@@ -192,19 +580,173 @@ export default function TodoList() {
                   id="description"
                   value={description}
                   onChange={(e) => setDescription(e.target.value)}
+                  maxLength={DESCRIPTION_MAX_LENGTH}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
                   placeholder="Enter todo description"
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label
+                    htmlFor="dueDate"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                  >
+                    Due date
+                  </label>
+                  <input
+                    id="dueDate"
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="dueTime"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                  >
+                    Time (optional)
+                  </label>
+                  <input
+                    id="dueTime"
+                    type="time"
+                    value={dueTime}
+                    onChange={(e) => setDueTime(e.target.value)}
+                    disabled={!dueDate}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                  />
+                </div>
+              </div>
+              <div>
+                <label
+                  htmlFor="remindAt"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Reminder (optional)
+                </label>
+                <input
+                  id="remindAt"
+                  type="datetime-local"
+                  value={remindAt}
+                  onChange={(e) => setRemindAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Times are in {timeZone}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3 items-end">
+                <div>
+                  <label
+                    htmlFor="priority"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                  >
+                    Priority
+                  </label>
+                  <select
+                    id="priority"
+                    value={priority}
+                    onChange={(e) => setPriority(e.target.value as Priority)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    {PRIORITIES.map((level) => (
+                      <option key={level} value={level}>
+                        {PRIORITY_LABELS[level]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2 py-2">
+                  <input
+                    id="important"
+                    type="checkbox"
+                    checked={important}
+                    onChange={(e) => setImportant(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <label
+                    htmlFor="important"
+                    className="text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    Important
+                  </label>
+                </div>
+              </div>
+              <RecurrencePicker
+                value={recurrence}
+                onChange={setRecurrence}
+                dueDate={dueDate}
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  id="completeSubtasks"
+                  type="checkbox"
+                  checked={completeSubtasks}
+                  onChange={(e) => setCompleteSubtasks(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 focus:ring-2"
+                />
+                <label
+                  htmlFor="completeSubtasks"
+                  className="text-sm text-gray-700 dark:text-gray-300"
+                >
+                  Completing this todo also completes its subtasks
+                </label>
+              </div>
+              {tags && tags.length > 0 && (
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Tags
+                  </legend>
+                  <div className="flex flex-wrap gap-1">
+                    {tags.map((tag) => (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() =>
+                          setTagIds(
+                            tagIds.includes(tag.id)
+                              ? tagIds.filter((id) => id !== tag.id)
+                              : [...tagIds, tag.id],
+                          )
+                        }
+                        aria-pressed={tagIds.includes(tag.id)}
+                      >
+                        <TagChip tag={tag} active={tagIds.includes(tag.id)} />
+                      </button>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+              {editingTodo && (
+                <TodoHistory todo={editingTodo} timeZone={timeZone} />
+              )}
+              {conflict && yourFields && theirFields && (
+                <EditConflict
+                  yourFields={yourFields}
+                  theirFields={theirFields}
+                  onMerge={handleMerge}
+                  onOverwrite={handleOverwrite}
+                  onDiscard={() => handleEdit(conflict)}
+                />
+              )}
+              {formError && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {formError}
+                </p>
+              )}
+              {!canSave && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  You have view access to this todo.
+                </p>
+              )}
               <div className="flex justify-end gap-3 mt-6">
                 <button
                   type="button"
                   onClick={() => {
                     setIsOpen(false);
-                    setEditingTodo(null);
-                    setTitle('');
-                    setDescription('');
+                    resetForm();
                   }}
                   className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
                 >
@@ -212,7 +754,8 @@ export default function TodoList() {
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                  disabled={!canSave || conflict !== null}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
                 >
                   {editingTodo ? 'Update' : 'Create'}
                 </button>
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { purgeTodo, restoreTodo, useTrash } from '@/hooks/useTodos';
+import { useSession } from '@/lib/auth-client';
+import { DEFAULT_TIMEZONE, formatDue } from '@/lib/dates';
+import { TRASH_RETENTION_DAYS, trashExpiresAt } from '@/lib/retention';
+import { hasRole } from '@/lib/roles';
+import type { TrashedTodo } from '@/lib/trash';
+
+export default function TrashView() {
+  const { todos, isLoading, isError } = useTrash();
+  const { data: session } = useSession();
+  // The todo whose "Delete forever" is waiting for a second click
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeZone = session?.user.timezone || DEFAULT_TIMEZONE;
+
+  const handleRestore = async (id: string) => {
+    setError(null);
+    try {
+      await restoreTodo(id);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to restore todo',
+      );
+    }
+  };
+
+  const handlePurge = async (todo: TrashedTodo) => {
+    if (confirmingId !== todo.id) {
+      setConfirmingId(todo.id);
+      return;
+    }
+    setConfirmingId(null);
+    try {
+      await purgeTodo(todo);
+    } catch (error) {
+      console.error('Error deleting todo:', error);
+    }
+  };
+
+  if (isError) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-500">Failed to load the trash.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+        Trash
+      </h1>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-8">
+        Todos are deleted for good {TRASH_RETENTION_DAYS} days after they are
+        moved here.
+      </p>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+      {isLoading ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">Loading trash...</p>
+        </div>
+      ) : todos && todos.length > 0 ? (
+        <ul className="space-y-3">
+          {todos.map((todo) => (
+            <li
+              key={todo.id}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex items-center gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="font-medium text-gray-900 dark:text-white truncate">
+                  {todo.title}
+                </h3>
+                <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+                  {todo.parentTitle && `Subtask of ${todo.parentTitle} · `}
+                  {todo.deletedAt &&
+                    `Deleted ${formatDue(new Date(todo.deletedAt), true, timeZone)} · deleted for good ${formatDue(trashExpiresAt(new Date(todo.deletedAt)), false, timeZone)}`}
+                </p>
+              </div>
+              {hasRole(todo.role, 'editor') && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(todo.id)}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 px-3 py-1 rounded hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handlePurge(todo)}
+                    onBlur={() => setConfirmingId(null)}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  >
+                    {confirmingId === todo.id
+                      ? 'Click again to confirm'
+                      : 'Delete forever'}
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">
+            The trash is empty.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { twoFactor } from '@/lib/auth-client';
+import AuthPage, { authButtonClassName, authInputClassName } from './AuthPage';
+
+// The second step of a password sign-in for accounts with two-factor
+// authentication: a code from the app, or a backup code
+export default function TwoFactorChallenge() {
+  const router = useRouter();
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [error, setError] = useState('');
+  // The pending sign-in has expired and has to start over
+  const [expired, setExpired] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    const body = { code: code.trim(), trustDevice };
+    const result = useBackupCode
+      ? await twoFactor.verifyBackupCode(body)
+      : await twoFactor.verifyTotp(body);
+    setLoading(false);
+    if (result.error) {
+      if (result.error.code === 'INVALID_TWO_FACTOR_COOKIE') {
+        setExpired(true);
+        return;
+      }
+      setError(
+        useBackupCode
+          ? "That backup code isn't valid or was already used."
+          : "That code didn't match. Try the next code from your app.",
+      );
+      return;
+    }
+    router.push('/');
+    router.refresh();
+  };
+
+  if (expired) {
+    return (
+      <AuthPage title="Sign-in timed out">
+        <div className="text-red-500 text-sm text-center">
+          Your sign-in took too long. Sign in again to get a new code prompt.
+        </div>
+        <p className="text-center text-sm">
+          <Link
+            href="/"
+            className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+          >
+            Sign in
+          </Link>
+        </p>
+      </AuthPage>
+    );
+  }
+
+  return (
+    <AuthPage title="Two-factor authentication">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved. Each code works once.'
+            : 'Enter the six-digit code from your authenticator app.'}
+        </p>
+        <div>
+          <label htmlFor="code" className="sr-only">
+            {useBackupCode ? 'Backup code' : 'Code'}
+          </label>
+          <input
+            id="code"
+            type="text"
+            autoComplete="one-time-code"
+            inputMode={useBackupCode ? 'text' : 'numeric'}
+            required
+            className={authInputClassName}
+            placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={trustDevice}
+            onChange={(e) => setTrustDevice(e.target.checked)}
+          />
+          Trust this device for 30 days
+        </label>
+        {error && (
+          <div className="text-red-500 text-sm text-center">{error}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className={authButtonClassName}
+        >
+          {loading ? 'Checking...' : 'Verify'}
+        </button>
+      </form>
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseBackupCode(!useBackupCode);
+            setCode('');
+            setError('');
+          }}
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          {useBackupCode ? 'Use your authenticator app' : 'Use a backup code'}
+        </button>
+        <Link
+          href="/"
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          Back to sign in
+        </Link>
+      </div>
+    </AuthPage>
+  );
+}
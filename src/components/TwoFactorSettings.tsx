@@ -0,0 +1,254 @@
+'use client';
+
+import { useState } from 'react';
+import { twoFactor, useSession } from '@/lib/auth-client';
+import BackupCodes from './BackupCodes';
+import QrCode from './QrCode';
+
+type PasswordAction = 'enable' | 'regenerate' | 'disable';
+
+const ACTION_LABELS: Record<PasswordAction, string> = {
+  enable: 'Continue',
+  regenerate: 'Get new backup codes',
+  disable: 'Turn off',
+};
+
+// The secret in groups of four, for typing into an app by hand
+const formatSecret = (totpURI: string) =>
+  (new URL(totpURI).searchParams.get('secret') ?? '')
+    .match(/.{1,4}/g)
+    ?.join(' ') ?? '';
+
+export default function TwoFactorSettings() {
+  const { data: session } = useSession();
+  // The change waiting for the user's password
+  const [action, setAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState('');
+  // An app being set up, until its first code is confirmed
+  const [setup, setSetup] = useState<{
+    totpURI: string;
+    backupCodes: string[];
+  } | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const enabled = Boolean(session?.user.twoFactorEnabled);
+
+  const startAction = (next: PasswordAction) => {
+    setAction(next);
+    setPassword('');
+    setError(null);
+  };
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) {
+      return;
+    }
+    if (
+      action === 'disable' &&
+      !confirm(
+        'Turn off two-factor authentication? Signing in will only need your password.',
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      if (action === 'enable') {
+        const result = await twoFactor.enable({ password });
+        if (result.error) {
+          throw new Error(result.error.message);
+        }
+        setSetup(result.data);
+        setCode('');
+      } else if (action === 'regenerate') {
+        const result = await twoFactor.generateBackupCodes({ password });
+        if (result.error) {
+          throw new Error(result.error.message);
+        }
+        setBackupCodes(result.data.backupCodes);
+      } else {
+        const result = await twoFactor.disable({ password });
+        if (result.error) {
+          throw new Error(result.error.message);
+        }
+      }
+      setAction(null);
+    } catch (error) {
+      setError(
+        error instanceof Error && error.message
+          ? error.message
+          : 'Failed to update two-factor authentication',
+      );
+    } finally {
+      setPassword('');
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!setup) {
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    const result = await twoFactor.verifyTotp({ code: code.trim() });
+    setLoading(false);
+    if (result.error) {
+      setError(
+        "That code didn't match. Check the time on your device and try the next code.",
+      );
+      return;
+    }
+    setBackupCodes(setup.backupCodes);
+    setSetup(null);
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Two-factor authentication
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Ask for a code from an authenticator app, such as 1Password, Google
+        Authenticator or Authy, when signing in with your password.
+      </p>
+
+      {backupCodes && (
+        <div className="mb-4">
+          <BackupCodes
+            codes={backupCodes}
+            onDone={() => setBackupCodes(null)}
+          />
+        </div>
+      )}
+
+      {setup ? (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Scan this code with your authenticator app, then enter the six-digit
+            code it shows.
+          </p>
+          <QrCode value={setup.totpURI} label="Authenticator setup code" />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Can't scan it? Enter this key instead:{' '}
+            <code className="text-gray-900 dark:text-white">
+              {formatSecret(setup.totpURI)}
+            </code>
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              maxLength={6}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              aria-label="Code from your app"
+              className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Turn on
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null);
+                setError(null);
+              }}
+              className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : action ? (
+        <form onSubmit={handlePassword} className="flex items-center gap-2">
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Your password"
+            aria-label="Your password"
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className={`px-4 py-2 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50 ${
+              action === 'disable'
+                ? 'bg-red-600 hover:bg-red-700'
+                : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {ACTION_LABELS[action]}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setAction(null);
+              setError(null);
+            }}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div className="flex items-center gap-4">
+          <p className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            {enabled ? 'On' : 'Off'}
+          </p>
+          {enabled ? (
+            <>
+              <button
+                type="button"
+                onClick={() => startAction('regenerate')}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                New backup codes
+              </button>
+              <button
+                type="button"
+                onClick={() => startAction('disable')}
+                className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Turn off
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => startAction('enable')}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Turn on
+            </button>
+          )}
+        </div>
+      )}
+      {action && !setup && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Enter your password to continue.
+        </p>
+      )}
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </section>
+  );
+}
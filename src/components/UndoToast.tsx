@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { undoTodoChange } from '@/hooks/useTodos';
+import { dismissUndo, useUndoOffer } from '@/hooks/useUndo';
+
+const TOAST_DURATION_MS = 8000;
+
+export default function UndoToast() {
+  const offer = useUndoOffer();
+  const [error, setError] = useState<string | null>(null);
+
+  // Each new offer restarts the timer
+  useEffect(() => {
+    setError(null);
+    if (!offer) {
+      return;
+    }
+    const timer = setTimeout(dismissUndo, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [offer]);
+
+  if (!offer) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    try {
+      await undoTodoChange(offer.todoId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to undo');
+    }
+  };
+
+  return (
+    <div
+      aria-live="polite"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-gray-900 dark:bg-gray-700 text-white text-sm rounded-lg shadow-lg px-4 py-3"
+    >
+      <span>{error ?? offer.message}</span>
+      {!error && (
+        <button
+          type="button"
+          onClick={handleUndo}
+          className="font-medium text-blue-300 hover:text-blue-200"
+        >
+          Undo
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={dismissUndo}
+        aria-label="Dismiss"
+        className="text-gray-400 hover:text-gray-200"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { sendVerificationEmail } from '@/lib/auth-client';
+
+interface VerifyEmailBannerProps {
+  email: string;
+}
+
+// Reminds users who signed up before verification was required, or while
+// it isn't, to confirm their address
+export default function VerifyEmailBanner({ email }: VerifyEmailBannerProps) {
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleResend = async () => {
+    setError('');
+    setLoading(true);
+    const result = await sendVerificationEmail({
+      email,
+      callbackURL: '/verify-email',
+    });
+    setLoading(false);
+    if (result.error) {
+      setError(result.error.message || 'Failed to send verification email');
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 text-sm">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-3">
+        <span>
+          {sent
+            ? `We've sent a verification link to ${email}.`
+            : `${email} hasn't been verified yet.`}
+        </span>
+        {!sent && (
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={loading}
+            className="font-medium underline disabled:opacity-50"
+          >
+            {loading ? 'Sending...' : 'Send link'}
+          </button>
+        )}
+        {error && (
+          <span role="alert" className="text-red-600 dark:text-red-400">
+            {error}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { sendVerificationEmail, useSession } from '@/lib/auth-client';
+import { AUTH_LINK_LIFETIMES, describeLifetime } from '@/lib/auth-emails';
+import AuthPage, { authButtonClassName, authInputClassName } from './AuthPage';
+
+interface VerifyEmailResultProps {
+  // Why the verification link didn't work, when it didn't
+  error: string | null;
+}
+
+// Where verification links land, and where new ones are asked for
+export default function VerifyEmailResult({ error }: VerifyEmailResultProps) {
+  const { data: session, isPending } = useSession();
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [sendError, setSendError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  if (isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!error && session?.user.emailVerified) {
+    return (
+      <AuthPage title="Email verified">
+        <p
+          role="alert"
+          className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+        >
+          Thanks, {session.user.email} is verified.
+        </p>
+        <p className="text-center text-sm">
+          <Link
+            href="/"
+            className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+          >
+            Go to your todos
+          </Link>
+        </p>
+      </AuthPage>
+    );
+  }
+
+  const address = session?.user.email ?? email;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSendError('');
+    setLoading(true);
+    const result = await sendVerificationEmail({
+      email: address,
+      callbackURL: '/verify-email',
+    });
+    setLoading(false);
+    if (result.error) {
+      setSendError(result.error.message || 'Failed to send verification email');
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <AuthPage title="Verify your email">
+      {error ? (
+        <div className="text-red-500 text-sm text-center">{error}</div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          We've sent you a link to confirm your email address. It expires in{' '}
+          {describeLifetime(AUTH_LINK_LIFETIMES.verification)}.
+        </p>
+      )}
+      {sent ? (
+        <p
+          role="alert"
+          className="rounded-md bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-800 dark:text-green-300"
+        >
+          If {address} has an account that still needs verifying, a new link is
+          on its way.
+        </p>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          {!session && (
+            <div>
+              <label htmlFor="email" className="sr-only">
+                Email address
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                className={authInputClassName}
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+          )}
+          {sendError && (
+            <div className="text-red-500 text-sm text-center">{sendError}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className={authButtonClassName}
+          >
+            {loading ? 'Sending...' : 'Send a new link'}
+          </button>
+        </form>
+      )}
+      <p className="text-center text-sm">
+        <Link
+          href="/"
+          className="text-blue-600 hover:text-blue-500 dark:text-blue-400"
+        >
+          {session ? 'Back to your todos' : 'Back to sign in'}
+        </Link>
+      </p>
+    </AuthPage>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { redeliverWebhook, useWebhookDeliveries } from '@/hooks/useWebhooks';
+import type { WebhookDeliveryStatus } from '@/lib/webhook-schemas';
+
+const STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-amber-600 dark:text-amber-400',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+  });
+
+interface WebhookDeliveriesProps {
+  webhookId: string;
+}
+
+// A webhook's delivery log with the outcome of each delivery's latest attempt
+export default function WebhookDeliveries({
+  webhookId,
+}: WebhookDeliveriesProps) {
+  const { deliveries, isLoading, isError } = useWebhookDeliveries(webhookId);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRedeliver = async (deliveryId: string) => {
+    setError(null);
+    try {
+      await redeliverWebhook(webhookId, deliveryId);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to redeliver webhook',
+      );
+    }
+  };
+
+  if (isError) {
+    return <p className="text-sm text-red-500">Failed to load deliveries.</p>;
+  }
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading deliveries...
+      </p>
+    );
+  }
+  if (!deliveries || deliveries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Nothing has been delivered yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <ul className="space-y-2">
+        {deliveries.map((delivery) => (
+          <li
+            key={delivery.id}
+            className="text-xs text-gray-600 dark:text-gray-300 flex items-start gap-3"
+          >
+            <div className="flex-1 min-w-0">
+              <p>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {delivery.event}
+                </span>{' '}
+                · {formatTime(delivery.createdAt)} ·{' '}
+                <span className={STATUS_CLASSES[delivery.status]}>
+                  {delivery.status}
+                </span>
+                {delivery.attempts > 0 &&
+                  ` after ${delivery.attempts} ${delivery.attempts === 1 ? 'attempt' : 'attempts'}`}
+                {delivery.status === 'pending' &&
+                  delivery.nextAttemptAt &&
+                  `, next ${formatTime(delivery.nextAttemptAt)}`}
+              </p>
+              {delivery.lastAttemptAt && (
+                <p className="truncate text-gray-500 dark:text-gray-400">
+                  {delivery.responseStatus ?? 'No response'}
+                  {delivery.response && ` · ${delivery.response}`}
+                </p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRedeliver(delivery.id)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Redeliver
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
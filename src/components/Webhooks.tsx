@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  createWebhook,
+  deleteWebhook,
+  updateWebhook,
+  useWebhooks,
+} from '@/hooks/useWebhooks';
+import {
+  type CreatedWebhook,
+  WEBHOOK_EVENTS,
+  WEBHOOK_SECRET_MIN_LENGTH,
+  type WebhookEvent,
+} from '@/lib/webhook-schemas';
+import WebhookDeliveries from './WebhookDeliveries';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function Webhooks() {
+  const { webhooks, isLoading, isError } = useWebhooks();
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([
+    'todo.created',
+    'todo.completed',
+  ]);
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // The webhook just created, whose secret is shown until dismissed
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  // The webhook whose delivery log is open
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) =>
+      current.includes(event)
+        ? current.filter((value) => value !== event)
+        : [...current, event],
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const webhook = await createWebhook({
+        url,
+        events,
+        secret: secret || undefined,
+      });
+      setCreated(webhook);
+      setUrl('');
+      setSecret('');
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to create webhook',
+      );
+    }
+  };
+
+  const handleToggleActive = async (id: string, active: boolean) => {
+    setError(null);
+    try {
+      await updateWebhook(id, { active });
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to update webhook',
+      );
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this webhook and its delivery log?')) {
+      return;
+    }
+    setError(null);
+    try {
+      await deleteWebhook(id);
+      if (created?.id === id) {
+        setCreated(null);
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to delete webhook',
+      );
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+        Webhooks
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        Get a signed POST request when todos you can see change. Failed
+        deliveries are retried with increasing delays.
+      </p>
+
+      {created && (
+        <div
+          role="alert"
+          className="mb-4 rounded-md border border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/30 p-3 text-sm space-y-2"
+        >
+          <p className="text-gray-700 dark:text-gray-300">
+            Use this secret to check the X-Webhook-Signature header. You won't
+            be able to see it again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-white dark:bg-gray-900 px-2 py-1 text-gray-900 dark:text-white">
+              {created.secret}
+            </code>
+            <button
+              type="button"
+              onClick={() => setCreated(null)}
+              className="text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3 mb-6">
+        <div>
+          <label
+            htmlFor="webhook-url"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Payload URL
+          </label>
+          <input
+            id="webhook-url"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/todos"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Events
+          </legend>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label
+                key={event}
+                className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div>
+          <label
+            htmlFor="webhook-secret"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Secret
+          </label>
+          <input
+            id="webhook-secret"
+            type="text"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            minLength={WEBHOOK_SECRET_MIN_LENGTH}
+            placeholder="Leave empty to generate one"
+            className={inputClassName}
+          />
+        </div>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        <button
+          type="submit"
+          disabled={!url || events.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add webhook
+        </button>
+      </form>
+
+      {isError ? (
+        <p className="text-sm text-red-500">Failed to load webhooks.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Loading webhooks...
+        </p>
+      ) : webhooks && webhooks.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="py-3 space-y-3">
+              <div className="flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {webhook.url}
+                  </p>
+                  <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+                    {webhook.events.join(', ')}
+                    {!webhook.active && ' · Paused'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setOpenId(openId === webhook.id ? null : webhook.id)
+                  }
+                  aria-expanded={openId === webhook.id}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Deliveries
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleToggleActive(webhook.id, !webhook.active)
+                  }
+                  className="text-sm text-gray-600 dark:text-gray-300 hover:underline"
+                >
+                  {webhook.active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(webhook.id)}
+                  className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+              {openId === webhook.id && (
+                <WebhookDeliveries webhookId={webhook.id} />
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          You have no webhooks.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import type { AccountDeletionStatus } from '@/lib/account-schemas';
+import { fetchJson } from '@/lib/api';
+import {
+  listAccounts,
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+  unlinkAccount,
+} from '@/lib/auth-client';
+
+// Sessions and sign-in methods come from the auth client rather than the
+// app's API, so their keys only name the cache entries
+const SESSIONS_KEY = 'auth:sessions';
+const ACCOUNTS_KEY = 'auth:accounts';
+const DELETION_KEY = '/api/account/deletion';
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+// The auth client reports errors instead of throwing them
+async function unwrap<T>(
+  request: Promise<{ data: T | null; error: { message?: string } | null }>,
+  fallback: string,
+): Promise<T> {
+  const { data, error } = await request;
+  if (error || data === null) {
+    throw new Error(error?.message || fallback);
+  }
+  return data;
+}
+
+export function useSessions() {
+  const { data, error, isLoading } = useSWR(SESSIONS_KEY, () =>
+    unwrap(listSessions(), 'Failed to fetch sessions'),
+  );
+
+  return {
+    sessions: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export function useLinkedAccounts() {
+  const { data, error, isLoading } = useSWR(ACCOUNTS_KEY, () =>
+    unwrap(listAccounts(), 'Failed to fetch sign-in methods'),
+  );
+
+  return {
+    accounts: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function revokeDeviceSession(token: string) {
+  await unwrap(revokeSession({ token }), 'Failed to sign out device');
+  mutate(SESSIONS_KEY);
+}
+
+export async function revokeOtherDeviceSessions() {
+  await unwrap(revokeOtherSessions(), 'Failed to sign out other devices');
+  mutate(SESSIONS_KEY);
+}
+
+export async function unlinkProvider(providerId: string) {
+  await unwrap(unlinkAccount({ providerId }), 'Failed to disconnect account');
+  mutate(ACCOUNTS_KEY);
+}
+
+// Password changes can sign out other sessions
+export function revalidateSessions() {
+  mutate(SESSIONS_KEY);
+}
+
+export async function scheduleAccountDeletion(password?: string) {
+  const status = await fetchJson<AccountDeletionStatus>(
+    DELETION_KEY,
+    jsonRequest('POST', { password }),
+    'Failed to delete account',
+  );
+  mutate(SESSIONS_KEY);
+  return status;
+}
+
+export async function cancelAccountDeletion() {
+  return fetchJson<AccountDeletionStatus>(
+    DELETION_KEY,
+    { method: 'DELETE' },
+    'Failed to cancel account deletion',
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { fetchJson } from '@/lib/api';
+import type {
+  ApiTokenSummary,
+  CreateApiTokenInput,
+  CreatedApiToken,
+} from '@/lib/api-token-schemas';
+import type { MessageResponse } from '@/lib/todo-schemas';
+
+const TOKENS_KEY = '/api/tokens';
+
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+export function useApiTokens() {
+  const { data, error, isLoading } = useSWR<ApiTokenSummary[]>(
+    TOKENS_KEY,
+    fetcher,
+  );
+
+  return {
+    tokens: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+// The returned token carries its secret, which can't be fetched again
+export async function createApiToken(input: CreateApiTokenInput) {
+  const token = await fetchJson<CreatedApiToken>(
+    TOKENS_KEY,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    },
+    'Failed to create API token',
+  );
+  mutate(TOKENS_KEY);
+  return token;
+}
+
+export async function revokeApiToken(id: string) {
+  const response = await fetchJson<MessageResponse>(
+    `${TOKENS_KEY}/${id}`,
+    { method: 'DELETE' },
+    'Failed to revoke API token',
+  );
+  mutate(TOKENS_KEY);
+  return response;
+}
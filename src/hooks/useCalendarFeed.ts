@@ -0,0 +1,47 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { fetchJson } from '@/lib/api';
+import type {
+  CalendarFeedStatus,
+  CreatedCalendarFeed,
+} from '@/lib/calendar-schemas';
+import type { MessageResponse } from '@/lib/todo-schemas';
+
+const CALENDAR_KEY = '/api/calendar';
+
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+export function useCalendarFeed() {
+  const { data, error, isLoading } = useSWR<CalendarFeedStatus>(
+    CALENDAR_KEY,
+    fetcher,
+  );
+
+  return {
+    feed: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+// Turns the feed on or replaces its URL; the token can't be fetched again
+export async function rotateCalendarFeed() {
+  const feed = await fetchJson<CreatedCalendarFeed>(
+    CALENDAR_KEY,
+    { method: 'POST' },
+    'Failed to create calendar feed',
+  );
+  mutate(CALENDAR_KEY);
+  return feed;
+}
+
+export async function revokeCalendarFeed() {
+  const response = await fetchJson<MessageResponse>(
+    CALENDAR_KEY,
+    { method: 'DELETE' },
+    'Failed to turn off calendar feed',
+  );
+  mutate(CALENDAR_KEY);
+  return response;
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { fetchJson } from '@/lib/api';
+import type { List, ListMember } from '@/lib/db/schema';
+import type { ListMemberDetails, ListWithRole } from '@/lib/lists';
+import type { ListRole } from '@/lib/roles';
+import type { MessageResponse } from '@/lib/todo-schemas';
+import { revalidateTodos } from './useTodos';
+
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+export function useLists() {
+  const { data, error, isLoading } = useSWR<ListWithRole[]>(
+    '/api/lists',
+    fetcher,
+  );
+
+  return {
+    lists: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function createList(name: string, color?: string) {
+  const newList = await fetchJson<ListWithRole>(
+    '/api/lists',
+    jsonRequest('POST', { name, color }),
+    'Failed to create list',
+  );
+  mutate('/api/lists');
+  return newList;
+}
+
+export async function updateList(
+  id: string,
+  updates: {
+    name?: string;
+    color?: string | null;
+    sortOrder?: number;
+    archived?: boolean;
+  },
+) {
+  const updatedList = await fetchJson<List>(
+    `/api/lists/${id}`,
+    jsonRequest('PATCH', updates),
+    'Failed to update list',
+  );
+  mutate('/api/lists');
+  return updatedList;
+}
+
+export async function deleteList(id: string) {
+  const response = await fetchJson<MessageResponse>(
+    `/api/lists/${id}`,
+    { method: 'DELETE' },
+    'Failed to delete list',
+  );
+  mutate('/api/lists');
+  // Todos of the deleted list fall back to the inbox
+  revalidateTodos();
+  return response;
+}
+
+export function useListMembers(listId: string) {
+  const { data, error, isLoading } = useSWR<ListMemberDetails[]>(
+    `/api/lists/${listId}/members`,
+    fetcher,
+  );
+
+  return {
+    members: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+// Rejects with the server's message, e.g. when no user has that email
+export async function inviteMember(
+  listId: string,
+  email: string,
+  role: ListRole,
+) {
+  const member = await fetchJson<ListMemberDetails>(
+    `/api/lists/${listId}/members`,
+    jsonRequest('POST', { email, role }),
+    'Failed to invite member',
+  );
+  mutate(`/api/lists/${listId}/members`);
+  mutate('/api/lists');
+  return member;
+}
+
+export async function updateMemberRole(
+  listId: string,
+  userId: string,
+  role: ListRole,
+) {
+  const member = await fetchJson<ListMember>(
+    `/api/lists/${listId}/members/${userId}`,
+    jsonRequest('PATCH', { role }),
+    'Failed to update member',
+  );
+  mutate(`/api/lists/${listId}/members`);
+  return member;
+}
+
+// Also used by members to leave a list
+export async function removeMember(listId: string, userId: string) {
+  const response = await fetchJson<MessageResponse>(
+    `/api/lists/${listId}/members/${userId}`,
+    { method: 'DELETE' },
+    'Failed to remove member',
+  );
+  mutate(`/api/lists/${listId}/members`);
+  mutate('/api/lists');
+  revalidateTodos();
+  return response;
+}
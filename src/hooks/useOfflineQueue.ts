@@ -0,0 +1,233 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { ApiError, fetchJson } from '@/lib/api';
+import { versionETag } from '@/lib/etags';
+import type { TodoWithDetails } from '@/lib/todos';
+
+// Todo changes made while offline are kept in IndexedDB and replayed in the
+// order they were made once the browser is back online. A change the server
+// rejects on replay becomes a conflict the user can retry or discard.
+
+export interface MutationRequest {
+  url: string;
+  method: 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Names the change if it can't be applied, e.g. 'Update "Buy milk"'
+  description: string;
+}
+
+export interface QueuedMutation extends MutationRequest {
+  // IndexedDB key; increasing, so it is also the replay order
+  seq: number;
+  queuedAt: number;
+}
+
+export interface MutationConflict {
+  mutation: QueuedMutation;
+  status: number;
+  message: string;
+  // The server's copy when the todo had changed since (a 412)
+  current?: TodoWithDetails;
+}
+
+interface QueueState {
+  pending: QueuedMutation[];
+  conflicts: MutationConflict[];
+}
+
+const DB_NAME = 'todo-app';
+const STORE_NAME = 'mutations';
+
+const EMPTY_STATE: QueueState = { pending: [], conflicts: [] };
+
+let state = EMPTY_STATE;
+const listeners = new Set<() => void>();
+let database: Promise<IDBDatabase> | null = null;
+let loaded: Promise<void> | null = null;
+let replaying: Promise<void> | null = null;
+
+const notify = () => {
+  for (const listener of listeners) {
+    listener();
+  }
+};
+
+const setState = (changes: Partial<QueueState>) => {
+  state = { ...state, ...changes };
+  notify();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+function openDatabase() {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: 'seq',
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Reads what an earlier visit left in the queue, once per page load. Without
+// IndexedDB (e.g. some private windows) changes are still sent right away,
+// they just can't be queued.
+export function loadQueue() {
+  loaded ??= withStore<QueuedMutation[]>('readonly', (store) => store.getAll())
+    .then((pending) => setState({ pending }))
+    .catch((error) => {
+      console.error('Error loading offline queue:', error);
+    });
+  return loaded;
+}
+
+async function queueMutation(mutation: MutationRequest) {
+  await loadQueue();
+  const entry = { ...mutation, queuedAt: Date.now() };
+  const seq = await withStore('readwrite', (store) => store.add(entry));
+  setState({ pending: [...state.pending, { ...entry, seq: seq as number }] });
+}
+
+async function removeMutation(seq: number) {
+  await withStore('readwrite', (store) => store.delete(seq));
+  setState({
+    pending: state.pending.filter((mutation) => mutation.seq !== seq),
+  });
+}
+
+const requestInit = (mutation: MutationRequest): RequestInit => ({
+  method: mutation.method,
+  headers: {
+    ...(mutation.body !== undefined && { 'Content-Type': 'application/json' }),
+    ...mutation.headers,
+  },
+  body: mutation.body === undefined ? undefined : JSON.stringify(mutation.body),
+});
+
+export const isOffline = () =>
+  typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Sends a mutation now, or queues it when offline. Changes made while older
+// ones are still queued wait behind them so the server sees them in order.
+// A request that fails to reach the server is queued too; one the server
+// rejects throws its ApiError.
+export async function sendMutation<T>(
+  mutation: MutationRequest,
+): Promise<{ queued: true } | { queued: false; data: T }> {
+  await loadQueue();
+  if (isOffline() || state.pending.length > 0) {
+    await queueMutation(mutation);
+    return { queued: true };
+  }
+  try {
+    const data = await fetchJson<T>(mutation.url, requestInit(mutation));
+    return { queued: false, data };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    await queueMutation(mutation);
+    return { queued: true };
+  }
+}
+
+async function replay() {
+  await loadQueue();
+  for (const mutation of state.pending) {
+    try {
+      await fetchJson(mutation.url, requestInit(mutation));
+    } catch (error) {
+      if (
+        !(error instanceof ApiError) ||
+        error.status >= 500 ||
+        error.status === 429
+      ) {
+        // Unreachable, failing or rate limited; keep the rest queued for
+        // the next replay
+        return;
+      }
+      // A create whose response was lost has already been applied
+      const alreadyApplied = mutation.method === 'POST' && error.status === 409;
+      if (!alreadyApplied) {
+        setState({
+          conflicts: [
+            ...state.conflicts,
+            {
+              mutation,
+              status: error.status,
+              message: error.message,
+              current: error.current,
+            },
+          ],
+        });
+      }
+    }
+    await removeMutation(mutation.seq);
+  }
+}
+
+// Replays the queue unless a replay is already running
+export function replayQueue() {
+  replaying ??= replay().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+// Puts a rejected change back at the end of the queue and replays it. A
+// change to a todo that has changed since is sent against the server's
+// current version, overwriting the other change.
+export async function retryConflict(conflict: MutationConflict) {
+  setState({
+    conflicts: state.conflicts.filter((item) => item !== conflict),
+  });
+  const { seq: _seq, queuedAt: _queuedAt, ...mutation } = conflict.mutation;
+  if (conflict.current) {
+    mutation.headers = {
+      ...mutation.headers,
+      'If-Match': versionETag(conflict.current.version),
+    };
+  }
+  await queueMutation(mutation);
+  await replayQueue();
+}
+
+export function discardConflict(conflict: MutationConflict) {
+  setState({
+    conflicts: state.conflicts.filter((item) => item !== conflict),
+  });
+}
+
+export function useOfflineQueue() {
+  return useSyncExternalStore(
+    subscribe,
+    () => state,
+    () => EMPTY_STATE,
+  );
+}
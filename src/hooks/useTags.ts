@@ -0,0 +1,45 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { fetchJson } from '@/lib/api';
+import type { Tag } from '@/lib/db/schema';
+import type { MessageResponse } from '@/lib/todo-schemas';
+import { revalidateTodos } from './useTodos';
+
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+export function useTags() {
+  const { data, error, isLoading } = useSWR<Tag[]>('/api/tags', fetcher);
+
+  return {
+    tags: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function createTag(name: string, color?: string) {
+  const newTag = await fetchJson<Tag>(
+    '/api/tags',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, color }),
+    },
+    'Failed to create tag',
+  );
+  mutate('/api/tags');
+  return newTag;
+}
+
+export async function deleteTag(id: string) {
+  const response = await fetchJson<MessageResponse>(
+    `/api/tags/${id}`,
+    { method: 'DELETE' },
+    'Failed to delete tag',
+  );
+  mutate('/api/tags');
+  // Deleting a tag detaches it from todos
+  revalidateTodos();
+  return response;
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { TodoStreamEvent } from '@/lib/todo-stream';
+import { applyTodoStreamEvent, revalidateTodos } from './useTodos';
+
+const STREAM_URL = '/api/todos/stream';
+const EVENT_TYPES = ['create', 'update', 'delete'] as const;
+// Wait before opening a new connection once the browser has given up on one
+const RECONNECT_DELAY_MS = 5000;
+
+// Keeps the todo cache in step with changes made in other tabs and on other
+// devices. EventSource reconnects on its own and sends Last-Event-ID; when
+// it gives up instead (e.g. on a server error), a new connection passes the
+// last id as ?lastEventId= so missed events are still caught up.
+export function useTodoStream(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let source: EventSource;
+    let lastEventId = '';
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      lastEventId = message.lastEventId || lastEventId;
+      applyTodoStreamEvent(JSON.parse(message.data) as TodoStreamEvent);
+    };
+
+    // Events were missed that the server no longer has
+    const handleReset = () => {
+      revalidateTodos();
+    };
+
+    const connect = () => {
+      source = new EventSource(
+        lastEventId
+          ? `${STREAM_URL}?lastEventId=${encodeURIComponent(lastEventId)}`
+          : STREAM_URL,
+      );
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, handleEvent);
+      }
+      source.addEventListener('reset', handleReset);
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(reconnectTimer);
+      source.close();
+    };
+  }, [enabled]);
+}
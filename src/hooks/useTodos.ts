@@ -1,74 +1,702 @@
 'use client';
 
 import useSWR, { mutate } from 'swr';
+import useSWRInfinite, { unstable_serialize } from 'swr/infinite';
+import { fetchJson } from '@/lib/api';
+import type { BulkOperation } from '@/lib/bulk';
 import type { Todo } from '@/lib/db/schema';
+import { versionETag } from '@/lib/etags';
+import type { TodoHistoryEntry } from '@/lib/history';
+import type { TodoSearchResult } from '@/lib/search';
+import type {
+  BulkTodosInput,
+  BulkTodosResponse,
+  CreateSubtaskInput,
+  CreateTodoInput,
+  ImportReport,
+  ImportTodosInput,
+  MessageResponse,
+  MoveTodoInput,
+  TodoPage,
+  UndoResponse,
+  UpdateTodoInput,
+} from '@/lib/todo-schemas';
+import type { TodoStreamEvent } from '@/lib/todo-stream';
+import type {
+  SmartView,
+  SortOrder,
+  TagMatch,
+  TodoSort,
+  TodoWithDetails,
+} from '@/lib/todos';
+import type { TrashedTodo } from '@/lib/trash';
+import {
+  isOffline,
+  type MutationRequest,
+  replayQueue,
+  sendMutation,
+} from './useOfflineQueue';
+import { dismissUndo, offerUndo } from './useUndo';
 
-const fetcher = async (url: string) => {
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error('Failed to fetch');
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+// Infinite keys are skipped by filter-based mutate, so the ones in use are
+// tracked here, with the filters behind them, and revalidated explicitly
+const infiniteKeys = new Map<string, TodoFilters>();
+
+// Every list and view has its own cache key, so mutations revalidate all of them
+export const revalidateTodos = () =>
+  Promise.all([
+    mutate((key) => typeof key === 'string' && key.startsWith('/api/todos')),
+    ...[...infiniteKeys.keys()].map((key) => mutate(key)),
+  ]);
+
+export interface TodoFilters {
+  listId?: string | null;
+  view?: SmartView | null;
+  tagIds?: string[];
+  tagMatch?: TagMatch;
+  completed?: boolean | null;
+  q?: string;
+  sort?: TodoSort;
+  order?: SortOrder;
+}
+
+// Siblings a moved todo should directly follow and/or precede
+export interface ReorderTarget {
+  after?: string;
+  before?: string;
+}
+
+function todosQuery({
+  listId,
+  view,
+  tagIds = [],
+  tagMatch,
+  completed,
+  q,
+  sort,
+  order,
+}: TodoFilters) {
+  const params = new URLSearchParams();
+  if (listId) {
+    params.set('listId', listId);
+  }
+  if (view) {
+    params.set('view', view);
+  }
+  for (const tagId of tagIds) {
+    params.append('tag', tagId);
+  }
+  if (tagIds.length > 1 && tagMatch === 'all') {
+    params.set('tagMatch', 'all');
+  }
+  if (completed !== undefined && completed !== null) {
+    params.set('completed', String(completed));
+  }
+  if (q?.trim()) {
+    params.set('q', q.trim());
+  }
+  if (sort) {
+    params.set('sort', sort);
+  }
+  if (order === 'desc') {
+    params.set('order', 'desc');
+  }
+  return params;
+}
+
+function reorderPages(pages: TodoPage[], id: string, target: ReorderTarget) {
+  const items = pages.flatMap((page) => page.items);
+  const moved = items.find((todo) => todo.id === id);
+  if (!moved) {
+    return pages;
+  }
+  const rest = items.filter((todo) => todo.id !== id);
+  const index = target.after
+    ? rest.findIndex((todo) => todo.id === target.after) + 1
+    : rest.findIndex((todo) => todo.id === target.before);
+  rest.splice(index < 0 ? rest.length : index, 0, moved);
+
+  // Keep the page boundaries so cursors still line up
+  let offset = 0;
+  return pages.map((page) => {
+    const pageItems = rest.slice(offset, offset + page.items.length);
+    offset += page.items.length;
+    return { ...page, items: pageItems };
+  });
+}
+
+const SUBTASKS_KEY = /^\/api\/todos\/[^/?]+\/subtasks$/;
+
+// What cached lists held before an optimistic change, to put back if the
+// server rejects it
+type CacheSnapshot = [key: string, data: unknown][];
+
+// The change to one cached todo: fields to update, null to drop it, or
+// undefined to leave it alone
+type TodoPatch = (todo: Todo) => Partial<TodoWithDetails> | null | undefined;
+
+function patchItems<T extends Todo>(items: T[], patch: TodoPatch) {
+  return items.flatMap((todo) => {
+    const changes = patch(todo);
+    if (changes === null) {
+      return [];
+    }
+    return [changes ? ({ ...todo, ...changes } as T) : todo];
+  });
+}
+
+// Whether a todo belongs in a list with these filters. Only the filters the
+// client can check are considered; revalidation settles the rest.
+function matchesFilters(todo: Todo, { listId, completed }: TodoFilters) {
+  if (listId && todo.listId !== (listId === 'inbox' ? null : listId)) {
+    return false;
   }
-  return res.json();
-};
+  return typeof completed !== 'boolean' || todo.completed === completed;
+}
+
+// Only lists in manual order, and not narrowed by a view, tag or search,
+// can place a todo they haven't loaded without refetching
+const inPositionOrder = ({ view, tagIds = [], q, sort, order }: TodoFilters) =>
+  !view &&
+  tagIds.length === 0 &&
+  !q?.trim() &&
+  (sort ?? 'position') === 'position' &&
+  order !== 'desc';
 
-export function useTodos() {
-  const { data, error, isLoading } = useSWR<Todo[]>('/api/todos', fetcher);
+async function cachedSubtaskKeys() {
+  const keys: string[] = [];
+  // Filter-based mutate is only used to list the keys; nothing matches
+  await mutate((key) => {
+    if (typeof key === 'string' && SUBTASKS_KEY.test(key)) {
+      keys.push(key);
+    }
+    return false;
+  });
+  return keys;
+}
 
+async function updateCache<T>(
+  snapshot: CacheSnapshot,
+  key: string,
+  update: (data: T | undefined) => T | undefined,
+) {
+  await mutate<T>(
+    key,
+    (data) => {
+      snapshot.push([key, data]);
+      return update(data);
+    },
+    { revalidate: false },
+  );
+}
+
+// Applies a change to every cached copy of the todos, in the loaded pages
+// of each list and in each todo's subtasks
+async function patchCachedTodos(
+  patch: TodoPatch,
+  snapshot: CacheSnapshot = [],
+) {
+  const subtaskKeys = await cachedSubtaskKeys();
+  await Promise.all([
+    ...[...infiniteKeys].map(([key, filters]) =>
+      updateCache<TodoPage[]>(snapshot, key, (pages) =>
+        pages?.map((page) => ({
+          ...page,
+          items: patchItems(page.items, patch).filter((todo) =>
+            matchesFilters(todo, filters),
+          ),
+        })),
+      ),
+    ),
+    ...subtaskKeys.map((key) =>
+      updateCache<Todo[]>(
+        snapshot,
+        key,
+        (subtasks) => subtasks && patchItems(subtasks, patch),
+      ),
+    ),
+  ]);
+}
+
+// Puts a top-level todo into loaded pages by position, replacing it if it
+// is already there. A todo without a position yet (an optimistic create)
+// goes last. A spot past the loaded pages is left for when they load.
+function insertIntoPages(pages: TodoPage[], todo: TodoWithDetails) {
+  if (pages.some((page) => page.items.some((item) => item.id === todo.id))) {
+    return pages.map((page) => ({
+      ...page,
+      items: page.items.map((item) => (item.id === todo.id ? todo : item)),
+    }));
+  }
+  const follows = (item: Todo) =>
+    todo.position !== '' && item.position > todo.position;
+  const pageIndex = pages.findIndex((page) => page.items.some(follows));
+  if (pageIndex < 0 && pages[pages.length - 1]?.nextCursor !== null) {
+    return pages;
+  }
+  const target = pageIndex < 0 ? pages.length - 1 : pageIndex;
+  return pages.map((page, index) => {
+    if (index !== target) {
+      return page;
+    }
+    const items = [...page.items];
+    const at = items.findIndex(follows);
+    items.splice(at < 0 ? items.length : at, 0, todo);
+    return { ...page, items };
+  });
+}
+
+// Adds a top-level todo to the cached lists it belongs in
+async function insertCachedTodo(
+  todo: TodoWithDetails,
+  snapshot: CacheSnapshot = [],
+) {
+  await Promise.all(
+    [...infiniteKeys]
+      .filter(
+        ([, filters]) =>
+          inPositionOrder(filters) && matchesFilters(todo, filters),
+      )
+      .map(([key]) =>
+        updateCache<TodoPage[]>(
+          snapshot,
+          key,
+          (pages) => pages && insertIntoPages(pages, todo),
+        ),
+      ),
+  );
+}
+
+const restoreCache = (snapshot: CacheSnapshot) =>
+  Promise.all(
+    snapshot.map(([key, data]) => mutate(key, data, { revalidate: false })),
+  );
+
+// Shows a change in the cache right away, then sends it, or queues it for
+// when the browser is back online. If the server rejects it the cache is
+// put back and the error rethrown. Returns the server's response, or
+// undefined when the change was queued.
+async function optimisticMutation<T>(
+  request: MutationRequest,
+  applyToCache: (snapshot: CacheSnapshot) => Promise<void>,
+) {
+  const snapshot: CacheSnapshot = [];
+  await applyToCache(snapshot);
+  try {
+    const result = await sendMutation<T>(request);
+    if (result.queued) {
+      // Queued behind earlier changes rather than for being offline
+      if (!isOffline()) {
+        replayQueue().then(revalidateTodos);
+      }
+      return undefined;
+    }
+    revalidateTodos();
+    return result.data;
+  } catch (error) {
+    await restoreCache(snapshot);
+    throw error;
+  }
+}
+
+// Applies a change pushed by the todo stream (see useTodoStream). Lists
+// the todo moved into or out of are updated where the client can tell;
+// the trash and the todo's history are refetched if they are loaded.
+export async function applyTodoStreamEvent(event: TodoStreamEvent) {
+  if (event.type === 'delete') {
+    await patchCachedTodos((todo) =>
+      todo.id === event.todoId || todo.parentId === event.todoId
+        ? null
+        : undefined,
+    );
+  } else {
+    const { todo } = event;
+    await patchCachedTodos((cached) =>
+      cached.id === todo.id ? todo : undefined,
+    );
+    if (todo.parentId) {
+      await updateCache<Todo[]>(
+        [],
+        `/api/todos/${todo.parentId}/subtasks`,
+        (subtasks) =>
+          subtasks?.some((subtask) => subtask.id === todo.id)
+            ? subtasks
+            : subtasks && [...subtasks, todo],
+      );
+    } else {
+      await insertCachedTodo(todo);
+    }
+  }
+  const id = event.type === 'delete' ? event.todoId : event.todo.id;
+  mutate('/api/todos/trash');
+  mutate(`/api/todos/${id}/history`);
+}
+
+// Stands in for a new todo until the server's copy replaces it
+function pendingTodo(
+  values: Pick<Todo, 'id' | 'title'> & Partial<TodoWithDetails>,
+): TodoWithDetails {
+  const now = new Date();
   return {
-    todos: data,
+    description: null,
+    completed: false,
+    completedBy: null,
+    listId: null,
+    dueAt: null,
+    dueHasTime: false,
+    remindAt: null,
+    recurrence: null,
+    occurrence: 1,
+    previousOccurrenceId: null,
+    parentId: null,
+    completeSubtasks: false,
+    priority: 'none',
+    important: false,
+    position: '',
+    deletedAt: null,
+    userId: '',
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    subtaskCount: 0,
+    subtaskCompletedCount: 0,
+    tagIds: [],
+    role: 'owner',
+    creatorName: null,
+    completerName: null,
+    ...values,
+  };
+}
+
+// The fields of an update that can be shown before the server responds.
+// Dates need the user's timezone, so they wait for the response.
+function optimisticChanges(updates: UpdateTodoInput): Partial<TodoWithDetails> {
+  const { dueAt, remindAt, ...changes } = updates;
+  return {
+    ...changes,
+    ...(dueAt === null && { dueAt: null, dueHasTime: false }),
+    ...(remindAt === null && { remindAt: null }),
+  };
+}
+
+export function useTodos(filters: TodoFilters = {}) {
+  const query = todosQuery(filters).toString();
+  const getKey = (_pageIndex: number, previousPage: TodoPage | null) => {
+    if (previousPage && !previousPage.nextCursor) {
+      return null;
+    }
+    const params = new URLSearchParams(query);
+    if (previousPage?.nextCursor) {
+      params.set('cursor', previousPage.nextCursor);
+    }
+    const search = params.toString();
+    return search ? `/api/todos?${search}` : '/api/todos';
+  };
+  infiniteKeys.set(unstable_serialize(getKey), filters);
+
+  const { data, error, isLoading, size, setSize, mutate } =
+    useSWRInfinite<TodoPage>(getKey, fetcher, { revalidateAll: true });
+
+  const lastPage = data?.[data.length - 1];
+
+  // Shows the move in the loaded pages right away and rolls it back if the
+  // server rejects it
+  const reorderTodo = (id: string, target: ReorderTarget) =>
+    mutate(
+      async () => {
+        await moveTodo(id, target);
+        return undefined;
+      },
+      {
+        optimisticData: (pages) => reorderPages(pages ?? [], id, target),
+        rollbackOnError: true,
+        populateCache: false,
+        revalidate: false,
+      },
+    );
+
+  return {
+    todos: data?.flatMap((page) => page.items),
     isLoading,
+    isLoadingMore: !isLoading && size > 0 && data?.[size - 1] === undefined,
+    hasMore: Boolean(lastPage?.nextCursor),
+    loadMore: () => setSize(size + 1),
+    reorderTodo,
     isError: error,
   };
 }
 
-export async function createTodo(title: string, description?: string) {
-  const res = await fetch('/api/todos', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ title, description }),
-  });
+const jsonInit = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  body: JSON.stringify(body),
+});
 
-  if (!res.ok) {
-    throw new Error('Failed to create todo');
+// dueAt is "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm" in the user's timezone
+export async function createTodo(input: CreateTodoInput) {
+  const todo = { ...input, id: input.id ?? crypto.randomUUID() };
+  const newTodo = await optimisticMutation<Todo>(
+    {
+      url: '/api/todos',
+      method: 'POST',
+      body: todo,
+      description: `Create "${todo.title}"`,
+    },
+    (snapshot) =>
+      insertCachedTodo(
+        pendingTodo({
+          id: todo.id,
+          title: todo.title,
+          description: todo.description ?? null,
+          listId: todo.listId ?? null,
+          recurrence: todo.recurrence ?? null,
+          completeSubtasks: todo.completeSubtasks ?? false,
+          priority: todo.priority ?? 'none',
+          important: todo.important ?? false,
+          tagIds: todo.tagIds ?? [],
+        }),
+        snapshot,
+      ),
+  );
+  // A queued create can't be undone until it reaches the server
+  if (newTodo) {
+    offerUndo(newTodo.id, 'Todo created');
   }
-
-  const newTodo = await res.json();
-  mutate('/api/todos');
   return newTodo;
 }
 
+export function useSubtasks(parentId: string) {
+  const { data, error, isLoading } = useSWR<Todo[]>(
+    `/api/todos/${parentId}/subtasks`,
+    fetcher,
+  );
+
+  return {
+    subtasks: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function createSubtask(parentId: string, title: string) {
+  const id = crypto.randomUUID();
+  const newSubtask = await optimisticMutation<Todo>(
+    {
+      url: `/api/todos/${parentId}/subtasks`,
+      method: 'POST',
+      body: { id, title } satisfies CreateSubtaskInput,
+      description: `Add subtask "${title}"`,
+    },
+    async (snapshot) => {
+      await patchCachedTodos(
+        (todo) =>
+          todo.id === parentId
+            ? { subtaskCount: (todo as TodoWithDetails).subtaskCount + 1 }
+            : undefined,
+        snapshot,
+      );
+      await updateCache<Todo[]>(
+        snapshot,
+        `/api/todos/${parentId}/subtasks`,
+        (subtasks) =>
+          subtasks && [...subtasks, pendingTodo({ id, title, parentId })],
+      );
+    },
+  );
+  if (newSubtask) {
+    offerUndo(newSubtask.id, 'Subtask added');
+  }
+  return newSubtask;
+}
+
+// Changes to an existing todo name the version they were made against, so
+// they fail with a 412 (an ApiError with the server's copy in `current`)
+// if someone else changed it first
+type VersionedTodo = Pick<Todo, 'id' | 'version'>;
+
+const ifMatch = (todo: VersionedTodo) => ({
+  'If-Match': versionETag(todo.version),
+});
+
 export async function updateTodo(
-  id: string,
-  updates: { title?: string; description?: string; completed?: boolean },
+  { id, version }: VersionedTodo,
+  updates: UpdateTodoInput,
 ) {
-  const res = await fetch(`/api/todos/${id}`, {
-    method: 'PATCH',
-    headers: {
-      'Content-Type': 'application/json',
+  const updatedTodo = await optimisticMutation<Todo>(
+    {
+      url: `/api/todos/${id}`,
+      method: 'PATCH',
+      body: updates,
+      headers: ifMatch({ id, version }),
+      description: 'Update todo',
     },
-    body: JSON.stringify(updates),
-  });
-
-  if (!res.ok) {
-    throw new Error('Failed to update todo');
+    (snapshot) =>
+      patchCachedTodos(
+        (todo) =>
+          todo.id === id
+            ? { ...optimisticChanges(updates), version: todo.version + 1 }
+            : undefined,
+        snapshot,
+      ),
+  );
+  if (updatedTodo) {
+    offerUndo(
+      id,
+      updates.completed === true
+        ? 'Todo completed'
+        : updates.completed === false
+          ? 'Todo reopened'
+          : 'Todo updated',
+    );
   }
-
-  const updatedTodo = await res.json();
-  mutate('/api/todos');
   return updatedTodo;
 }
 
-export async function deleteTodo(id: string) {
-  const res = await fetch(`/api/todos/${id}`, {
-    method: 'DELETE',
-  });
+// Places a todo directly after and/or before one of its siblings
+export async function moveTodo(id: string, target: MoveTodoInput) {
+  const movedTodo = await fetchJson<Todo>(
+    `/api/todos/${id}/move`,
+    jsonInit('POST', target),
+    'Failed to move todo',
+  );
+  revalidateTodos();
+  offerUndo(id, 'Todo moved');
+  return movedTodo;
+}
+
+// Applies one operation to many todos in a single request. Todos the user
+// can't change, or that changed since they were loaded, come back as failed
+// results rather than an error.
+export async function bulkUpdateTodos(
+  selected: VersionedTodo[],
+  operation: BulkOperation,
+  options: Omit<BulkTodosInput, 'todos' | 'operation'> = {},
+) {
+  const { results } = await fetchJson<BulkTodosResponse>(
+    '/api/todos/bulk',
+    jsonInit('POST', {
+      todos: selected.map(({ id, version }) => ({ id, version })),
+      operation,
+      ...options,
+    } satisfies BulkTodosInput),
+    'Failed to update todos',
+  );
+  revalidateTodos();
+  return results;
+}
 
-  if (!res.ok) {
-    throw new Error('Failed to delete todo');
+export async function deleteTodo(todo: VersionedTodo) {
+  const { id } = todo;
+  const response = await optimisticMutation<MessageResponse>(
+    {
+      url: `/api/todos/${id}`,
+      method: 'DELETE',
+      headers: ifMatch(todo),
+      description: 'Delete todo',
+    },
+    // Subtasks go to the trash with their parent
+    (snapshot) =>
+      patchCachedTodos(
+        (todo) => (todo.id === id || todo.parentId === id ? null : undefined),
+        snapshot,
+      ),
+  );
+  if (response) {
+    offerUndo(id, 'Moved to trash');
   }
+  return response;
+}
+
+export function useTrash() {
+  const { data, error, isLoading } = useSWR<TrashedTodo[]>(
+    '/api/todos/trash',
+    fetcher,
+  );
+
+  return {
+    todos: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function restoreTodo(id: string) {
+  const restoredTodo = await fetchJson<Todo>(
+    `/api/todos/${id}/restore`,
+    { method: 'POST' },
+    'Failed to restore todo',
+  );
+  revalidateTodos();
+  return restoredTodo;
+}
 
-  mutate('/api/todos');
-  return res.json();
+// Deletes a todo that is already in the trash for good
+export async function purgeTodo(todo: VersionedTodo) {
+  const response = await fetchJson<MessageResponse>(
+    `/api/todos/${todo.id}?permanent=true`,
+    { method: 'DELETE', headers: ifMatch(todo) },
+    'Failed to delete todo',
+  );
+  revalidateTodos();
+  return response;
+}
+
+export function useTodoHistory(id: string) {
+  const { data, error, isLoading } = useSWR<TodoHistoryEntry[]>(
+    `/api/todos/${id}/history`,
+    fetcher,
+  );
+
+  return {
+    history: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+// Reverts the latest change to a todo, if the current user made it
+export async function undoTodoChange(id: string) {
+  const response = await fetchJson<UndoResponse>(
+    `/api/todos/${id}/undo`,
+    { method: 'POST' },
+    'Failed to undo change',
+  );
+  dismissUndo();
+  revalidateTodos();
+  return response;
+}
+
+export function useTodoSearch(query: string) {
+  const q = query.trim();
+  const { data, error, isLoading } = useSWR<TodoSearchResult[]>(
+    q ? `/api/todos/search?q=${encodeURIComponent(q)}` : null,
+    fetcher,
+    { keepPreviousData: true },
+  );
+
+  return {
+    results: q ? data : undefined,
+    isLoading,
+    isError: error,
+  };
+}
+
+// Previews an import with dryRun, or imports the file and picks up the
+// todos, lists and tags it created
+export async function importTodos(input: ImportTodosInput) {
+  const report = await fetchJson<ImportReport>(
+    '/api/todos/import',
+    jsonInit('POST', input),
+    'Failed to import todos',
+  );
+  if (!report.dryRun) {
+    revalidateTodos();
+    mutate('/api/lists');
+    mutate('/api/tags');
+  }
+  return report;
 }
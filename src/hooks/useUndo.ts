@@ -0,0 +1,44 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+// The most recent todo change the user can undo, shown as a toast. Only the
+// latest change is offered; a new one replaces it.
+export interface UndoOffer {
+  todoId: string;
+  message: string;
+}
+
+let offer: UndoOffer | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  for (const listener of listeners) {
+    listener();
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function offerUndo(todoId: string, message: string) {
+  offer = { todoId, message };
+  notify();
+}
+
+export function dismissUndo() {
+  offer = null;
+  notify();
+}
+
+export function useUndoOffer() {
+  return useSyncExternalStore(
+    subscribe,
+    () => offer,
+    () => null,
+  );
+}
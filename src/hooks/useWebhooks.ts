@@ -0,0 +1,92 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { fetchJson } from '@/lib/api';
+import type { MessageResponse } from '@/lib/todo-schemas';
+import type {
+  CreatedWebhook,
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDeliverySummary,
+  WebhookSummary,
+} from '@/lib/webhook-schemas';
+
+const WEBHOOKS_KEY = '/api/webhooks';
+
+const fetcher = <T>(url: string) => fetchJson<T>(url);
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+export function useWebhooks() {
+  const { data, error, isLoading } = useSWR<WebhookSummary[]>(
+    WEBHOOKS_KEY,
+    fetcher,
+  );
+
+  return {
+    webhooks: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+// The returned webhook carries its secret, which can't be fetched again
+export async function createWebhook(input: CreateWebhookInput) {
+  const webhook = await fetchJson<CreatedWebhook>(
+    WEBHOOKS_KEY,
+    jsonRequest('POST', input),
+    'Failed to create webhook',
+  );
+  mutate(WEBHOOKS_KEY);
+  return webhook;
+}
+
+export async function updateWebhook(id: string, updates: UpdateWebhookInput) {
+  const webhook = await fetchJson<WebhookSummary>(
+    `${WEBHOOKS_KEY}/${id}`,
+    jsonRequest('PATCH', updates),
+    'Failed to update webhook',
+  );
+  mutate(WEBHOOKS_KEY);
+  return webhook;
+}
+
+export async function deleteWebhook(id: string) {
+  const response = await fetchJson<MessageResponse>(
+    `${WEBHOOKS_KEY}/${id}`,
+    { method: 'DELETE' },
+    'Failed to delete webhook',
+  );
+  mutate(WEBHOOKS_KEY);
+  return response;
+}
+
+// Pending deliveries change as they are retried, so the log is polled
+// while it is open
+export function useWebhookDeliveries(id: string) {
+  const { data, error, isLoading } = useSWR<WebhookDeliverySummary[]>(
+    `${WEBHOOKS_KEY}/${id}/deliveries`,
+    fetcher,
+    { refreshInterval: 5000 },
+  );
+
+  return {
+    deliveries: data,
+    isLoading,
+    isError: error,
+  };
+}
+
+export async function redeliverWebhook(id: string, deliveryId: string) {
+  const delivery = await fetchJson<WebhookDeliverySummary>(
+    `${WEBHOOKS_KEY}/${id}/deliveries/${deliveryId}/redeliver`,
+    { method: 'POST' },
+    'Failed to redeliver webhook',
+  );
+  mutate(`${WEBHOOKS_KEY}/${id}/deliveries`);
+  return delivery;
+}
@@ -0,0 +1,22 @@
+// Called once when the server starts
+export async function register() {
+  // These use the database client, which only runs on Node
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { scheduleAccountPurge } = await import('./lib/account-deletion');
+    const { mailTransport } = await import('./lib/mail');
+    const { scheduleRateLimitPrune, stampSocketAddresses } = await import(
+      './lib/rate-limit'
+    );
+    const { ensureSearchIndex } = await import('./lib/search');
+    const { scheduleTrashPurge } = await import('./lib/trash');
+    const { scheduleWebhookDeliveries } = await import('./lib/webhooks');
+    mailTransport();
+    stampSocketAddresses();
+    // Before any request, so that every write goes through its triggers
+    await ensureSearchIndex();
+    scheduleTrashPurge();
+    scheduleWebhookDeliveries();
+    scheduleAccountPurge();
+    scheduleRateLimitPrune();
+  }
+}
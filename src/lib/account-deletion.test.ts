@@ -0,0 +1,149 @@
+import { eq } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/todos/route';
+import { createList, createUser, requestsAs } from '@/test/fixtures';
+import {
+  cancelAccountDeletion,
+  deleteAccount,
+  purgeDueAccounts,
+  scheduleAccountDeletion,
+} from './account-deletion';
+import { findCalendarUser, rotateCalendarToken } from './calendar-feed';
+import { db } from './db';
+import { listMembers, lists, todos, user } from './db/schema';
+import { createWebhook, subscribedWebhooks } from './webhooks';
+
+const SETTINGS_URL = 'http://localhost:3000/settings';
+
+async function createTodo(
+  userId: string,
+  title: string,
+  listId: string | null = null,
+) {
+  const now = new Date();
+  const [todo] = await db
+    .insert(todos)
+    .values({
+      id: crypto.randomUUID(),
+      title,
+      userId,
+      listId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return todo;
+}
+
+async function stored(id: string) {
+  const [todo] = await db.select().from(todos).where(eq(todos.id, id));
+  return todo;
+}
+
+describe('deleting an account', () => {
+  it('hands shared lists to the most senior member and keeps their todos', async () => {
+    const [leaving, editor, viewer] = await Promise.all(
+      ['Leaving', 'Editor', 'Viewer'].map((name) => createUser(name)),
+    );
+    // The viewer is added first, but editors come before viewers
+    const list = await createList(leaving.id, [
+      [viewer.id, 'viewer'],
+      [editor.id, 'editor'],
+    ]);
+    const shared = await createTodo(leaving.id, 'Shared plan', list.id);
+    const editorsOwn = await createTodo(editor.id, 'From the editor', list.id);
+    const personal = await createTodo(leaving.id, 'Personal');
+
+    await deleteAccount(leaving.id);
+
+    const [handedOver] = await db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, list.id));
+    expect(handedOver.userId).toBe(editor.id);
+    const members = await db
+      .select({ userId: listMembers.userId })
+      .from(listMembers)
+      .where(eq(listMembers.listId, list.id));
+    expect(members).toEqual([{ userId: viewer.id }]);
+
+    expect(await stored(shared.id)).toMatchObject({
+      userId: editor.id,
+      listId: list.id,
+    });
+    expect(await stored(editorsOwn.id)).toMatchObject({ userId: editor.id });
+    expect(await stored(personal.id)).toBeUndefined();
+    expect(await db.select().from(user).where(eq(user.id, leaving.id))).toEqual(
+      [],
+    );
+  });
+
+  it('deletes lists nobody else uses', async () => {
+    const leaving = await createUser('Leaving');
+    const list = await createList(leaving.id);
+    const todo = await createTodo(leaving.id, 'Alone', list.id);
+
+    await deleteAccount(leaving.id);
+
+    expect(await db.select().from(lists).where(eq(lists.id, list.id))).toEqual(
+      [],
+    );
+    expect(await stored(todo.id)).toBeUndefined();
+  });
+});
+
+describe('the grace period', () => {
+  it('only purges accounts whose grace period is over', async () => {
+    const [due, waiting] = await Promise.all([
+      createUser('Due'),
+      createUser('Waiting'),
+    ]);
+    const { deletionScheduledAt } = await scheduleAccountDeletion(
+      due.id,
+      'current-session',
+      SETTINGS_URL,
+    );
+    await scheduleAccountDeletion(waiting.id, 'current-session', SETTINGS_URL);
+    await db
+      .update(user)
+      .set({ deletionScheduledAt: new Date(Date.now() - 1000) })
+      .where(eq(user.id, due.id));
+
+    expect(deletionScheduledAt.getTime()).toBeGreaterThan(Date.now());
+    expect(await purgeDueAccounts()).toBe(1);
+    const remaining = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, waiting.id));
+    expect(remaining).toEqual([{ id: waiting.id }]);
+    expect(await db.select().from(user).where(eq(user.id, due.id))).toEqual([]);
+  });
+
+  it('suspends API tokens, the calendar feed and webhooks until cancelled', async () => {
+    const owner = await createUser();
+    const request = await requestsAs(owner.id);
+    const { token } = await rotateCalendarToken(owner.id);
+    await createWebhook(owner.id, {
+      url: 'https://example.com/hook',
+      events: ['todo.created'],
+    });
+
+    await scheduleAccountDeletion(owner.id, 'current-session', SETTINGS_URL);
+
+    const response = await GET(request('GET', '/api/todos'));
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.message).toBe(
+      'API tokens are suspended while the account is scheduled for deletion',
+    );
+    expect(await findCalendarUser(token)).toBeNull();
+    expect(await subscribedWebhooks([owner.id], 'todo.created')).toEqual([]);
+
+    await cancelAccountDeletion(owner.id);
+
+    expect((await GET(request('GET', '/api/todos'))).status).toBe(200);
+    expect(await findCalendarUser(token)).toMatchObject({ id: owner.id });
+    expect(await subscribedWebhooks([owner.id], 'todo.created')).toHaveLength(
+      1,
+    );
+  });
+});
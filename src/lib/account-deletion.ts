@@ -0,0 +1,200 @@
+import { and, asc, eq, inArray, isNotNull, lte, ne, sql } from 'drizzle-orm';
+import { ACCOUNT_DELETION_GRACE_DAYS } from './account-schemas';
+import { auth } from './auth';
+import { accountDeletionEmail } from './auth-emails';
+import { DEFAULT_TIMEZONE } from './dates';
+import { type DbTransaction, db } from './db';
+import { account, listMembers, lists, session, todos, user } from './db/schema';
+import { sendMail } from './mail';
+import { LIST_ROLES } from './roles';
+import { nextVersion } from './todos';
+import { purgeTodos } from './trash';
+
+// Account deletion. A request starts a grace period during which the user
+// can still sign in and cancel; the hourly purge then deletes the account.
+// Lists shared with other people outlive it: each goes to its most senior
+// remaining member, and the todos the user added to it stay with the list.
+// Everything else the user created is deleted.
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Accounts without a password prove who they are by having just signed in
+const FRESH_SIGN_IN_MS = 10 * 60 * 1000;
+
+// What re-authentication a deletion request needs: the password, or a
+// sign-in within the last few minutes for accounts without one
+export async function checkDeletionCredentials(
+  userId: string,
+  sessionCreatedAt: Date,
+  password: string | undefined,
+): Promise<'ok' | 'password_required' | 'wrong_password' | 'stale_session'> {
+  const [credential] = await db
+    .select({ password: account.password })
+    .from(account)
+    .where(
+      and(eq(account.userId, userId), eq(account.providerId, 'credential')),
+    )
+    .limit(1);
+
+  if (!credential?.password) {
+    return Date.now() - sessionCreatedAt.getTime() <= FRESH_SIGN_IN_MS
+      ? 'ok'
+      : 'stale_session';
+  }
+  if (!password) {
+    return 'password_required';
+  }
+  const context = await auth.$context;
+  const valid = await context.password.verify({
+    hash: credential.password,
+    password,
+  });
+  return valid ? 'ok' : 'wrong_password';
+}
+
+// Starts the grace period and signs out the user's other sessions
+export async function scheduleAccountDeletion(
+  userId: string,
+  currentSessionId: string,
+  settingsUrl: string,
+) {
+  const deletionScheduledAt = new Date(
+    Date.now() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS,
+  );
+  const [updated] = await db
+    .update(user)
+    .set({ deletionScheduledAt, updatedAt: new Date() })
+    .where(eq(user.id, userId))
+    .returning();
+  await db
+    .delete(session)
+    .where(and(eq(session.userId, userId), ne(session.id, currentSessionId)));
+
+  const deletionDate = new Intl.DateTimeFormat('en', {
+    dateStyle: 'long',
+    timeZone: updated.timezone || DEFAULT_TIMEZONE,
+  }).format(deletionScheduledAt);
+  sendMail(accountDeletionEmail(updated, deletionDate, settingsUrl)).catch(
+    (error) => {
+      console.error('Error sending account deletion email:', error);
+    },
+  );
+  return { deletionScheduledAt };
+}
+
+export async function cancelAccountDeletion(userId: string) {
+  await db
+    .update(user)
+    .set({ deletionScheduledAt: null, updatedAt: new Date() })
+    .where(eq(user.id, userId));
+  return { deletionScheduledAt: null };
+}
+
+// Hands the user's shared lists over to another member: owners first, then
+// editors, then viewers, longest-standing first
+async function handOverLists(tx: DbTransaction, userId: string) {
+  const owned = await tx
+    .select({ id: lists.id })
+    .from(lists)
+    .where(eq(lists.userId, userId));
+  const seniority = sql`case ${listMembers.role} ${sql.join(
+    [...LIST_ROLES].reverse().map((role, i) => sql`when ${role} then ${i}`),
+    sql` `,
+  )} end`;
+
+  for (const list of owned) {
+    const [successor] = await tx
+      .select({ userId: listMembers.userId })
+      .from(listMembers)
+      .where(eq(listMembers.listId, list.id))
+      .orderBy(seniority, asc(listMembers.createdAt))
+      .limit(1);
+    if (!successor) {
+      // As when a list is deleted, other people's todos go to their inbox
+      await tx
+        .update(todos)
+        .set({ listId: null, updatedAt: new Date(), version: nextVersion })
+        .where(and(eq(todos.listId, list.id), ne(todos.userId, userId)));
+      continue;
+    }
+    await tx
+      .update(lists)
+      .set({ userId: successor.userId, updatedAt: new Date() })
+      .where(eq(lists.id, list.id));
+    await tx
+      .delete(listMembers)
+      .where(
+        and(
+          eq(listMembers.listId, list.id),
+          eq(listMembers.userId, successor.userId),
+        ),
+      );
+  }
+}
+
+// Deletes an account now. Sessions, linked accounts, tags, tokens, webhooks
+// and the lists nobody else uses go with the user row; history the user
+// recorded on todos that remain is kept without its author.
+export async function deleteAccount(userId: string) {
+  await db.transaction(async (tx) => {
+    await handOverLists(tx, userId);
+
+    // Todos in lists that someone else now owns stay with the list
+    await tx
+      .update(todos)
+      .set({
+        userId: sql`(select ${lists.userId} from ${lists} where ${lists.id} = ${todos.listId})`,
+        updatedAt: new Date(),
+        version: nextVersion,
+      })
+      .where(
+        and(
+          eq(todos.userId, userId),
+          inArray(
+            todos.listId,
+            tx
+              .select({ id: lists.id })
+              .from(lists)
+              .where(ne(lists.userId, userId)),
+          ),
+        ),
+      );
+
+    const remaining = await tx
+      .select({ id: todos.id })
+      .from(todos)
+      .where(eq(todos.userId, userId));
+    await purgeTodos(
+      tx,
+      remaining.map((todo) => todo.id),
+    );
+    await tx.delete(user).where(eq(user.id, userId));
+  });
+}
+
+// Deletes the accounts whose grace period is over and returns how many went
+export async function purgeDueAccounts(now = new Date()) {
+  const due = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(
+      and(
+        isNotNull(user.deletionScheduledAt),
+        lte(user.deletionScheduledAt, now),
+      ),
+    );
+  for (const { id } of due) {
+    await deleteAccount(id);
+  }
+  return due.length;
+}
+
+// Runs the purge now and then hourly for the life of the server process
+export function scheduleAccountPurge() {
+  const purge = () =>
+    purgeDueAccounts().catch((error) => {
+      console.error('Error purging deleted accounts:', error);
+    });
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
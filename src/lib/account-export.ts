@@ -0,0 +1,122 @@
+import { asc, eq, getTableColumns, sql } from 'drizzle-orm';
+import { listApiTokens } from './api-tokens';
+import { calendarFeedStatus } from './calendar-feed';
+import { db } from './db';
+import {
+  account,
+  listMembers,
+  lists,
+  session,
+  tags,
+  todoEvents,
+  todos,
+  user,
+} from './db/schema';
+import { todoTagNamesColumn } from './todos';
+import { listWebhooks } from './webhooks';
+
+// Everything stored about an account, as one JSON document for the user to
+// keep before deleting it. Secrets (password hashes, session and API
+// tokens, webhook signing secrets, two-factor keys) are left out. Todos the
+// user created are included whether or not they're in the trash; the
+// import at /api/todos/import reads the smaller todo export instead.
+
+const ACCOUNT_EXPORT_VERSION = 1;
+
+export async function exportAccount(userId: string) {
+  const [profile] = await db
+    .select({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      timezone: user.timezone,
+      twoFactorEnabled: user.twoFactorEnabled,
+      deletionScheduledAt: user.deletionScheduledAt,
+      createdAt: user.createdAt,
+    })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+
+  const signInMethods = await db
+    .select({ providerId: account.providerId, createdAt: account.createdAt })
+    .from(account)
+    .where(eq(account.userId, userId))
+    .orderBy(asc(account.createdAt));
+
+  const sessions = await db
+    .select({
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+    })
+    .from(session)
+    .where(eq(session.userId, userId))
+    .orderBy(asc(session.createdAt));
+
+  const ownedLists = await db
+    .select({
+      ...getTableColumns(lists),
+      members: sql<
+        { email: string; role: string }[]
+      >`(select json_group_array(json_object('email', "user"."email", 'role', "list_members"."role")) from "list_members" inner join "user" on "user"."id" = "list_members"."userId" where "list_members"."listId" = "lists"."id")`.mapWith(
+        (value: string) => JSON.parse(value),
+      ),
+    })
+    .from(lists)
+    .where(eq(lists.userId, userId))
+    .orderBy(asc(lists.sortOrder));
+
+  const sharedLists = await db
+    .select({
+      id: lists.id,
+      name: lists.name,
+      role: listMembers.role,
+      joinedAt: listMembers.createdAt,
+    })
+    .from(listMembers)
+    .innerJoin(lists, eq(lists.id, listMembers.listId))
+    .where(eq(listMembers.userId, userId))
+    .orderBy(asc(listMembers.createdAt));
+
+  const userTags = await db
+    .select({ id: tags.id, name: tags.name, color: tags.color })
+    .from(tags)
+    .where(eq(tags.userId, userId))
+    .orderBy(asc(tags.name));
+
+  const userTodos = await db
+    .select({ ...getTableColumns(todos), tags: todoTagNamesColumn(userId) })
+    .from(todos)
+    .where(eq(todos.userId, userId))
+    .orderBy(asc(todos.createdAt));
+
+  const history = await db
+    .select({
+      todoId: todoEvents.todoId,
+      action: todoEvents.action,
+      changes: todoEvents.changes,
+      createdAt: todoEvents.createdAt,
+    })
+    .from(todoEvents)
+    .where(eq(todoEvents.userId, userId))
+    .orderBy(asc(todoEvents.createdAt));
+
+  return {
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date(),
+    profile,
+    signInMethods,
+    sessions,
+    lists: ownedLists,
+    sharedLists,
+    tags: userTags,
+    todos: userTodos,
+    history,
+    apiTokens: await listApiTokens(userId),
+    webhooks: await listWebhooks(userId),
+    calendarFeed: await calendarFeedStatus(userId),
+  };
+}
@@ -0,0 +1,16 @@
+import { object, optional, string } from './validation';
+
+// Request bodies and responses of the /api/account routes.
+
+// How long a deleted account can still be restored before it is purged
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+// The password is required when the account has one; accounts that only
+// sign in with Google or GitHub need a recent sign-in instead
+export const deleteAccountSchema = object({
+  password: optional(string({ min: 1, max: 1024 })),
+});
+
+export interface AccountDeletionStatus {
+  deletionScheduledAt: Date | null;
+}
@@ -0,0 +1,41 @@
+import type { ApiToken } from './db/schema';
+import {
+  array,
+  type Infer,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './validation';
+
+// Request bodies and responses of the /api/tokens routes.
+
+// What a personal API token may do on the todo routes: read covers GET
+// requests, write covers everything that changes todos
+export const API_TOKEN_SCOPES = ['read', 'write'] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_NAME_MAX_LENGTH = 100;
+export const API_TOKEN_MAX_LIFETIME_DAYS = 365;
+
+export const createApiTokenSchema = object({
+  name: string({ min: 1, max: API_TOKEN_NAME_MAX_LENGTH, trim: true }),
+  scopes: array(oneOf(API_TOKEN_SCOPES), {
+    min: 1,
+    max: API_TOKEN_SCOPES.length,
+  }),
+  // Null or left out for a token that never expires
+  expiresInDays: optional(
+    nullable(integer({ min: 1, max: API_TOKEN_MAX_LIFETIME_DAYS })),
+  ),
+});
+export type CreateApiTokenInput = Infer<typeof createApiTokenSchema>;
+
+// A token as listed in settings; the secret is never returned after creation
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash' | 'userId'>;
+
+export interface CreatedApiToken extends ApiTokenSummary {
+  secret: string;
+}
@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import type { NextResponse } from 'next/server';
+import {
+  API_TOKEN_SCOPES,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+  type CreateApiTokenInput,
+  type CreatedApiToken,
+} from './api-token-schemas';
+import { auth } from './auth';
+import { db } from './db';
+import { apiTokens, user } from './db/schema';
+import { checkRateLimit, RATE_LIMITS, rateLimited } from './rate-limit';
+import { apiError } from './responses';
+
+// Personal API tokens. A token is "todo_" followed by 32 random bytes and is
+// sent as "Authorization: Bearer <token>". Only its hash is stored, so a
+// lost token can't be shown again, only revoked and replaced.
+
+const TOKEN_PREFIX = 'todo_';
+// Characters of the token kept in plain text for the settings page
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only rewritten once it is this stale, so a busy script
+// doesn't turn every read into a write
+const LAST_USED_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const summaryColumns = {
+  id: apiTokens.id,
+  name: apiTokens.name,
+  prefix: apiTokens.prefix,
+  scopes: apiTokens.scopes,
+  expiresAt: apiTokens.expiresAt,
+  lastUsedAt: apiTokens.lastUsedAt,
+  createdAt: apiTokens.createdAt,
+};
+
+// Tokens are long random strings, so a plain SHA-256 is enough to keep
+// them from being usable if the database leaks
+export const hashToken = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex');
+
+// GET requests only read; everything else changes todos
+const requiredScope = (method: string): ApiTokenScope =>
+  method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+
+export function listApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+  return db
+    .select(summaryColumns)
+    .from(apiTokens)
+    .where(eq(apiTokens.userId, userId))
+    .orderBy(desc(apiTokens.createdAt));
+}
+
+export async function createApiToken(
+  userId: string,
+  input: CreateApiTokenInput,
+): Promise<CreatedApiToken> {
+  const secret = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const now = new Date();
+  const [token] = await db
+    .insert(apiTokens)
+    .values({
+      id: crypto.randomUUID(),
+      name: input.name,
+      tokenHash: hashToken(secret),
+      prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: API_TOKEN_SCOPES.filter((scope) => input.scopes.includes(scope)),
+      userId,
+      expiresAt: input.expiresInDays
+        ? new Date(now.getTime() + input.expiresInDays * DAY_MS)
+        : null,
+      createdAt: now,
+    })
+    .returning(summaryColumns);
+  return { ...token, secret };
+}
+
+// Returns whether a token was found (and deleted)
+export async function revokeApiToken(userId: string, id: string) {
+  const deleted = await db
+    .delete(apiTokens)
+    .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+    .returning({ id: apiTokens.id });
+  return deleted.length > 0;
+}
+
+// The user a request acts for
+export interface RequestSession {
+  user: { id: string; timezone?: string | null };
+}
+
+const invalidToken = (message: string) => {
+  const response = apiError(401, message);
+  response.headers.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+  return response;
+};
+
+// Finds the user by the request's session cookie or, when it sends one, by
+// a Bearer token that has the scope the request's method needs
+async function identify(
+  request: Request,
+): Promise<{ session: RequestSession } | { response: NextResponse }> {
+  const bearer = request.headers
+    .get('authorization')
+    ?.match(/^Bearer\s+(\S+)\s*$/i);
+
+  if (!bearer) {
+    const session = await auth.api.getSession({ headers: request.headers });
+    return session ? { session } : { response: apiError(401, 'Unauthorized') };
+  }
+
+  const [row] = await db
+    .select({
+      token: apiTokens,
+      user: { id: user.id, timezone: user.timezone },
+      deletionScheduledAt: user.deletionScheduledAt,
+    })
+    .from(apiTokens)
+    .innerJoin(user, eq(user.id, apiTokens.userId))
+    .where(eq(apiTokens.tokenHash, hashToken(bearer[1])))
+    .limit(1);
+  const now = new Date();
+
+  if (!row) {
+    return { response: invalidToken('Invalid API token') };
+  }
+  if (row.token.expiresAt && row.token.expiresAt <= now) {
+    return { response: invalidToken('API token has expired') };
+  }
+
+  // Suspended rather than revoked, so they work again if the deletion is
+  // cancelled
+  if (row.deletionScheduledAt) {
+    return {
+      response: apiError(
+        403,
+        'API tokens are suspended while the account is scheduled for deletion',
+      ),
+    };
+  }
+
+  const scope = requiredScope(request.method);
+  if (!row.token.scopes.includes(scope)) {
+    return {
+      response: apiError(403, `API token is missing the ${scope} scope`),
+    };
+  }
+
+  if (
+    !row.token.lastUsedAt ||
+    now.getTime() - row.token.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS
+  ) {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: now })
+      .where(eq(apiTokens.id, row.token.id));
+  }
+
+  return { session: { user: row.user } };
+}
+
+// Authenticates a request and counts it against the user's rate limit
+export async function authenticate(
+  request: Request,
+): Promise<{ session: RequestSession } | { response: NextResponse }> {
+  const authenticated = await identify(request);
+  if ('response' in authenticated) {
+    return authenticated;
+  }
+  const result = await checkRateLimit(
+    requiredScope(request.method) === 'read'
+      ? RATE_LIMITS.userReads
+      : RATE_LIMITS.userWrites,
+    `user:${authenticated.session.user.id}`,
+  );
+  return result.allowed ? authenticated : { response: rateLimited(result) };
+}
@@ -0,0 +1,66 @@
+import type { TodoWithDetails } from './todos';
+import type { FieldError } from './validation';
+
+// Every todo API error is { error: { code, message, details?, current? } },
+// with the code following the status, details listing the fields that
+// failed and current holding the server's copy when If-Match didn't match
+export const API_ERROR_CODES = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  412: 'precondition_failed',
+  422: 'validation_failed',
+  428: 'precondition_required',
+  429: 'rate_limited',
+  500: 'internal_error',
+} as const;
+export type ApiErrorStatus = keyof typeof API_ERROR_CODES;
+export type ApiErrorCode = (typeof API_ERROR_CODES)[ApiErrorStatus];
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: FieldError[];
+    current?: TodoWithDetails;
+  };
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode | undefined,
+    message: string,
+    readonly details: FieldError[] = [],
+    readonly current?: TodoWithDetails,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Fetches JSON from the API, throwing an ApiError with the server's message
+// when the response is an error. The list and tag routes still answer
+// { error: message }, which is read too.
+export async function fetchJson<T>(
+  url: string,
+  init?: RequestInit,
+  fallbackMessage = 'Request failed',
+): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const error: Partial<ApiErrorBody['error']> | undefined =
+      typeof body?.error === 'string' ? { message: body.error } : body?.error;
+    throw new ApiError(
+      res.status,
+      error?.code,
+      error?.message ?? fallbackMessage,
+      error?.details,
+      error?.current,
+    );
+  }
+  return res.json();
+}
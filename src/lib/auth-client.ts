@@ -1,9 +1,38 @@
 'use client';
 
+import {
+  inferAdditionalFields,
+  magicLinkClient,
+  twoFactorClient,
+} from 'better-auth/client/plugins';
 import { createAuthClient } from 'better-auth/react';
+import type { auth } from './auth';
 
 export const authClient = createAuthClient({
   baseURL: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+  plugins: [
+    inferAdditionalFields<typeof auth>(),
+    magicLinkClient(),
+    twoFactorClient(),
+  ],
 });
 
-export const { signIn, signUp, signOut, useSession } = authClient;
+export const {
+  signIn,
+  signUp,
+  signOut,
+  updateUser,
+  useSession,
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  twoFactor,
+  changeEmail,
+  changePassword,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  listAccounts,
+  linkSocial,
+  unlinkAccount,
+} = authClient;
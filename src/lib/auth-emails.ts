@@ -0,0 +1,144 @@
+import type { MailMessage } from './mail';
+
+// Emails sent by the sign-up, password reset, magic link and account
+// change flows. Each has a plain-text part and a simple HTML part with the
+// same content.
+
+const APP_NAME = 'Todo App';
+
+// How long the link in each email stays valid, in seconds
+export const AUTH_LINK_LIFETIMES = {
+  verification: 24 * 60 * 60,
+  resetPassword: 60 * 60,
+  magicLink: 10 * 60,
+};
+
+export const describeLifetime = (seconds: number) =>
+  seconds % 3600 === 0
+    ? `${seconds / 3600} ${seconds === 3600 ? 'hour' : 'hours'}`
+    : `${seconds / 60} minutes`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+
+function linkEmail(options: {
+  to: string;
+  subject: string;
+  greeting: string;
+  intro: string;
+  action: string;
+  url: string;
+  // Left out for links that don't expire
+  lifetime?: number;
+  ignore: string;
+}): MailMessage {
+  const expiry =
+    options.lifetime === undefined
+      ? ''
+      : `The link expires in ${describeLifetime(options.lifetime)}.`;
+  return {
+    to: options.to,
+    subject: options.subject,
+    text: [
+      options.greeting,
+      '',
+      options.intro,
+      '',
+      `${options.action}: ${options.url}`,
+      '',
+      ...(expiry ? [expiry] : []),
+      options.ignore,
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(options.greeting)}</p>`,
+      `<p>${escapeHtml(options.intro)}</p>`,
+      `<p><a href="${escapeHtml(options.url)}">${escapeHtml(options.action)}</a></p>`,
+      `<p>${escapeHtml(`${expiry} ${options.ignore}`.trim())}</p>`,
+    ].join('\n'),
+  };
+}
+
+const greeting = (name: string) => (name ? `Hi ${name},` : 'Hi,');
+
+export const verificationEmail = (
+  user: { email: string; name: string },
+  url: string,
+) =>
+  linkEmail({
+    to: user.email,
+    subject: `Verify your email for ${APP_NAME}`,
+    greeting: greeting(user.name),
+    intro: `Confirm that ${user.email} is your email address.`,
+    action: 'Verify email',
+    url,
+    lifetime: AUTH_LINK_LIFETIMES.verification,
+    ignore: "If you didn't create an account, you can ignore this email.",
+  });
+
+export const resetPasswordEmail = (
+  user: { email: string; name: string },
+  url: string,
+) =>
+  linkEmail({
+    to: user.email,
+    subject: `Reset your ${APP_NAME} password`,
+    greeting: greeting(user.name),
+    intro: 'Someone asked to reset the password for your account.',
+    action: 'Choose a new password',
+    url,
+    lifetime: AUTH_LINK_LIFETIMES.resetPassword,
+    ignore:
+      "If it wasn't you, ignore this email and your password won't change.",
+  });
+
+export const magicLinkEmail = (
+  user: { email: string; name: string },
+  url: string,
+) =>
+  linkEmail({
+    to: user.email,
+    subject: `Sign in to ${APP_NAME}`,
+    greeting: greeting(user.name),
+    intro: 'Use this link to sign in without your password.',
+    action: 'Sign in',
+    url,
+    lifetime: AUTH_LINK_LIFETIMES.magicLink,
+    ignore: "If you didn't ask for it, you can ignore this email.",
+  });
+
+// Goes to the current address, whose owner approves the change
+export const changeEmailEmail = (
+  user: { email: string; name: string },
+  newEmail: string,
+  url: string,
+) =>
+  linkEmail({
+    to: user.email,
+    subject: `Confirm your new ${APP_NAME} email`,
+    greeting: greeting(user.name),
+    intro: `Someone asked to change your account's email from ${user.email} to ${newEmail}.`,
+    action: 'Approve the change',
+    url,
+    lifetime: AUTH_LINK_LIFETIMES.verification,
+    ignore: "If it wasn't you, ignore this email and change your password.",
+  });
+
+export const accountDeletionEmail = (
+  user: { email: string; name: string },
+  deletionDate: string,
+  url: string,
+) =>
+  linkEmail({
+    to: user.email,
+    subject: `Your ${APP_NAME} account will be deleted`,
+    greeting: greeting(user.name),
+    intro: `Your account and everything in it will be deleted on ${deletionDate}. Until then you can sign in and cancel the deletion in settings.`,
+    action: 'Open settings',
+    url,
+    ignore:
+      "If you didn't ask for this, cancel the deletion and change your password.",
+  });
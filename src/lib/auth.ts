@@ -1,7 +1,52 @@
 import { betterAuth } from 'better-auth';
 import { drizzleAdapter } from 'better-auth/adapters/drizzle';
+import { APIError, createAuthMiddleware } from 'better-auth/api';
+import { magicLink, twoFactor } from 'better-auth/plugins';
+import { eq } from 'drizzle-orm';
+import {
+  AUTH_LINK_LIFETIMES,
+  changeEmailEmail,
+  magicLinkEmail,
+  resetPasswordEmail,
+  verificationEmail,
+} from './auth-emails';
+import {
+  hashBackupCode,
+  hashedBackupCodeStorage,
+  VERIFY_BACKUP_CODE_PATH,
+} from './backup-codes';
+import { isValidTimeZone } from './dates';
 import { db } from './db';
 import * as schema from './db/schema';
+import {
+  clearFailedSignIns,
+  describeWait,
+  recordFailedSignIn,
+  signInLockedUntil,
+} from './login-lockout';
+import { type MailMessage, sendMail } from './mail';
+import { CLIENT_ADDRESS_HEADER } from './rate-limit';
+
+// Update hooks replace the update with what they return, so the data is
+// handed back unchanged
+const assertValidTimeZone = async <T extends Record<string, unknown>>(
+  data: T,
+) => {
+  if (typeof data.timezone === 'string' && !isValidTimeZone(data.timezone)) {
+    throw new APIError('BAD_REQUEST', { message: 'Invalid timezone' });
+  }
+  return { data };
+};
+
+const SIGN_IN_PATH = '/sign-in/email';
+
+// Auth emails are sent without waiting, so how long a request takes
+// doesn't reveal whether an account exists
+const deliver = (message: MailMessage) => {
+  sendMail(message).catch((error) => {
+    console.error('Error sending auth email:', error);
+  });
+};
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -11,11 +56,152 @@ export const auth = betterAuth({
       session: schema.session,
       account: schema.account,
       verification: schema.verification,
+      twoFactor: schema.twoFactor,
     },
   }),
+  user: {
+    additionalFields: {
+      timezone: {
+        type: 'string',
+        required: false,
+        defaultValue: 'UTC',
+        input: true,
+      },
+      // Set and cleared through /api/account/deletion only
+      deletionScheduledAt: {
+        type: 'date',
+        required: false,
+        input: false,
+      },
+    },
+    // Verified addresses change once the current address approves; the new
+    // one is then verified like a fresh sign-up
+    changeEmail: {
+      enabled: true,
+      sendChangeEmailVerification: async ({ user, newEmail, url }) => {
+        deliver(changeEmailEmail(user, newEmail, url));
+      },
+    },
+  },
+  account: {
+    accountLinking: {
+      // Linking starts from a signed-in session, so the provider's email
+      // doesn't have to match the account's
+      allowDifferentEmails: true,
+    },
+  },
+  databaseHooks: {
+    user: {
+      create: { before: assertValidTimeZone },
+      update: { before: assertValidTimeZone },
+    },
+  },
   emailAndPassword: {
     enabled: true,
+    // Off by default so accounts created before verification existed can
+    // still sign in; unverified users are asked to verify in the app
+    requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    resetPasswordTokenExpiresIn: AUTH_LINK_LIFETIMES.resetPassword,
+    revokeSessionsOnPasswordReset: true,
+    sendResetPassword: async ({ user, url }) => {
+      deliver(resetPasswordEmail(user, url));
+    },
+  },
+  emailVerification: {
+    sendOnSignUp: true,
+    // Only happens while verification is required
+    sendOnSignIn: true,
+    autoSignInAfterVerification: true,
+    expiresIn: AUTH_LINK_LIFETIMES.verification,
+    sendVerificationEmail: async ({ user, url }) => {
+      deliver(verificationEmail(user, url));
+    },
+  },
+  // Requests are limited per address by src/proxy.ts. Better Auth's own
+  // limiter is kept for two-factor codes and sign-in links only, with the
+  // plugins' limits, since a guessed code signs someone in
+  rateLimit: {
+    enabled: true,
+    customRules: {
+      '/two-factor/*': { window: 10, max: 3 },
+      '/sign-in/magic-link': { window: 60, max: 5 },
+      '/magic-link/verify': { window: 60, max: 5 },
+      '/**': false,
+    },
+  },
+  advanced: {
+    ipAddress: { ipAddressHeaders: [CLIENT_ADDRESS_HEADER] },
+  },
+  hooks: {
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path === SIGN_IN_PATH && typeof ctx.body?.email === 'string') {
+        const lockedUntil = await signInLockedUntil(ctx.body.email);
+        if (lockedUntil) {
+          const waitMs = lockedUntil - Date.now();
+          throw new APIError(
+            'TOO_MANY_REQUESTS',
+            {
+              code: 'SIGN_IN_LOCKED',
+              message: `Too many failed sign-in attempts. Try again in ${describeWait(waitMs)}, or use "Forgot password?" or an email sign-in link.`,
+            },
+            { 'Retry-After': String(Math.ceil(waitMs / 1000)) },
+          );
+        }
+      }
+      if (
+        ctx.path === VERIFY_BACKUP_CODE_PATH &&
+        typeof ctx.body?.code === 'string'
+      ) {
+        return {
+          context: {
+            body: { ...ctx.body, code: hashBackupCode(ctx.body.code) },
+          },
+        };
+      }
+    }),
+    after: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== SIGN_IN_PATH || typeof ctx.body?.email !== 'string') {
+        return;
+      }
+      const returned = ctx.context.returned;
+      if (!(returned instanceof APIError)) {
+        await clearFailedSignIns(ctx.body.email);
+      } else if (returned.status === 'UNAUTHORIZED') {
+        await recordFailedSignIn(ctx.body.email);
+      }
+    }),
   },
+  plugins: [
+    twoFactor({
+      issuer: 'Todo App',
+      backupCodeOptions: {
+        storeBackupCodes: hashedBackupCodeStorage(
+          async (): Promise<string> => (await auth.$context).secret,
+        ),
+      },
+    }),
+    magicLink({
+      expiresIn: AUTH_LINK_LIFETIMES.magicLink,
+      storeToken: 'hashed',
+      // Links only go to existing accounts, and requests for unknown
+      // addresses look the same as any other. Accounts with two-factor
+      // authentication don't get links, since a link would skip the code.
+      sendMagicLink: async ({ email, url }) => {
+        const [account] = await db
+          .select({
+            email: schema.user.email,
+            name: schema.user.name,
+            twoFactorEnabled: schema.user.twoFactorEnabled,
+          })
+          .from(schema.user)
+          .where(eq(schema.user.email, email.toLowerCase()))
+          .limit(1);
+        if (account && !account.twoFactorEnabled) {
+          deliver(magicLinkEmail(account, url));
+        }
+      },
+    }),
+  ],
   socialProviders: (() => {
     const providers: Partial<
       Record<'google' | 'github', { clientId: string; clientSecret: string }>
@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GET, PATCH } from '@/app/api/todos/[id]/route';
+import { POST } from '@/app/api/todos/route';
+import { createList, createUser, params, requestsAs } from '@/test/fixtures';
+import { authorizeList, authorizeTodo, canMoveOutOfList } from './authz';
+import type { List } from './db/schema';
+import type { TodoWithDetails } from './todos';
+
+type Requests = Awaited<ReturnType<typeof requestsAs>>;
+
+const PEOPLE = ['owner', 'editor', 'viewer', 'outsider'] as const;
+type Person = (typeof PEOPLE)[number];
+
+let list: List;
+const ids = {} as Record<Person, string>;
+const as = {} as Record<Person, Requests>;
+
+beforeAll(async () => {
+  for (const name of PEOPLE) {
+    const created = await createUser(name);
+    ids[name] = created.id;
+    as[name] = await requestsAs(created.id);
+  }
+  list = await createList(ids.owner, [
+    [ids.editor, 'editor'],
+    [ids.viewer, 'viewer'],
+  ]);
+});
+
+async function createTodo(
+  request: Requests,
+  listId: string | null = list.id,
+): Promise<TodoWithDetails> {
+  const response = await POST(
+    request('POST', '/api/todos', { title: 'Shared todo', listId }),
+  );
+  expect(response.status).toBe(201);
+  return response.json();
+}
+
+function patch(request: Requests, todo: TodoWithDetails, body: unknown) {
+  return PATCH(
+    request('PATCH', `/api/todos/${todo.id}`, body, {
+      'If-Match': `"${todo.version}"`,
+    }),
+    params({ id: todo.id }),
+  );
+}
+
+describe('list roles', () => {
+  it("lets every member read the list's todos and hides them from others", async () => {
+    const todo = await createTodo(as.owner);
+    const statuses = await Promise.all(
+      PEOPLE.map(
+        async (name) =>
+          (
+            await GET(
+              as[name]('GET', `/api/todos/${todo.id}`),
+              params({ id: todo.id }),
+            )
+          ).status,
+      ),
+    );
+    expect(statuses).toEqual([200, 200, 200, 404]);
+  });
+
+  it("reports each member's role on the todo", async () => {
+    const todo = await createTodo(as.owner);
+    for (const name of ['owner', 'editor', 'viewer'] as const) {
+      const access = await authorizeTodo(ids[name], todo.id, 'viewer');
+      expect('role' in access && access.role).toBe(name);
+    }
+  });
+
+  it('lets editors change todos but not viewers', async () => {
+    const todo = await createTodo(as.owner);
+    expect((await patch(as.viewer, todo, { title: 'Viewer' })).status).toBe(
+      403,
+    );
+    expect((await patch(as.editor, todo, { title: 'Editor' })).status).toBe(
+      200,
+    );
+  });
+
+  it('lets editors add todos to the list but not viewers', async () => {
+    const response = await POST(
+      as.viewer('POST', '/api/todos', { title: 'No', listId: list.id }),
+    );
+    expect(response.status).toBe(403);
+    await createTodo(as.editor);
+  });
+
+  it('keeps todos outside any list private to their creator', async () => {
+    const todo = await createTodo(as.editor, null);
+    const response = await GET(
+      as.owner('GET', `/api/todos/${todo.id}`),
+      params({ id: todo.id }),
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("reports lists the user can't see as missing", async () => {
+    expect(await authorizeList(ids.outsider, list.id, 'viewer')).toEqual({
+      error: 'List not found',
+      status: 404,
+    });
+    expect(await authorizeList(ids.viewer, list.id, 'editor')).toEqual({
+      error: 'Forbidden',
+      status: 403,
+    });
+  });
+});
+
+describe('moving todos out of a list', () => {
+  it("stops editors from taking the owner's todos out", async () => {
+    const todo = await createTodo(as.owner);
+    const response = await patch(as.editor, todo, { listId: null });
+    expect(response.status).toBe(403);
+  });
+
+  it('lets editors move their own todos and owners move any', async () => {
+    const own = await createTodo(as.editor);
+    expect((await patch(as.editor, own, { listId: null })).status).toBe(200);
+
+    const other = await createTodo(as.editor);
+    expect((await patch(as.owner, other, { listId: null })).status).toBe(200);
+  });
+
+  it('only applies to todos in a list', async () => {
+    const todo = await createTodo(as.editor, null);
+    const access = await authorizeTodo(ids.editor, todo.id, 'editor');
+    if ('error' in access) {
+      throw new Error(access.error);
+    }
+    expect(canMoveOutOfList(ids.editor, access.todo, access.role)).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { and, eq, type SQL, sql } from 'drizzle-orm';
+import { db } from './db';
+import { type List, listMembers, lists, type Todo, todos } from './db/schema';
+import { hasRole, type ListRole } from './roles';
+
+// Authorization for lists and todos. A list's creator owns it and members
+// get the role stored in list_members. Todos in a list inherit the caller's
+// role on that list; todos outside any list are private to their creator.
+// Routes call authorizeList/authorizeTodo instead of filtering on userId.
+// Todo checks leave trashed todos out unless `trashed` asks for them instead.
+
+type Denied = { error: string; status: 403 | 404 };
+
+// The user's role on the list `listId` refers to, or null. Subqueries use
+// their own aliases so they can be embedded in queries over "lists".
+function listRole(userId: string, listId: SQL) {
+  return sql<ListRole | null>`(case when exists (select 1 from "lists" as "role_lists" where "role_lists"."id" = ${listId} and "role_lists"."userId" = ${userId}) then 'owner' else (select "role_members"."role" from "list_members" as "role_members" where "role_members"."listId" = ${listId} and "role_members"."userId" = ${userId}) end)`;
+}
+
+// Role column for queries over "lists"
+export function listRoleColumn(userId: string) {
+  return listRole(userId, sql`"lists"."id"`);
+}
+
+// Role column for queries over "todos"
+export function todoRoleColumn(userId: string) {
+  return sql<ListRole>`(case when "todos"."listId" is null then 'owner' else ${listRole(userId, sql`"todos"."listId"`)} end)`;
+}
+
+// Ids of the lists the user created or was added to
+function accessibleListIds(userId: string) {
+  return sql`(select "access_lists"."id" from "lists" as "access_lists" where "access_lists"."userId" = ${userId} union select "access_members"."listId" from "list_members" as "access_members" where "access_members"."userId" = ${userId})`;
+}
+
+export function accessibleListsFilter(userId: string): SQL {
+  return sql`"lists"."id" in ${accessibleListIds(userId)}`;
+}
+
+export function accessibleTodosFilter(userId: string, trashed = false): SQL {
+  const trashFilter = trashed
+    ? sql`"todos"."deletedAt" is not null`
+    : sql`"todos"."deletedAt" is null`;
+  return sql`(${trashFilter} and (("todos"."listId" is null and "todos"."userId" = ${userId}) or "todos"."listId" in ${accessibleListIds(userId)}))`;
+}
+
+// Lists the user can't see are reported as missing rather than forbidden
+export async function authorizeList(
+  userId: string,
+  listId: string,
+  required: ListRole,
+): Promise<{ list: List; role: ListRole } | Denied> {
+  const [row] = await db
+    .select({ list: lists, role: listRoleColumn(userId) })
+    .from(lists)
+    .where(eq(lists.id, listId))
+    .limit(1);
+
+  if (!row?.role) {
+    return { error: 'List not found', status: 404 };
+  }
+  if (!hasRole(row.role, required)) {
+    return { error: 'Forbidden', status: 403 };
+  }
+  return { list: row.list, role: row.role };
+}
+
+export async function authorizeTodo(
+  userId: string,
+  todoId: string,
+  required: ListRole,
+  trashed = false,
+): Promise<{ todo: Todo; role: ListRole } | Denied> {
+  const [row] = await db
+    .select({ todo: todos, role: todoRoleColumn(userId) })
+    .from(todos)
+    .where(and(eq(todos.id, todoId), accessibleTodosFilter(userId, trashed)))
+    .limit(1);
+
+  if (!row) {
+    return { error: 'Todo not found', status: 404 };
+  }
+  if (!hasRole(row.role, required)) {
+    return { error: 'Forbidden', status: 403 };
+  }
+  return { todo: row.todo, role: row.role };
+}
+
+// Whether the user may take the todo out of its list, to another list or the
+// inbox. Editing isn't enough: an editor could otherwise carry the owner's
+// todos off to a list only the editor can see. The list's owner and the
+// todo's creator can.
+export function canMoveOutOfList(userId: string, todo: Todo, role: ListRole) {
+  return !todo.listId || todo.userId === userId || hasRole(role, 'owner');
+}
+
+// Everyone who can see the todo: the list's owner and members, or only its
+// creator for a todo outside any list
+export async function todoViewerIds(todo: Todo) {
+  if (!todo.listId) {
+    return [todo.userId];
+  }
+  const [list] = await db
+    .select({ userId: lists.userId })
+    .from(lists)
+    .where(eq(lists.id, todo.listId));
+  const members = await db
+    .select({ userId: listMembers.userId })
+    .from(listMembers)
+    .where(eq(listMembers.listId, todo.listId));
+  return [
+    ...(list ? [list.userId] : []),
+    ...members.map((member) => member.userId),
+  ];
+}
@@ -0,0 +1,22 @@
+import type { TodoWithDetails } from './todos';
+
+// Operations POST /api/todos/bulk applies to every selected todo
+export const BULK_OPERATIONS = [
+  'complete',
+  'uncomplete',
+  'delete',
+  'move',
+  'set',
+] as const;
+export type BulkOperation = (typeof BULK_OPERATIONS)[number];
+
+export const MAX_BULK_IDS = 200;
+
+// Outcome for one todo: 200, or the status and error a single-todo request
+// would have returned. A 412 carries the todo as it is now.
+export interface BulkResult {
+  id: string;
+  status: number;
+  error?: string;
+  current?: TodoWithDetails;
+}
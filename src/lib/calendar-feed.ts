@@ -0,0 +1,255 @@
+import { randomBytes } from 'node:crypto';
+import {
+  and,
+  asc,
+  eq,
+  getTableColumns,
+  gte,
+  isNotNull,
+  isNull,
+  or,
+} from 'drizzle-orm';
+import { hashToken } from './api-tokens';
+import { accessibleTodosFilter } from './authz';
+import type {
+  CalendarFeedStatus,
+  CalendarFeedType,
+  CreatedCalendarFeed,
+} from './calendar-schemas';
+import { DEFAULT_TIMEZONE } from './dates';
+import { db } from './db';
+import { lists, type Todo, todos, user } from './db/schema';
+import {
+  calendarDocument,
+  dateProperty,
+  escapeText,
+  formatDuration,
+  formatUtc,
+  recurrenceRule,
+  timeZoneComponent,
+} from './ical';
+import type { Priority } from './priorities';
+import { todoTagNamesColumn } from './todos';
+
+// Calendar feeds: a secret URL per user that serves the todos they can see
+// as iCalendar, for calendar apps that subscribe to a URL and can't sign
+// in. As with API tokens only the secret's hash is stored, so the URL is
+// shown once and replaced rather than looked up again.
+
+const TOKEN_PREFIX = 'cal_';
+// Completed todos leave the feed once they haven't changed for this long
+const COMPLETED_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITIES: Record<Priority, number | null> = {
+  none: null,
+  low: 9,
+  medium: 5,
+  high: 2,
+  urgent: 1,
+};
+
+type FeedTodo = Todo & { listName: string | null; tagNames: string[] };
+
+export async function calendarFeedStatus(
+  userId: string,
+): Promise<CalendarFeedStatus> {
+  const [row] = await db
+    .select({
+      tokenHash: user.calendarTokenHash,
+      createdAt: user.calendarTokenCreatedAt,
+    })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+  return {
+    enabled: Boolean(row?.tokenHash),
+    createdAt: row?.createdAt ?? null,
+  };
+}
+
+// Turns the feed on, or gives it a new URL so the old one stops working
+export async function rotateCalendarToken(
+  userId: string,
+): Promise<CreatedCalendarFeed> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const createdAt = new Date();
+  await db
+    .update(user)
+    .set({
+      calendarTokenHash: hashToken(token),
+      calendarTokenCreatedAt: createdAt,
+    })
+    .where(eq(user.id, userId));
+  return { token, createdAt };
+}
+
+export async function revokeCalendarToken(userId: string) {
+  await db
+    .update(user)
+    .set({ calendarTokenHash: null, calendarTokenCreatedAt: null })
+    .where(eq(user.id, userId));
+}
+
+// The owner of a feed token, or null once it has been rotated or revoked
+export async function findCalendarUser(token: string) {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+  const [row] = await db
+    .select({ id: user.id, timezone: user.timezone })
+    .from(user)
+    .where(
+      and(
+        eq(user.calendarTokenHash, hashToken(token)),
+        // Feeds are off while the account is waiting to be deleted
+        isNull(user.deletionScheduledAt),
+      ),
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+// Reminders are relative to the due date, so they repeat with a recurring
+// event; VTODOs count them from DUE
+function alarm(todo: FeedTodo, kind: 'VEVENT' | 'VTODO') {
+  if (!todo.remindAt || todo.completed) {
+    return [];
+  }
+  const trigger = todo.dueAt
+    ? `TRIGGER${kind === 'VTODO' ? ';RELATED=END' : ''}:${formatDuration(todo.remindAt.getTime() - todo.dueAt.getTime())}`
+    : `TRIGGER;VALUE=DATE-TIME:${formatUtc(todo.remindAt)}`;
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(todo.title)}`,
+    trigger,
+    'END:VALARM',
+  ];
+}
+
+// Events are for todos with a due date: all-day on a due date without a
+// time, and without a length on one with a time. Calendars have no notion
+// of done, so completed todos are marked in the summary. A recurring
+// todo's open occurrence carries the rule; the app creates the next todo
+// only when it is completed, so the completed ones before it are single
+// events.
+//
+// Tasks carry STATUS and COMPLETED, and subtasks point at their parent.
+// They don't repeat: a task list would show the future occurrences as
+// separate open tasks, while the app only has one at a time.
+function todoComponent(
+  todo: FeedTodo,
+  type: CalendarFeedType,
+  timeZone: string,
+  stamp: string,
+) {
+  const kind = type === 'events' ? 'VEVENT' : 'VTODO';
+  const lines = [
+    `BEGIN:${kind}`,
+    `UID:${todo.id}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatUtc(todo.createdAt)}`,
+    `LAST-MODIFIED:${formatUtc(todo.updatedAt)}`,
+  ];
+
+  if (kind === 'VEVENT' && todo.dueAt) {
+    lines.push(
+      dateProperty('DTSTART', todo.dueAt, todo.dueHasTime, timeZone),
+      `SUMMARY:${escapeText(todo.completed ? `✓ ${todo.title}` : todo.title)}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (todo.recurrence && !todo.completed) {
+      lines.push(
+        recurrenceRule(
+          todo.recurrence,
+          todo.dueAt,
+          todo.dueHasTime,
+          timeZone,
+          todo.occurrence,
+        ),
+      );
+    }
+  } else {
+    if (todo.dueAt) {
+      lines.push(dateProperty('DUE', todo.dueAt, todo.dueHasTime, timeZone));
+    }
+    lines.push(
+      `SUMMARY:${escapeText(todo.title)}`,
+      `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    );
+    if (todo.completed) {
+      lines.push(
+        `COMPLETED:${formatUtc(todo.updatedAt)}`,
+        'PERCENT-COMPLETE:100',
+      );
+    }
+    if (todo.parentId) {
+      lines.push(`RELATED-TO:${todo.parentId}`);
+    }
+  }
+
+  if (todo.description) {
+    lines.push(`DESCRIPTION:${escapeText(todo.description)}`);
+  }
+  const categories = [todo.listName, ...todo.tagNames].filter(
+    (name): name is string => Boolean(name),
+  );
+  if (categories.length > 0) {
+    lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+  }
+  const priority = ICAL_PRIORITIES[todo.priority];
+  if (priority !== null) {
+    lines.push(`PRIORITY:${priority}`);
+  }
+  lines.push(...alarm(todo, kind), `END:${kind}`);
+  return lines;
+}
+
+export async function calendarFeed(
+  feedUser: { id: string; timezone?: string | null },
+  type: CalendarFeedType,
+) {
+  const timeZone = feedUser.timezone || DEFAULT_TIMEZONE;
+  const completedSince = new Date(
+    Date.now() - COMPLETED_RETENTION_DAYS * DAY_MS,
+  );
+  const rows: FeedTodo[] = await db
+    .select({
+      ...getTableColumns(todos),
+      listName: lists.name,
+      tagNames: todoTagNamesColumn(feedUser.id),
+    })
+    .from(todos)
+    .leftJoin(lists, eq(lists.id, todos.listId))
+    .where(
+      and(
+        accessibleTodosFilter(feedUser.id),
+        type === 'events' ? isNotNull(todos.dueAt) : undefined,
+        or(eq(todos.completed, false), gte(todos.updatedAt, completedSince)),
+      ),
+    )
+    .orderBy(asc(todos.dueAt), asc(todos.id));
+
+  const stamp = formatUtc(new Date());
+  // Times are written in the user's timezone, which has to be described
+  const needsTimeZone =
+    timeZone !== 'UTC' && rows.some((todo) => todo.dueAt && todo.dueHasTime);
+
+  return calendarDocument([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Todo App//Todos//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${type === 'events' ? 'Todos' : 'Todo tasks'}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    // How often subscribers should refresh, in both common spellings
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...(needsTimeZone ? timeZoneComponent(timeZone) : []),
+    ...rows.flatMap((todo) => todoComponent(todo, type, timeZone, stamp)),
+    'END:VCALENDAR',
+  ]);
+}
@@ -0,0 +1,31 @@
+import { object, oneOf, optional } from './validation';
+
+// Query and responses of the /api/calendar routes.
+
+// events: VEVENTs for todos with a due date, which every calendar shows.
+// todos: VTODOs for all todos, for clients with a task list.
+export const CALENDAR_FEED_TYPES = ['events', 'todos'] as const;
+export type CalendarFeedType = (typeof CALENDAR_FEED_TYPES)[number];
+
+export const calendarFeedQuerySchema = object({
+  type: optional(oneOf(CALENDAR_FEED_TYPES)),
+});
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: Date | null;
+}
+
+// Returned when a feed is turned on or its URL rotated; the token is not
+// stored and can't be shown again
+export interface CreatedCalendarFeed {
+  token: string;
+  createdAt: Date;
+}
+
+// Path of the feed for a token; calendar clients like a .ics extension
+export const calendarFeedPath = (
+  token: string,
+  type: CalendarFeedType = 'events',
+) =>
+  `/api/calendar/${encodeURIComponent(token)}.ics${type === 'events' ? '' : `?type=${type}`}`;
@@ -0,0 +1,11 @@
+// Palette offered for lists and tags
+export const PALETTE = [
+  '#3b82f6',
+  '#10b981',
+  '#f59e0b',
+  '#ef4444',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+export const FALLBACK_COLOR = '#9ca3af';
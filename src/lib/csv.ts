@@ -0,0 +1,71 @@
+// RFC 4180 CSV: fields are separated by commas, and fields holding a comma,
+// quote or line break are quoted with inner quotes doubled.
+
+export function formatCsvRow(values: (string | number | boolean | null)[]) {
+  return `${values
+    .map((value) => {
+      const text = value === null ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+    })
+    .join(',')}\r\n`;
+}
+
+// Splits CSV text into records of fields. Blank lines are skipped; a quote
+// that is never closed runs to the end of the text.
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Whether the current record has any content, to skip blank lines
+  let started = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (started) {
+      records.push(record);
+    }
+    record = [];
+    started = false;
+  };
+
+  // A byte order mark from spreadsheet exports isn't part of the first field
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+      started = true;
+    } else if (char === ',') {
+      endField();
+      started = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+      started = true;
+    }
+  }
+  if (started || field) {
+    endRecord();
+  }
+  return records;
+}
@@ -0,0 +1,141 @@
+// Timezone-aware date helpers shared by the API routes and the client.
+// All instants are stored in UTC; "zoned" values are wall-clock times in a
+// user's IANA timezone.
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+// Milliseconds to add to a UTC instant to get the wall-clock time in timeZone
+export function timeZoneOffset(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+) {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = timeZoneOffset(new Date(guess), timeZone);
+  // Re-check once so wall times right after a DST switch resolve correctly
+  const corrected = timeZoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+export function startOfZonedDay(date: Date, timeZone: string, addDays = 0) {
+  const p = zonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + addDays, 0, 0, timeZone);
+}
+
+// Parses "YYYY-MM-DD" (all-day) or "YYYY-MM-DDTHH:mm" (wall time in timeZone).
+// Full ISO strings with an offset or "Z" are taken as absolute instants.
+export function parseZonedInput(
+  value: string,
+  timeZone: string,
+): { date: Date; hasTime: boolean } | null {
+  const dateMatch = DATE_PATTERN.exec(value);
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch.map(Number);
+    const date = zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+    return isRealDate(date, timeZone, year, month, day)
+      ? { date, hasTime: false }
+      : null;
+  }
+
+  const dateTimeMatch = DATE_TIME_PATTERN.exec(value);
+  if (dateTimeMatch) {
+    const [, year, month, day, hour, minute] = dateTimeMatch.map(Number);
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+    const date = zonedTimeToUtc(year, month, day, hour, minute, timeZone);
+    return isRealDate(date, timeZone, year, month, day)
+      ? { date, hasTime: true }
+      : null;
+  }
+
+  const date = new Date(value);
+  if (/[zZ]|[+-]\d{2}:\d{2}$/.test(value) && !Number.isNaN(date.getTime())) {
+    return { date, hasTime: true };
+  }
+
+  return null;
+}
+
+// Rejects overflowing inputs such as 2025-02-30
+function isRealDate(
+  date: Date,
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+) {
+  const p = zonedParts(date, timeZone);
+  return p.year === year && p.month === month && p.day === day;
+}
+
+// Inverse of parseZonedInput for pre-filling date/time inputs
+export function formatZonedInput(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(p.hour)}:${pad(p.minute)}`,
+  };
+}
+
+export function formatDue(date: Date, hasTime: boolean, timeZone: string) {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    ...(hasTime ? { hour: 'numeric', minute: '2-digit' } : {}),
+  }).format(date);
+}
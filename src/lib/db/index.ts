@@ -7,3 +7,5 @@ const client = createClient({
 });
 
 export const db = drizzle(client, { schema });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
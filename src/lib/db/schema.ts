@@ -1,4 +1,26 @@
-import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import {
+  type AnySQLiteColumn,
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
+import type { ApiTokenScope } from '../api-token-schemas';
+import {
+  TODO_EVENT_ACTIONS,
+  type TodoChanges,
+  type TodoEventEffects,
+} from '../history';
+import { PRIORITIES } from '../priorities';
+import type { RecurrenceRule } from '../recurrence';
+import { LIST_ROLES } from '../roles';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+} from '../webhook-schemas';
 
 // User table for Better Auth
 export const user = sqliteTable('user', {
@@ -9,6 +31,21 @@ export const user = sqliteTable('user', {
     .notNull()
     .default(false),
   image: text('image'),
+  // IANA timezone used for due dates and smart views
+  timezone: text('timezone').notNull().default('UTC'),
+  // SHA-256 of the secret in the user's calendar feed URL; null while the
+  // feed is turned off
+  calendarTokenHash: text('calendarTokenHash').unique(),
+  calendarTokenCreatedAt: integer('calendarTokenCreatedAt', {
+    mode: 'timestamp',
+  }),
+  // Set once a TOTP app has been confirmed; sign-in then asks for a code
+  twoFactorEnabled: integer('twoFactorEnabled', { mode: 'boolean' })
+    .notNull()
+    .default(false),
+  // When the account is deleted for good, while a requested deletion is in
+  // its grace period (see lib/account-deletion.ts)
+  deletionScheduledAt: integer('deletionScheduledAt', { mode: 'timestamp' }),
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
 });
@@ -58,24 +95,252 @@ export const verification = sqliteTable('verification', {
   updatedAt: integer('updatedAt', { mode: 'timestamp' }),
 });
 
+// Two-factor table for Better Auth: the encrypted TOTP secret and the
+// SHA-256 hashes of the unused backup codes
+export const twoFactor = sqliteTable('twoFactor', {
+  id: text('id').primaryKey(),
+  secret: text('secret').notNull(),
+  backupCodes: text('backupCodes').notNull(),
+  userId: text('userId')
+    .notNull()
+    .references(() => user.id, { onDelete: 'cascade' }),
+});
+
+// List table for grouping todos
+export const lists = sqliteTable('lists', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  color: text('color'),
+  sortOrder: integer('sortOrder').notNull().default(0),
+  archived: integer('archived', { mode: 'boolean' }).notNull().default(false),
+  userId: text('userId')
+    .notNull()
+    .references(() => user.id, { onDelete: 'cascade' }),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
+});
+
+// List membership for shared lists. The list's creator (lists.userId) is
+// always an owner and has no row here.
+export const listMembers = sqliteTable(
+  'list_members',
+  {
+    listId: text('listId')
+      .notNull()
+      .references(() => lists.id, { onDelete: 'cascade' }),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: LIST_ROLES }).notNull(),
+    createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.listId, table.userId] })],
+);
+
 // TODO table
 export const todos = sqliteTable('todos', {
   id: text('id').primaryKey(),
   title: text('title').notNull(),
   description: text('description'),
   completed: integer('completed', { mode: 'boolean' }).notNull().default(false),
+  // Who last marked the todo complete; null while it is open
+  completedBy: text('completedBy').references(() => user.id, {
+    onDelete: 'set null',
+  }),
+  listId: text('listId').references(() => lists.id, { onDelete: 'set null' }),
+  dueAt: integer('dueAt', { mode: 'timestamp' }),
+  // false means dueAt is an all-day date (midnight in the user's timezone)
+  dueHasTime: integer('dueHasTime', { mode: 'boolean' })
+    .notNull()
+    .default(false),
+  remindAt: integer('remindAt', { mode: 'timestamp' }),
+  recurrence: text('recurrence', { mode: 'json' }).$type<RecurrenceRule>(),
+  // 1-based position of this todo in its recurring series
+  occurrence: integer('occurrence').notNull().default(1),
+  // The occurrence whose completion created this one, so completing it
+  // again doesn't schedule a second copy
+  previousOccurrenceId: text('previousOccurrenceId').references(
+    (): AnySQLiteColumn => todos.id,
+    { onDelete: 'set null' },
+  ),
+  // Subtasks point at their parent todo; only one level of nesting is allowed
+  parentId: text('parentId').references((): AnySQLiteColumn => todos.id, {
+    onDelete: 'cascade',
+  }),
+  // When set, completing this todo also completes all of its subtasks
+  completeSubtasks: integer('completeSubtasks', { mode: 'boolean' })
+    .notNull()
+    .default(false),
+  priority: text('priority', { enum: PRIORITIES }).notNull().default('none'),
+  important: integer('important', { mode: 'boolean' }).notNull().default(false),
+  // Fractional ordering key among siblings (see lib/positions.ts). Rows that
+  // predate manual ordering share the default and are spread out on first move.
+  position: text('position').notNull().default('a0'),
+  // Set while the todo is in the trash; purged 30 days later (lib/trash.ts)
+  deletedAt: integer('deletedAt', { mode: 'timestamp' }),
+  // The todo's creator; access to todos in a list comes from list membership
   userId: text('userId')
     .notNull()
     .references(() => user.id, { onDelete: 'cascade' }),
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
+  // Bumped by every change; served as the ETag that PATCH and DELETE must
+  // match (If-Match) so concurrent edits can't silently overwrite each other
+  version: integer('version').notNull().default(1),
 });
 
+// Tag table, names are unique per user
+export const tags = sqliteTable(
+  'tags',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    color: text('color'),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [uniqueIndex('tags_user_name_idx').on(table.userId, table.name)],
+);
+
+// Join table between todos and tags
+export const todoTags = sqliteTable(
+  'todo_tags',
+  {
+    todoId: text('todoId')
+      .notNull()
+      .references(() => todos.id, { onDelete: 'cascade' }),
+    tagId: text('tagId')
+      .notNull()
+      .references(() => tags.id, { onDelete: 'cascade' }),
+  },
+  (table) => [primaryKey({ columns: [table.todoId, table.tagId] })],
+);
+
+// Audit history of todo changes, kept until the todo is purged from the trash
+export const todoEvents = sqliteTable(
+  'todo_events',
+  {
+    id: text('id').primaryKey(),
+    todoId: text('todoId')
+      .notNull()
+      .references(() => todos.id, { onDelete: 'cascade' }),
+    // The actor; null once their account is gone
+    userId: text('userId').references(() => user.id, { onDelete: 'set null' }),
+    action: text('action', { enum: TODO_EVENT_ACTIONS }).notNull(),
+    changes: text('changes', { mode: 'json' }).$type<TodoChanges>().notNull(),
+    effects: text('effects', { mode: 'json' }).$type<TodoEventEffects>(),
+    // Milliseconds, so changes made within the same second keep their order
+    createdAt: integer('createdAt', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('todo_events_todo_idx').on(table.todoId, table.createdAt)],
+);
+
+// Personal API tokens for scripts and the CLI. Only a SHA-256 hash of the
+// secret is stored; `prefix` is its first few characters, shown so the user
+// can tell their tokens apart.
+export const apiTokens = sqliteTable(
+  'api_tokens',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    tokenHash: text('tokenHash').notNull().unique(),
+    prefix: text('prefix').notNull(),
+    scopes: text('scopes', { mode: 'json' }).$type<ApiTokenScope[]>().notNull(),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Null for tokens that never expire
+    expiresAt: integer('expiresAt', { mode: 'timestamp' }),
+    lastUsedAt: integer('lastUsedAt', { mode: 'timestamp' }),
+    createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('api_tokens_user_idx').on(table.userId)],
+);
+
+// Outgoing webhooks for changes to the todos a user can see. The secret
+// signs each delivery, so unlike API tokens it is kept as is.
+export const webhooks = sqliteTable(
+  'webhooks',
+  {
+    id: text('id').primaryKey(),
+    url: text('url').notNull(),
+    events: text('events', { mode: 'json' }).$type<WebhookEvent[]>().notNull(),
+    secret: text('secret').notNull(),
+    // Paused webhooks get no new deliveries and their pending ones wait
+    active: integer('active', { mode: 'boolean' }).notNull().default(true),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    createdAt: integer('createdAt', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('webhooks_user_idx').on(table.userId)],
+);
+
+// Delivery log and retry queue of the webhooks (see lib/webhooks.ts)
+export const webhookDeliveries = sqliteTable(
+  'webhook_deliveries',
+  {
+    id: text('id').primaryKey(),
+    webhookId: text('webhookId')
+      .notNull()
+      .references(() => webhooks.id, { onDelete: 'cascade' }),
+    event: text('event', { enum: WEBHOOK_EVENTS }).notNull(),
+    // The exact JSON body that is signed and sent on every attempt
+    payload: text('payload').notNull(),
+    status: text('status', { enum: WEBHOOK_DELIVERY_STATUSES })
+      .notNull()
+      .default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    // When a pending delivery is next sent; null once it is done
+    nextAttemptAt: integer('nextAttemptAt', { mode: 'timestamp_ms' }),
+    // Outcome of the latest attempt; responseStatus is null when the
+    // request itself failed and response then holds the error
+    responseStatus: integer('responseStatus'),
+    response: text('response'),
+    lastAttemptAt: integer('lastAttemptAt', { mode: 'timestamp_ms' }),
+    createdAt: integer('createdAt', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    index('webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt),
+    index('webhook_deliveries_webhook_idx').on(
+      table.webhookId,
+      table.createdAt,
+    ),
+  ],
+);
+
+// Counters of the SQLite rate limit store (see lib/rate-limit.ts). Rows
+// are useless once expired and are pruned hourly.
+export const rateLimits = sqliteTable(
+  'rate_limits',
+  {
+    key: text('key').primaryKey(),
+    value: integer('value').notNull(),
+    expiresAt: integer('expiresAt', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('rate_limits_expires_idx').on(table.expiresAt)],
+);
+
 // Export types
 export type User = typeof user.$inferSelect;
 export type NewUser = typeof user.$inferInsert;
 export type Session = typeof session.$inferSelect;
 export type Account = typeof account.$inferSelect;
 export type Verification = typeof verification.$inferSelect;
+export type TwoFactor = typeof twoFactor.$inferSelect;
+export type List = typeof lists.$inferSelect;
+export type NewList = typeof lists.$inferInsert;
+export type ListMember = typeof listMembers.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
 export type Todo = typeof todos.$inferSelect;
 export type NewTodo = typeof todos.$inferInsert;
+export type TodoEvent = typeof todoEvents.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
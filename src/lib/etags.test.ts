@@ -0,0 +1,128 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DELETE, GET, PATCH } from '@/app/api/todos/[id]/route';
+import { POST as bulk } from '@/app/api/todos/bulk/route';
+import { POST } from '@/app/api/todos/route';
+import { createUser, params, requestsAs } from '@/test/fixtures';
+import type { BulkTodosResponse } from './todo-schemas';
+import type { TodoWithDetails } from './todos';
+
+let request: Awaited<ReturnType<typeof requestsAs>>;
+
+beforeAll(async () => {
+  request = await requestsAs((await createUser()).id);
+});
+
+async function createTodo(title = 'Versioned'): Promise<TodoWithDetails> {
+  return (await POST(request('POST', '/api/todos', { title }))).json();
+}
+
+function patch(id: string, body: unknown, ifMatch?: string) {
+  return PATCH(
+    request(
+      'PATCH',
+      `/api/todos/${id}`,
+      body,
+      ifMatch ? { 'If-Match': ifMatch } : {},
+    ),
+    params({ id }),
+  );
+}
+
+describe('If-Match on a todo', () => {
+  it('returns the version as the ETag', async () => {
+    const todo = await createTodo();
+    const response = await GET(
+      request('GET', `/api/todos/${todo.id}`),
+      params({ id: todo.id }),
+    );
+    expect(response.headers.get('ETag')).toBe(`"${todo.version}"`);
+  });
+
+  it('requires If-Match to change a todo', async () => {
+    const todo = await createTodo();
+    const response = await patch(todo.id, { title: 'Changed' });
+    expect(response.status).toBe(428);
+    expect((await response.json()).error.code).toBe('precondition_required');
+  });
+
+  it('applies a change made against the current version', async () => {
+    const todo = await createTodo();
+    const response = await patch(
+      todo.id,
+      { title: 'Changed' },
+      `"${todo.version}"`,
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe(`"${todo.version + 1}"`);
+  });
+
+  it('refuses a stale version with the current todo', async () => {
+    const todo = await createTodo();
+    await patch(todo.id, { title: 'First' }, `"${todo.version}"`);
+
+    const response = await patch(
+      todo.id,
+      { title: 'Second' },
+      `"${todo.version}"`,
+    );
+    expect(response.status).toBe(412);
+    expect(response.headers.get('ETag')).toBe(`"${todo.version + 1}"`);
+    const { error } = await response.json();
+    expect(error.code).toBe('precondition_failed');
+    expect(error.current).toMatchObject({
+      id: todo.id,
+      title: 'First',
+      version: todo.version + 1,
+    });
+  });
+
+  it('accepts any version for If-Match: *', async () => {
+    const todo = await createTodo();
+    await patch(todo.id, { title: 'First' }, `"${todo.version}"`);
+    expect((await patch(todo.id, { title: 'Second' }, '*')).status).toBe(200);
+  });
+
+  it('checks If-Match before moving a todo to the trash', async () => {
+    const todo = await createTodo();
+    const remove = (headers: Record<string, string>) =>
+      DELETE(
+        request('DELETE', `/api/todos/${todo.id}`, undefined, headers),
+        params({ id: todo.id }),
+      );
+
+    expect((await remove({})).status).toBe(428);
+    expect((await remove({ 'If-Match': '"99"' })).status).toBe(412);
+    expect((await remove({ 'If-Match': `"${todo.version}"` })).status).toBe(
+      200,
+    );
+  });
+});
+
+describe('versions in bulk requests', () => {
+  it('leaves todos changed since they were selected alone', async () => {
+    const changed = await createTodo('Changed elsewhere');
+    const untouched = await createTodo('Untouched');
+    await patch(changed.id, { title: 'Renamed' }, `"${changed.version}"`);
+
+    const response = await bulk(
+      request('POST', '/api/todos/bulk', {
+        operation: 'complete',
+        todos: [changed, untouched].map(({ id, version }) => ({ id, version })),
+      }),
+    );
+    const { results }: BulkTodosResponse = await response.json();
+
+    expect(results).toEqual([
+      {
+        id: changed.id,
+        status: 412,
+        error: 'This todo was changed by someone else',
+        current: expect.objectContaining({
+          title: 'Renamed',
+          completed: false,
+        }),
+      },
+      { id: untouched.id, status: 200 },
+    ]);
+  });
+});
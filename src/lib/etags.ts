@@ -0,0 +1,15 @@
+// A todo's version is served as a strong ETag such as "3". PATCH and DELETE
+// send it back in If-Match so a change only applies to the copy the client
+// last saw.
+
+export const versionETag = (version: number) => `"${version}"`;
+
+// Whether an If-Match header lists this version; "*" matches any. Weak tags
+// never match, as If-Match compares strongly.
+export function matchesVersion(ifMatch: string, version: number) {
+  const etag = versionETag(version);
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag);
+}
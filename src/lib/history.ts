@@ -0,0 +1,102 @@
+import type { Todo } from './db/schema';
+
+// Audit history for todos. Each change is stored as a todo_events row with a
+// field-level before/after diff. Deleting moves a todo to the trash and
+// restoring brings it back, so both are ordinary, undoable events.
+
+export const TODO_EVENT_ACTIONS = [
+  'create',
+  'update',
+  'complete',
+  'delete',
+  'restore',
+] as const;
+export type TodoEventAction = (typeof TODO_EVENT_ACTIONS)[number];
+
+// Values are stored as JSON, so dates come back as ISO strings
+export type TodoChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Other todos a completion changed, so that undoing it can change them back
+export interface TodoEventEffects {
+  // The next occurrence of a recurring todo
+  nextOccurrenceId?: string;
+  // Subtasks completed along with their parent
+  completedSubtaskIds?: string[];
+}
+
+// A todo's fields as history sees them; tagIds are the actor's own tags
+export type TrackedTodo = Pick<Todo, TrackedField> & { tagIds?: string[] };
+
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'completedBy',
+  'listId',
+  'dueAt',
+  'dueHasTime',
+  'remindAt',
+  'recurrence',
+  'completeSubtasks',
+  'priority',
+  'important',
+  'position',
+] as const;
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+// Fields shown in the timeline; the rest only matter for undo
+export const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  completed: 'status',
+  listId: 'list',
+  dueAt: 'due date',
+  remindAt: 'reminder',
+  recurrence: 'repeat',
+  completeSubtasks: 'subtask completion',
+  priority: 'priority',
+  important: 'important flag',
+  position: 'order',
+  tagIds: 'tags',
+};
+
+// Fields holding timestamps, which need reviving after a JSON round trip
+export const DATE_FIELDS = ['dueAt', 'remindAt'];
+
+const toJson = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : (value ?? null);
+
+// Fields that differ between two versions of a todo. Either side may be null
+// for creates and deletes.
+export function diffTodo(
+  before: TrackedTodo | null,
+  after: TrackedTodo | null,
+): TodoChanges {
+  const changes: TodoChanges = {};
+  const fields = [...TRACKED_FIELDS, 'tagIds'] as const;
+  for (const field of fields) {
+    if (
+      field === 'tagIds' &&
+      before?.tagIds === undefined &&
+      after?.tagIds === undefined
+    ) {
+      continue;
+    }
+    const from = toJson(before?.[field]);
+    const to = toJson(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// A row of GET /api/todos/[id]/history
+export interface TodoHistoryEntry {
+  id: string;
+  action: TodoEventAction;
+  changes: TodoChanges;
+  userId: string | null;
+  actorName: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,231 @@
+import { formatZonedInput, timeZoneOffset, zonedTimeToUtc } from './dates';
+import type { RecurrenceRule } from './recurrence';
+
+// Building blocks for RFC 5545 (iCalendar) documents. Content lines are
+// built unfolded and folded when the document is joined.
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Longest content line, in octets, before it has to be folded
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const encoder = new TextEncoder();
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Escapes a TEXT value
+export function escapeText(value: string) {
+  return value
+    .replaceAll('\\', '\\\\')
+    .replaceAll(';', '\\;')
+    .replaceAll(',', '\\,')
+    .replaceAll(/\r\n?|\n/g, '\\n');
+}
+
+// Splits a content line into lines of at most 75 octets, each continuation
+// starting with a space, without breaking up a UTF-8 character
+function foldLine(line: string) {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+export function calendarDocument(lines: string[]) {
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// A UTC DATE-TIME such as 20261101T093000Z
+export function formatUtc(date: Date) {
+  return `${date.toISOString().slice(0, 19).replaceAll(/[-:]/g, '')}Z`;
+}
+
+// A DATE or DATE-TIME property for a due date. All-day dates are plain
+// DATEs; times are in the user's timezone, which needs a VTIMEZONE from
+// timeZoneComponent unless it is UTC.
+export function dateProperty(
+  name: string,
+  date: Date,
+  hasTime: boolean,
+  timeZone: string,
+) {
+  const local = formatZonedInput(date, timeZone);
+  const day = local.date.replaceAll('-', '');
+  if (!hasTime) {
+    return `${name};VALUE=DATE:${day}`;
+  }
+  if (timeZone === 'UTC') {
+    return `${name}:${formatUtc(date)}`;
+  }
+  return `${name};TZID=${timeZone}:${day}T${local.time.replace(':', '')}00`;
+}
+
+// A DURATION such as -PT15M or P1DT2H, to the minute
+export function formatDuration(ms: number) {
+  const sign = ms < 0 ? '-' : '';
+  const minutes = Math.round(Math.abs(ms) / MINUTE_MS);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const time = `${hours ? `${hours}H` : ''}${minutes % 60 ? `${minutes % 60}M` : ''}`;
+  if (!days && !time) {
+    return 'PT0S';
+  }
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+// The RRULE continuing a series from its occurrence-th todo, due at dueAt.
+// The app's weeks start on Sunday (see nextOccurrence) while RFC 5545
+// defaults to Monday, so weekly rules say WKST=SU. The app moves monthly
+// days past the 28th back to the end of shorter months, which BYSETPOS=-1
+// over the candidate days expresses.
+export function recurrenceRule(
+  rule: RecurrenceRule,
+  dueAt: Date,
+  hasTime: boolean,
+  timeZone: string,
+  occurrence: number,
+) {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.freq === 'weekly') {
+    if (rule.byWeekday) {
+      parts.push(
+        `BYDAY=${rule.byWeekday.map((day) => WEEKDAY_CODES[day]).join(',')}`,
+      );
+    }
+    parts.push('WKST=SU');
+  }
+  if (rule.freq === 'monthly') {
+    const day =
+      rule.byMonthDay ??
+      Number(formatZonedInput(dueAt, timeZone).date.slice(8));
+    if (day > 28) {
+      const days = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+      parts.push(`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1');
+    } else {
+      parts.push(`BYMONTHDAY=${day}`);
+    }
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${Math.max(rule.count - occurrence + 1, 1)}`);
+  }
+  if (rule.until !== undefined) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    // UNTIL has to be UTC when the start has a time
+    const endOfDay = new Date(
+      zonedTimeToUtc(year, month, day, 23, 59, timeZone).getTime() + 59_000,
+    );
+    parts.push(
+      `UNTIL=${hasTime ? formatUtc(endOfDay) : rule.until.replaceAll('-', '')}`,
+    );
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+const formatOffset = (ms: number) => {
+  const minutes = Math.round(ms / MINUTE_MS);
+  const sign = minutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+};
+
+// Offset changes of a timezone during a year, to the minute
+function offsetTransitions(timeZone: string, year: number) {
+  const offsetAt = (minute: number) =>
+    timeZoneOffset(new Date(minute * MINUTE_MS), timeZone);
+  const transitions: { at: number; from: number; to: number }[] = [];
+  const start = Date.UTC(year, 0, 1);
+  let previous = timeZoneOffset(new Date(start), timeZone);
+
+  for (
+    let time = start + DAY_MS;
+    time <= Date.UTC(year + 1, 0, 1);
+    time += DAY_MS
+  ) {
+    const offset = timeZoneOffset(new Date(time), timeZone);
+    if (offset === previous) {
+      continue;
+    }
+    let low = (time - DAY_MS) / MINUTE_MS;
+    let high = time / MINUTE_MS;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (offsetAt(middle) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: high * MINUTE_MS, from: previous, to: offset });
+    previous = offset;
+  }
+  return transitions;
+}
+
+// Day of the month of the nth (or, for -1, last) weekday
+function nthWeekday(year: number, month: number, n: number, weekday: number) {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month, 0));
+    return last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7);
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+}
+
+// A VTIMEZONE for an IANA timezone, built from this year's offsets. Each
+// clock change becomes a yearly rule such as "last Sunday of March", which
+// is how the zones that change their clocks define them.
+export function timeZoneComponent(
+  timeZone: string,
+  year = new Date().getUTCFullYear(),
+) {
+  const transitions = offsetTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(
+      timeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+    );
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+    );
+  }
+
+  for (const transition of transitions) {
+    // Wall-clock time of the change, before the clocks move
+    const local = new Date(transition.at + transition.from);
+    const month = local.getUTCMonth() + 1;
+    const day = local.getUTCDate();
+    const weekday = local.getUTCDay();
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const n = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:1970${pad(month)}${pad(nthWeekday(1970, month, n, weekday))}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${n}${WEEKDAY_CODES[weekday]}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`,
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
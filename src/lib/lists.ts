@@ -0,0 +1,28 @@
+import { getTableColumns, sql } from 'drizzle-orm';
+import { listRoleColumn } from './authz';
+import { type List, lists } from './db/schema';
+import type { ListRole } from './roles';
+
+export type ListWithRole = List & {
+  role: ListRole;
+  memberCount: number;
+};
+
+// List columns plus the viewer's role and the number of collaborators, who
+// are everyone besides the creator. Only valid for lists the viewer can see.
+export function listWithRoleColumns(viewerId: string) {
+  return {
+    ...getTableColumns(lists),
+    role: sql<ListRole>`${listRoleColumn(viewerId)}`,
+    memberCount: sql<number>`(select count(*) from "list_members" as "counted_members" where "counted_members"."listId" = "lists"."id")`,
+  };
+}
+
+// A row of GET /api/lists/[id]/members; the creator is listed as an owner
+export type ListMemberDetails = {
+  userId: string;
+  name: string;
+  email: string;
+  role: ListRole;
+  isCreator: boolean;
+};
@@ -0,0 +1,51 @@
+import { rateLimitStore } from './rate-limit';
+
+// Locks password sign-in for an email address after repeated failures, for
+// a time that doubles with every further failure. A correct password clears
+// the count; so does a day without failures. While locked, even the right
+// password is refused, but email sign-in links and password resets still
+// work, so an attacker can slow a user down without locking them out.
+
+// Failures allowed before the first lockout
+const FREE_ATTEMPTS = 5;
+const FIRST_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const failuresKey = (email: string) =>
+  `sign-in-failures:${email.toLowerCase()}`;
+const lockKey = (email: string) => `sign-in-lock:${email.toLowerCase()}`;
+
+// When the lockout on the address ends, in ms since the epoch, or null
+export async function signInLockedUntil(email: string, now = Date.now()) {
+  const until = await rateLimitStore().get(lockKey(email), now);
+  return until > now ? until : null;
+}
+
+// Counts a wrong password and starts a lockout once the free attempts are
+// used up
+export async function recordFailedSignIn(email: string, now = Date.now()) {
+  const failures = await rateLimitStore().increment(
+    failuresKey(email),
+    now + FAILURE_MEMORY_MS,
+  );
+  if (failures < FREE_ATTEMPTS) {
+    return;
+  }
+  const lockoutMs = Math.min(
+    FIRST_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS),
+    MAX_LOCKOUT_MS,
+  );
+  await rateLimitStore().set(lockKey(email), now + lockoutMs, now + lockoutMs);
+}
+
+export async function clearFailedSignIns(email: string) {
+  await rateLimitStore().delete(failuresKey(email));
+  await rateLimitStore().delete(lockKey(email));
+}
+
+// "3 minutes", rounded up, for the lockout message
+export function describeWait(ms: number) {
+  const minutes = Math.ceil(ms / 60_000);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
@@ -0,0 +1,116 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Outgoing email. Messages go through a transport picked by MAIL_TRANSPORT:
+// "console" (the default in development) prints them, "file" writes each
+// one to MAIL_DIR as JSON for local development and tests, and "http" posts
+// them to MAIL_HTTP_URL in the JSON shape that APIs such as Resend accept.
+// Production has no default, as printing would put sign-in and reset links
+// in the server log. setMailTransport swaps in any other transport.
+
+const DEFAULT_FROM = 'Todo App <no-reply@localhost>';
+const DEFAULT_MAIL_DIR = '.mail';
+const HTTP_TIMEOUT_MS = 10_000;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export function consoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(
+        `Mail to ${message.to} from ${message.from}\nSubject: ${message.subject}\n\n${message.text}`,
+      );
+    },
+  };
+}
+
+// Files are named so they sort by the time they were sent
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const sentAt = new Date();
+      await writeFile(
+        path.join(
+          directory,
+          `${sentAt.toISOString().replaceAll(':', '-')}-${crypto.randomUUID()}.json`,
+        ),
+        `${JSON.stringify({ ...message, sentAt }, null, 2)}\n`,
+      );
+    },
+  };
+}
+
+export function httpTransport(url: string, token?: string): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(
+          `Mail API answered ${response.status}: ${body.slice(0, 200)}`,
+        );
+      }
+    },
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT;
+  if (!name && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production');
+  }
+  switch (name || 'console') {
+    case 'console':
+      return consoleTransport();
+    case 'file':
+      return fileTransport(process.env.MAIL_DIR || DEFAULT_MAIL_DIR);
+    case 'http': {
+      const url = process.env.MAIL_HTTP_URL;
+      if (!url) {
+        throw new Error('MAIL_HTTP_URL must be set to send mail over HTTP');
+      }
+      return httpTransport(url, process.env.MAIL_HTTP_TOKEN);
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+// The transport in use, set up from the environment the first time. The
+// server calls this as it starts, so bad mail settings stop it right away
+// instead of failing the first email.
+export function mailTransport() {
+  transport ??= transportFromEnv();
+  return transport;
+}
+
+export async function sendMail(message: MailMessage) {
+  await mailTransport().send({
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+    ...message,
+  });
+}
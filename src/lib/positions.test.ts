@@ -0,0 +1,148 @@
+import { eq, inArray } from 'drizzle-orm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST as move } from '@/app/api/todos/[id]/move/route';
+import { POST } from '@/app/api/todos/route';
+import { createUser, params, requestsAs } from '@/test/fixtures';
+import { db } from './db';
+import { todos } from './db/schema';
+import { keyBetween } from './positions';
+import { subscribeTodoEvents, type TodoStreamMessage } from './todo-stream';
+import type { TodoWithDetails } from './todos';
+
+describe('keyBetween', () => {
+  it('generates keys in byte order at either end and in between', () => {
+    const first = keyBetween(null, null);
+    const after = keyBetween(first, null);
+    const before = keyBetween(null, first);
+    const middle = keyBetween(first, after);
+    expect([after, middle, before, first].sort()).toEqual([
+      before,
+      first,
+      middle,
+      after,
+    ]);
+  });
+
+  it('keeps finding room between two neighbours', () => {
+    let lower = keyBetween(null, null);
+    const upper = keyBetween(lower, null);
+    for (let i = 0; i < 200; i++) {
+      const key = keyBetween(lower, upper);
+      expect(key > lower && key < upper).toBe(true);
+      lower = key;
+    }
+  });
+
+  it('refuses bounds out of order', () => {
+    const key = keyBetween(null, null);
+    expect(() => keyBetween(key, key)).toThrow(/out of order/);
+  });
+});
+
+type Requests = Awaited<ReturnType<typeof requestsAs>>;
+
+async function createTodos(request: Requests, ...titles: string[]) {
+  const created: TodoWithDetails[] = [];
+  for (const title of titles) {
+    created.push(
+      await (await POST(request('POST', '/api/todos', { title }))).json(),
+    );
+  }
+  return created;
+}
+
+function moveTodo(
+  request: Requests,
+  id: string,
+  body: { after?: string; before?: string },
+) {
+  return move(request('POST', `/api/todos/${id}/move`, body), params({ id }));
+}
+
+async function ordered(ids: string[]) {
+  return db
+    .select()
+    .from(todos)
+    .where(inArray(todos.id, ids))
+    .orderBy(todos.position, todos.id);
+}
+
+describe('moving todos', () => {
+  let request: Requests;
+
+  beforeAll(async () => {
+    request = await requestsAs((await createUser()).id);
+  });
+
+  it('changes only the moved todo', async () => {
+    const [a, b, c] = await createTodos(request, 'A', 'B', 'C');
+
+    const response = await moveTodo(request, c.id, { after: a.id });
+    expect(response.status).toBe(200);
+    expect((await response.json()).version).toBe(c.version + 1);
+    const rows = await ordered([a.id, b.id, c.id]);
+    expect(rows.map((row) => row.id)).toEqual([a.id, c.id, b.id]);
+    expect(rows.map((row) => row.version)).toEqual([
+      a.version,
+      c.version + 1,
+      b.version,
+    ]);
+  });
+
+  it('moves to the front with only a before todo', async () => {
+    const [a, b] = await createTodos(request, 'A', 'B');
+    expect((await moveTodo(request, b.id, { before: a.id })).status).toBe(200);
+    expect((await ordered([a.id, b.id])).map((row) => row.id)).toEqual([
+      b.id,
+      a.id,
+    ]);
+  });
+
+  it('rejects anchors in the wrong order', async () => {
+    const [a, b, c] = await createTodos(request, 'A', 'B', 'C');
+    const response = await moveTodo(request, a.id, {
+      after: c.id,
+      before: b.id,
+    });
+    expect(response.status).toBe(422);
+  });
+
+  it('rebalances duplicate positions and publishes the new versions', async () => {
+    // A user of its own, so the only siblings are these three
+    const { id: userId } = await createUser();
+    const own = await requestsAs(userId);
+    const [a, b, c] = await createTodos(own, 'A', 'B', 'C');
+    // As rows created before manual ordering had
+    await db
+      .update(todos)
+      .set({ position: a.position })
+      .where(eq(todos.id, b.id));
+
+    const messages: TodoStreamMessage[] = [];
+    const { unsubscribe } = subscribeTodoEvents(userId, null, (message) =>
+      messages.push(message),
+    );
+    const response = await moveTodo(own, a.id, { after: c.id });
+    unsubscribe();
+    expect(response.status).toBe(200);
+
+    const rows = await ordered([a.id, b.id, c.id]);
+    expect(rows.map((row) => row.id)).toEqual([b.id, c.id, a.id]);
+    expect(new Set(rows.map((row) => row.position)).size).toBe(3);
+
+    // Every todo whose position changed reaches the stream with its version
+    const published = new Map(
+      messages.flatMap(({ event }) =>
+        event.type === 'update' ? [[event.todo.id, event.todo.version]] : [],
+      ),
+    );
+    expect(published).toEqual(
+      new Map(
+        rows
+          .filter((row) => row.version > 1)
+          .map((row) => [row.id, row.version]),
+      ),
+    );
+    expect(published.has(a.id)).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+// Fractional ordering keys, after David Greenspan's "fractional-indexing"
+// (CC0). A key is a variable-length integer part (its head letter encodes the
+// length, 'a'-'z' for non-negative, 'A'-'Z' for negative) followed by an
+// optional fraction. Keys compare with plain byte order, so SQLite's default
+// BINARY collation sorts them, and a key can always be generated between any
+// two others without touching the rest of the rows.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const INTEGER_ZERO = 'a0';
+const SMALLEST_INTEGER = `A${'0'.repeat(26)}`;
+
+function integerLength(head: string) {
+  if (head >= 'a' && head <= 'z') {
+    return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  }
+  if (head >= 'A' && head <= 'Z') {
+    return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid position key head: ${head}`);
+}
+
+function integerPart(key: string) {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid position key: ${key}`);
+  }
+  return key.slice(0, length);
+}
+
+function incrementInteger(value: string): string | null {
+  const [head, ...digits] = value.split('');
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit === DIGITS.length) {
+      digits[i] = '0';
+    } else {
+      digits[i] = DIGITS[digit];
+      carry = false;
+    }
+  }
+  if (!carry) {
+    return head + digits.join('');
+  }
+  if (head === 'Z') {
+    return INTEGER_ZERO;
+  }
+  if (head === 'z') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push('0');
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+function decrementInteger(value: string): string | null {
+  const [head, ...digits] = value.split('');
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit === -1) {
+      digits[i] = DIGITS[DIGITS.length - 1];
+    } else {
+      digits[i] = DIGITS[digit];
+      borrow = false;
+    }
+  }
+  if (!borrow) {
+    return head + digits.join('');
+  }
+  if (head === 'a') {
+    return `Z${DIGITS[DIGITS.length - 1]}`;
+  }
+  if (head === 'A') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < 'Z') {
+    digits.push(DIGITS[DIGITS.length - 1]);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+// A fraction strictly between a and b (b = null means "no upper bound").
+// Fractions never end in '0', so there is always room in between.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// Returns a key that sorts after `a` and before `b`; either bound may be null
+// for the start or end of the list. Throws if a >= b.
+export function keyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Position keys out of order: ${a} >= ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) {
+      return INTEGER_ZERO;
+    }
+    const integerB = integerPart(b);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint('', b.slice(integerB.length));
+    }
+    if (integerB < b) {
+      return integerB;
+    }
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new Error('Cannot generate a position key before the smallest one');
+    }
+    return decremented;
+  }
+
+  const integerA = integerPart(a);
+  const fractionA = a.slice(integerA.length);
+
+  if (b === null) {
+    const incremented = incrementInteger(integerA);
+    return incremented === null
+      ? integerA + midpoint(fractionA, null)
+      : incremented;
+  }
+
+  const integerB = integerPart(b);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, b.slice(integerB.length));
+  }
+  const incremented = incrementInteger(integerA);
+  if (incremented === null) {
+    throw new Error('Cannot generate a position key after the largest one');
+  }
+  return incremented < b ? incremented : integerA + midpoint(fractionA, null);
+}
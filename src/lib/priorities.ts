@@ -0,0 +1,46 @@
+// Priority levels from least to most pressing
+export const PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const;
+export type Priority = (typeof PRIORITIES)[number];
+
+export function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
+}
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  none: 'No priority',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+// Eisenhower matrix quadrants: urgent means the "urgent" priority level,
+// important is the separate flag
+export const QUADRANTS = [
+  { urgent: true, important: true, label: 'Do first' },
+  { urgent: false, important: true, label: 'Schedule' },
+  { urgent: true, important: false, label: 'Delegate' },
+  { urgent: false, important: false, label: 'Eliminate' },
+] as const;
+
+export type Quadrant = (typeof QUADRANTS)[number];
+
+export function isUrgent(priority: Priority) {
+  return priority === 'urgent';
+}
+
+// Fields that place a todo in a quadrant. Leaving the urgent column steps the
+// priority down to high rather than discarding it.
+export function quadrantFields(
+  quadrant: Pick<Quadrant, 'urgent' | 'important'>,
+  priority: Priority,
+): { priority: Priority; important: boolean } {
+  return {
+    priority: quadrant.urgent
+      ? 'urgent'
+      : isUrgent(priority)
+        ? 'high'
+        : priority,
+    important: quadrant.important,
+  };
+}
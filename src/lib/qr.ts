@@ -0,0 +1,400 @@
+// QR code (ISO/IEC 18004) encoder for short strings such as otpauth:// URIs,
+// so authenticator apps can scan them without the secret leaving the page.
+// Text is encoded as UTF-8 bytes at error correction level M, in the
+// smallest version that fits.
+
+// Error correction codewords per block and number of blocks, by version,
+// for level M
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+  26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28,
+];
+const ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17,
+  18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Level M in the format information
+const ECC_LEVEL_BITS = 0;
+const MAX_VERSION = 40;
+
+const encoder = new TextEncoder();
+
+// Modules left for data and error correction once the function patterns
+// are drawn
+function rawDataModules(version: number) {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return modules;
+}
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version];
+
+// Byte mode uses an 8-bit length up to version 9 and 16 bits after it
+const lengthBits = (version: number) => (version <= 9 ? 8 : 16);
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+// Reed-Solomon generator polynomial of a degree, highest term dropped
+function generator(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+function errorCorrection(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Data codewords: mode, length, bytes, terminator and padding
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0b0100, 4);
+  append(bytes.length, lengthBits(version));
+  for (const byte of bytes) {
+    append(byte, 8);
+  }
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit),
+    );
+  }
+  return codewords;
+}
+
+// Splits data into blocks, adds error correction to each and interleaves
+// them. Short blocks come first and are one data codeword shorter.
+function interleave(data: number[], version: number) {
+  const blockCount = ECC_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = generator(eccLength);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = errorCorrection(block, divisor);
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the placeholder at the end of the short blocks' data
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number) {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+interface Grid {
+  version: number;
+  size: number;
+  modules: boolean[][];
+  // Function pattern and format modules, which data and masks skip
+  reserved: boolean[][];
+}
+
+function createGrid(version: number): Grid {
+  const size = version * 4 + 17;
+  const square = () =>
+    Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { version, size, modules: square(), reserved: square() };
+}
+
+function setFunctionModule(grid: Grid, x: number, y: number, dark: boolean) {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+}
+
+function drawFormat(grid: Grid, mask: number) {
+  const data = (ECC_LEVEL_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const set = (x: number, y: number, i: number) =>
+    setFunctionModule(grid, x, y, ((bits >>> i) & 1) === 1);
+
+  for (let i = 0; i <= 5; i++) {
+    set(8, i, i);
+  }
+  set(8, 7, 6);
+  set(8, 8, 7);
+  set(7, 8, 8);
+  for (let i = 9; i < 15; i++) {
+    set(14 - i, 8, i);
+  }
+  for (let i = 0; i < 8; i++) {
+    set(grid.size - 1 - i, 8, i);
+  }
+  for (let i = 8; i < 15; i++) {
+    set(8, grid.size - 15 + i, i);
+  }
+  setFunctionModule(grid, 8, grid.size - 8, true);
+}
+
+function drawVersion(grid: Grid) {
+  if (grid.version < 7) {
+    return;
+  }
+  let remainder = grid.version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (grid.version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, dark);
+    setFunctionModule(grid, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(grid: Grid) {
+  const { size } = grid;
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+  const positions = alignmentPositions(grid.version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // The corners with finder patterns have no alignment pattern
+      if (
+        (i === 0 && j === 0) ||
+        (i === 0 && j === last) ||
+        (i === last && j === 0)
+      ) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunctionModule(grid, cx + dx, cy + dy, distance !== 1);
+        }
+      }
+    });
+  });
+  // Reserves the format areas until the mask is known
+  drawFormat(grid, 0);
+  drawVersion(grid);
+}
+
+// Fills the data area in two-module columns, zigzagging up and down from
+// the bottom right and skipping the vertical timing pattern
+function drawCodewords(grid: Grid, codewords: number[]) {
+  const { size, modules, reserved } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (const x of [right, right - 1]) {
+        if (!reserved[y][x] && i < codewords.length * 8) {
+          modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+// Masks are their own inverse, so applying one twice removes it
+function applyMask(grid: Grid, mask: number) {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+}
+
+// The standard's penalty score; the mask with the lowest one is used
+function penalty({ size, modules }: Grid) {
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])),
+  ];
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) {
+        score += run - 2;
+      }
+      run = 1;
+    }
+    // Finder-like patterns, counting the light margin around the symbol
+    const padded = `0000${line.map((dark) => (dark ? '1' : '0')).join('')}0000`;
+    for (const finder of ['10111010000', '00001011101']) {
+      for (
+        let at = padded.indexOf(finder);
+        at !== -1;
+        at = padded.indexOf(finder, at + 1)
+      ) {
+        score += 40;
+      }
+    }
+  }
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x];
+      if (
+        dark === modules[y][x + 1] &&
+        dark === modules[y + 1][x] &&
+        dark === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const dark = modules.flat().filter(Boolean).length;
+  return (
+    score + Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10
+  );
+}
+
+// The modules of the QR code for a text, by row, true for dark. Throws if
+// the text is too long for any version.
+export function qrCode(text: string) {
+  const bytes = encoder.encode(text);
+  let version = 1;
+  while (
+    4 + lengthBits(version) + bytes.length * 8 >
+    dataCodewords(version) * 8
+  ) {
+    if (++version > MAX_VERSION) {
+      throw new Error('Text is too long for a QR code');
+    }
+  }
+
+  const grid = createGrid(version);
+  drawFunctionPatterns(grid);
+  drawCodewords(grid, interleave(encodeData(bytes, version), version));
+
+  let best = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormat(grid, mask);
+    const score = penalty(grid);
+    if (score < bestPenalty) {
+      best = mask;
+      bestPenalty = score;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, best);
+  drawFormat(grid, best);
+  return grid.modules;
+}
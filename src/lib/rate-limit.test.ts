@@ -0,0 +1,190 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { proxy } from '@/proxy';
+import { auth } from './auth';
+import {
+  clearFailedSignIns,
+  recordFailedSignIn,
+  signInLockedUntil,
+} from './login-lockout';
+import {
+  checkRateLimit,
+  clientAddress,
+  memoryRateLimitStore,
+  RATE_LIMITS,
+  SOCKET_ADDRESS_HEADER,
+  setRateLimitStore,
+  sqliteRateLimitStore,
+} from './rate-limit';
+
+const policy = { name: 'test', limit: 4, windowMs: 60_000 };
+// The start of the current window, so counters stay live for the test
+const windowStart = () =>
+  Math.floor(Date.now() / policy.windowMs) * policy.windowMs;
+
+function requestFrom(
+  socketAddress: string,
+  path = '/api/todos',
+  headers: Record<string, string> = {},
+) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: 'POST',
+    headers: { [SOCKET_ADDRESS_HEADER]: socketAddress, ...headers },
+  });
+}
+
+beforeEach(() => {
+  setRateLimitStore(memoryRateLimitStore());
+});
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_COUNT;
+});
+
+describe('clientAddress', () => {
+  const forwarded = { 'X-Forwarded-For': '1.1.1.1, 10.0.0.2, 10.0.0.3' };
+
+  it('uses the connection and ignores X-Forwarded-For by default', () => {
+    expect(clientAddress(requestFrom('10.0.0.9', '/', forwarded))).toBe(
+      '10.0.0.9',
+    );
+  });
+
+  it('counts trusted proxies back from the end of X-Forwarded-For', () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    expect(clientAddress(requestFrom('10.0.0.9', '/', forwarded))).toBe(
+      '10.0.0.3',
+    );
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    expect(clientAddress(requestFrom('10.0.0.9', '/', forwarded))).toBe(
+      '10.0.0.2',
+    );
+    process.env.TRUSTED_PROXY_COUNT = '5';
+    expect(clientAddress(requestFrom('10.0.0.9', '/', forwarded))).toBe(
+      '1.1.1.1',
+    );
+  });
+});
+
+describe.each([
+  ['memory', memoryRateLimitStore],
+  ['sqlite', sqliteRateLimitStore],
+])('checkRateLimit with the %s store', (_, store) => {
+  beforeEach(() => {
+    setRateLimitStore(store());
+  });
+
+  it('allows the limit within a window and then asks the client to wait', async () => {
+    const subject = crypto.randomUUID();
+    const now = windowStart() + 1000;
+    const remaining: number[] = [];
+    for (let i = 0; i < policy.limit; i++) {
+      const result = await checkRateLimit(policy, subject, now);
+      expect(result.allowed).toBe(true);
+      remaining.push(result.remaining);
+    }
+    expect(remaining).toEqual([3, 2, 1, 0]);
+
+    const blocked = await checkRateLimit(policy, subject, now);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it("weighs the previous window's hits by how much of it is still in view", async () => {
+    const subject = crypto.randomUUID();
+    const start = windowStart();
+    for (let i = 0; i < policy.limit; i++) {
+      await checkRateLimit(policy, subject, start - policy.windowMs + 1000);
+    }
+
+    // Halfway through, half of the previous four still count
+    const halfway = start + policy.windowMs / 2;
+    expect(await checkRateLimit(policy, subject, halfway)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+    expect(await checkRateLimit(policy, subject, halfway)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect((await checkRateLimit(policy, subject, halfway)).allowed).toBe(
+      false,
+    );
+  });
+});
+
+describe('the proxy', () => {
+  it('limits attempts at credentials per address', async () => {
+    const signIn = (address: string, headers: Record<string, string> = {}) =>
+      proxy(requestFrom(address, '/api/auth/sign-in/email', headers));
+
+    for (let i = 0; i < RATE_LIMITS.credentials.limit; i++) {
+      expect((await signIn('203.0.113.1')).status).toBe(200);
+    }
+    const response = await signIn('203.0.113.1');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toMatch(/^\d+$/);
+    expect((await response.json()).code).toBe('TOO_MANY_REQUESTS');
+
+    // A made-up X-Forwarded-For doesn't make it another client
+    const spoofed = await signIn('203.0.113.1', {
+      'X-Forwarded-For': '198.51.100.7',
+    });
+    expect(spoofed.status).toBe(429);
+    expect((await signIn('203.0.113.2')).status).toBe(200);
+  });
+
+  it('leaves other API requests to the wider limit', async () => {
+    for (let i = 0; i <= RATE_LIMITS.credentials.limit; i++) {
+      const response = await proxy(requestFrom('203.0.113.3'));
+      expect(response.status).toBe(200);
+      expect(response.headers.get('RateLimit-Limit')).toBe(
+        String(RATE_LIMITS.api.limit),
+      );
+    }
+  });
+});
+
+describe('sign-in lockout', () => {
+  it('locks after five failures, for twice as long after each further one', async () => {
+    const email = `${crypto.randomUUID()}@example.com`;
+    const now = Date.now();
+    for (let i = 0; i < 4; i++) {
+      await recordFailedSignIn(email, now);
+    }
+    expect(await signInLockedUntil(email, now)).toBeNull();
+
+    await recordFailedSignIn(email, now);
+    expect(await signInLockedUntil(email, now)).toBe(now + 60_000);
+    await recordFailedSignIn(email, now);
+    expect(await signInLockedUntil(email, now)).toBe(now + 120_000);
+    expect(await signInLockedUntil(email, now + 120_000)).toBeNull();
+
+    await clearFailedSignIns(email);
+    expect(await signInLockedUntil(email, now)).toBeNull();
+  });
+
+  it('refuses even the right password while locked', async () => {
+    const email = `${crypto.randomUUID()}@example.com`;
+    const password = 'correct horse battery';
+    await auth.api.signUpEmail({ body: { name: 'Ada', email, password } });
+    const signIn = (attempt: string) =>
+      auth.handler(
+        new Request('http://localhost:3000/api/auth/sign-in/email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, password: attempt }),
+        }),
+      );
+
+    for (let i = 0; i < 5; i++) {
+      expect((await signIn('wrong password')).status).toBe(401);
+    }
+    const locked = await signIn(password);
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).code).toBe('SIGN_IN_LOCKED');
+
+    await clearFailedSignIns(email);
+    expect((await signIn(password)).status).toBe(200);
+  });
+});
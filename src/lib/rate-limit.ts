@@ -0,0 +1,338 @@
+import { type IncomingMessage, Server } from 'node:http';
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import { NextResponse } from 'next/server';
+import { db } from './db';
+import { rateLimits } from './db/schema';
+import { apiError } from './responses';
+
+// Sliding-window rate limits. Each policy allows `limit` requests per
+// `windowMs` for one subject (an IP address or a user). Hits are counted in
+// fixed windows, and the previous window's count is weighted by how much of
+// it still overlaps the sliding window, so bursts across a window boundary
+// are still limited without storing every request.
+//
+// Counters live in a store picked by RATE_LIMIT_STORE: "memory" (the
+// default) keeps them in the server process, and "sqlite" keeps them in the
+// database so that several app instances share them. setRateLimitStore
+// swaps in any other store.
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// The memory store sweeps out expired counters once it holds this many
+const MEMORY_SWEEP_SIZE = 10_000;
+
+export interface RateLimitPolicy {
+  // Names the policy in counter keys and the RateLimit-Policy header
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export const RATE_LIMITS = {
+  // Every API request from one address
+  api: { name: 'api', limit: 300, windowMs: 60_000 },
+  // Requests from one address that check a password, code or token: sign-in,
+  // sign-up, password resets, sign-in links and two-factor codes
+  credentials: { name: 'credentials', limit: 10, windowMs: 60_000 },
+  // Todo API requests by one user, from the app or with an API token
+  userReads: { name: 'user-reads', limit: 600, windowMs: 60_000 },
+  userWrites: { name: 'user-writes', limit: 120, windowMs: 60_000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export interface RateLimitStore {
+  // Adds one to the counter, which lasts until expiresAt (ms since the
+  // epoch), and returns its new value. An expired counter starts again at 1.
+  increment(key: string, expiresAt: number): Promise<number>;
+  // The counter's value, or 0 once it has expired
+  get(key: string, now: number): Promise<number>;
+  set(key: string, value: number, expiresAt: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Drops the counters that have expired
+  prune(now: number): Promise<void>;
+}
+
+export function memoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+  const prune = async (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+  return {
+    async increment(key, expiresAt) {
+      const now = Date.now();
+      if (counters.size >= MEMORY_SWEEP_SIZE) {
+        await prune(now);
+      }
+      const counter = counters.get(key);
+      const value = counter && counter.expiresAt > now ? counter.value + 1 : 1;
+      counters.set(key, { value, expiresAt });
+      return value;
+    },
+    async get(key, now) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > now ? counter.value : 0;
+    },
+    async set(key, value, expiresAt) {
+      counters.set(key, { value, expiresAt });
+    },
+    async delete(key) {
+      counters.delete(key);
+    },
+    prune,
+  };
+}
+
+export function sqliteRateLimitStore(): RateLimitStore {
+  return {
+    async increment(key, expiresAt) {
+      const now = new Date();
+      const [row] = await db
+        .insert(rateLimits)
+        .values({ key, value: 1, expiresAt: new Date(expiresAt) })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: {
+            value: sql`case when ${rateLimits.expiresAt} <= ${now.getTime()} then 1 else ${rateLimits.value} + 1 end`,
+            expiresAt: new Date(expiresAt),
+          },
+        })
+        .returning({ value: rateLimits.value });
+      return row.value;
+    },
+    async get(key, now) {
+      const [row] = await db
+        .select({ value: rateLimits.value })
+        .from(rateLimits)
+        .where(
+          and(eq(rateLimits.key, key), gt(rateLimits.expiresAt, new Date(now))),
+        )
+        .limit(1);
+      return row?.value ?? 0;
+    },
+    async set(key, value, expiresAt) {
+      await db
+        .insert(rateLimits)
+        .values({ key, value, expiresAt: new Date(expiresAt) })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: { value, expiresAt: new Date(expiresAt) },
+        });
+    },
+    async delete(key) {
+      await db.delete(rateLimits).where(eq(rateLimits.key, key));
+    },
+    async prune(now) {
+      await db
+        .delete(rateLimits)
+        .where(lte(rateLimits.expiresAt, new Date(now)));
+    },
+  };
+}
+
+function storeFromEnv(): RateLimitStore {
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+  switch (name) {
+    case 'memory':
+      return memoryRateLimitStore();
+    case 'sqlite':
+      return sqliteRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"`);
+  }
+}
+
+// Kept on globalThis so the proxy, every route bundle and dev reloads share
+// one store, and so memory counters aren't split between them
+const globalForRateLimits = globalThis as typeof globalThis & {
+  rateLimitStore?: RateLimitStore;
+};
+
+export function rateLimitStore() {
+  globalForRateLimits.rateLimitStore ??= storeFromEnv();
+  return globalForRateLimits.rateLimitStore;
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  globalForRateLimits.rateLimitStore = next;
+}
+
+export interface RateLimitResult {
+  policy: RateLimitPolicy;
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window ends
+  resetSeconds: number;
+  // Seconds until a request would be allowed again; 0 while allowed
+  retryAfterSeconds: number;
+}
+
+// When the weighted count will have fallen to the limit again
+function msUntilAllowed(
+  policy: RateLimitPolicy,
+  previous: number,
+  current: number,
+  elapsed: number,
+) {
+  const { limit, windowMs } = policy;
+  if (current < limit) {
+    // The previous window's share shrinks as the sliding window moves on
+    return Math.max(0, windowMs * (1 - (limit - current) / previous) - elapsed);
+  }
+  // This window's hits become the previous window's and shrink in turn
+  return windowMs - elapsed + windowMs * (1 - limit / current);
+}
+
+// Counts a request by `subject` against the policy
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  subject: string,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = policy;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - windowStart;
+  const key = `${policy.name}:${subject}`;
+  const current = await rateLimitStore().increment(
+    `${key}:${windowStart}`,
+    windowStart + 2 * windowMs,
+  );
+  const previous = await rateLimitStore().get(
+    `${key}:${windowStart - windowMs}`,
+    now,
+  );
+  const weighted = previous * (1 - elapsed / windowMs) + current;
+  const allowed = weighted <= limit;
+  return {
+    policy,
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - weighted)),
+    resetSeconds: Math.ceil((windowMs - elapsed) / 1000),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.max(
+          1,
+          Math.ceil(msUntilAllowed(policy, previous, current, elapsed) / 1000),
+        ),
+  };
+}
+
+// Checks every policy and reports the one that blocks the request longest
+// or, when none does, the one closest to its limit
+export async function checkRateLimits(
+  policies: RateLimitPolicy[],
+  subject: string,
+  now = Date.now(),
+) {
+  const results = await Promise.all(
+    policies.map((policy) => checkRateLimit(policy, subject, now)),
+  );
+  const blocked = results.filter((result) => !result.allowed);
+  if (blocked.length > 0) {
+    return blocked.reduce((a, b) =>
+      b.retryAfterSeconds > a.retryAfterSeconds ? b : a,
+    );
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+// The RateLimit-* fields of the IETF draft, plus Retry-After once limited
+export function rateLimitHeaders(result: RateLimitResult) {
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': `${result.policy.limit};w=${result.policy.windowMs / 1000}`,
+    'RateLimit-Limit': String(result.policy.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(
+      result.allowed ? result.resetSeconds : result.retryAfterSeconds,
+    ),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+// 429 in the API error envelope
+export function rateLimited(result: RateLimitResult) {
+  const response = apiError(429, 'Too many requests, try again later');
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// 429 in the { code, message } shape that Better Auth's client reads, for
+// /api/auth routes
+export function authRateLimited(result: RateLimitResult) {
+  return NextResponse.json(
+    {
+      code: 'TOO_MANY_REQUESTS',
+      message: `Too many attempts. Try again in ${result.retryAfterSeconds} seconds.`,
+    },
+    { status: 429, headers: rateLimitHeaders(result) },
+  );
+}
+
+// Headers that carry the client's address to the proxy and the routes. Both
+// are set by the server, replacing anything the client sent.
+export const SOCKET_ADDRESS_HEADER = 'x-todo-socket-address';
+export const CLIENT_ADDRESS_HEADER = 'x-todo-client-address';
+
+// Next.js doesn't tell the proxy which address a request came from, and it
+// only fills in X-Forwarded-For when the client didn't send one, so the
+// server stamps every request with the address of its connection instead.
+export function stampSocketAddresses() {
+  type Emit = (
+    this: Server,
+    event: string | symbol,
+    ...args: unknown[]
+  ) => boolean;
+  const emit = Server.prototype.emit as Emit;
+  const stamped: Emit = function (event, ...args) {
+    if (event === 'request') {
+      const request = args[0] as IncomingMessage;
+      request.headers[SOCKET_ADDRESS_HEADER] =
+        request.socket.remoteAddress ?? '';
+    }
+    return emit.call(this, event, ...args);
+  };
+  Server.prototype.emit = stamped as Server['emit'];
+}
+
+// How many reverse proxies in front of the app add to X-Forwarded-For
+function trustedProxyCount() {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// The address of the client. Behind TRUSTED_PROXY_COUNT proxies each one
+// appends the address it saw to X-Forwarded-For, so the client is that many
+// entries from the end and anything earlier is whatever the client claimed.
+// Without a trusted proxy the header is ignored and the connection's address
+// is used.
+export function clientAddress(request: Request) {
+  const proxies = trustedProxyCount();
+  if (proxies === 0) {
+    return request.headers.get(SOCKET_ADDRESS_HEADER) || 'unknown';
+  }
+  const forwarded =
+    request.headers
+      .get('x-forwarded-for')
+      ?.split(',')
+      .map((address) => address.trim())
+      .filter(Boolean) ?? [];
+  return forwarded.at(-Math.min(proxies, forwarded.length)) || 'unknown';
+}
+
+// Runs the prune now and then hourly for the life of the server process
+export function scheduleRateLimitPrune() {
+  const prune = () =>
+    rateLimitStore()
+      .prune(Date.now())
+      .catch((error) => {
+        console.error('Error pruning rate limits:', error);
+      });
+  prune();
+  setInterval(prune, PRUNE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { PATCH } from '@/app/api/todos/[id]/route';
+import { POST as addSubtask } from '@/app/api/todos/[id]/subtasks/route';
+import { GET, POST } from '@/app/api/todos/route';
+import { createUser, params, requestsAs } from '@/test/fixtures';
+import { nextOccurrence, type RecurrenceRule } from './recurrence';
+import type { TodoWithDetails } from './todos';
+
+// Follows the rule from `dueAt`, returning the next `count` due dates
+function series(
+  rule: RecurrenceRule,
+  dueAt: string,
+  timeZone: string,
+  count: number,
+) {
+  const dates: string[] = [];
+  let current = new Date(dueAt);
+  for (let occurrence = 1; occurrence <= count; occurrence++) {
+    const next = nextOccurrence(rule, current, timeZone, occurrence);
+    if (!next) {
+      break;
+    }
+    dates.push(next.toISOString());
+    current = next;
+  }
+  return dates;
+}
+
+describe('nextOccurrence', () => {
+  it('keeps the wall-clock time across a daylight saving change', () => {
+    // 09:00 in New York, the day before clocks go forward
+    expect(
+      series(
+        { freq: 'daily', interval: 1 },
+        '2026-03-07T14:00:00.000Z',
+        'America/New_York',
+        2,
+      ),
+    ).toEqual(['2026-03-08T13:00:00.000Z', '2026-03-09T13:00:00.000Z']);
+  });
+
+  it('keeps the wall-clock time when clocks go back', () => {
+    // 08:30 in Berlin, the day before summer time ends
+    expect(
+      series(
+        { freq: 'weekly', interval: 1 },
+        '2026-10-24T06:30:00.000Z',
+        'Europe/Berlin',
+        1,
+      ),
+    ).toEqual(['2026-10-31T07:30:00.000Z']);
+  });
+
+  it('walks weekly rules through the chosen weekdays', () => {
+    // Monday 2026-03-02, on Mondays and Thursdays every other week
+    expect(
+      series(
+        { freq: 'weekly', interval: 2, byWeekday: [1, 4] },
+        '2026-03-02T00:00:00.000Z',
+        'UTC',
+        3,
+      ),
+    ).toEqual([
+      '2026-03-05T00:00:00.000Z',
+      '2026-03-16T00:00:00.000Z',
+      '2026-03-19T00:00:00.000Z',
+    ]);
+  });
+
+  it('clamps monthly days to short months without drifting', () => {
+    expect(
+      series(
+        { freq: 'monthly', interval: 1, byMonthDay: 31 },
+        '2026-01-31T00:00:00.000Z',
+        'UTC',
+        3,
+      ),
+    ).toEqual([
+      '2026-02-28T00:00:00.000Z',
+      '2026-03-31T00:00:00.000Z',
+      '2026-04-30T00:00:00.000Z',
+    ]);
+  });
+
+  it('ends after the count or the until date', () => {
+    expect(
+      series(
+        { freq: 'daily', interval: 1, count: 3 },
+        '2026-01-01T00:00:00.000Z',
+        'UTC',
+        10,
+      ),
+    ).toHaveLength(2);
+    expect(
+      series(
+        { freq: 'daily', interval: 1, until: '2026-01-03' },
+        '2026-01-01T00:00:00.000Z',
+        'UTC',
+        10,
+      ),
+    ).toEqual(['2026-01-02T00:00:00.000Z', '2026-01-03T00:00:00.000Z']);
+  });
+});
+
+describe('completing a recurring todo', () => {
+  it('creates the next occurrence once, with its settings and subtasks', async () => {
+    const request = await requestsAs((await createUser()).id);
+    const openTodos = async () => {
+      const page: { items: TodoWithDetails[] } = await (
+        await GET(request('GET', '/api/todos?completed=false'))
+      ).json();
+      return page.items;
+    };
+    const setCompleted = (id: string, completed: boolean) =>
+      PATCH(
+        request(
+          'PATCH',
+          `/api/todos/${id}`,
+          { completed },
+          { 'If-Match': '*' },
+        ),
+        params({ id }),
+      );
+
+    const first: TodoWithDetails = await (
+      await POST(
+        request('POST', '/api/todos', {
+          title: 'Pay rent',
+          dueAt: '2026-01-31',
+          recurrence: { freq: 'monthly', interval: 1 },
+          completeSubtasks: true,
+        }),
+      )
+    ).json();
+    await addSubtask(
+      request('POST', `/api/todos/${first.id}/subtasks`, { title: 'Transfer' }),
+      params({ id: first.id }),
+    );
+
+    await setCompleted(first.id, true);
+    // Reopening and completing again doesn't add a second occurrence
+    await setCompleted(first.id, false);
+    await setCompleted(first.id, true);
+    const [second, ...others] = await openTodos();
+    expect(others).toEqual([]);
+    expect(second).toMatchObject({
+      title: 'Pay rent',
+      dueAt: '2026-02-28T00:00:00.000Z',
+      occurrence: 2,
+      completeSubtasks: true,
+      subtaskCount: 1,
+    });
+
+    // The day of the month comes back after a short month
+    await setCompleted(second.id, true);
+    const [third] = await openTodos();
+    expect(third.dueAt).toBe('2026-03-31T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,199 @@
+import { formatZonedInput, zonedTimeToUtc } from './dates';
+
+// A subset of RFC 5545 RRULE: DAILY (every N days), WEEKLY on given weekdays
+// and MONTHLY on a day of the month, ending on a date or after a count.
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  // 0 = Sunday ... 6 = Saturday, only for weekly rules
+  byWeekday?: number[];
+  // 1-31, only for monthly rules; clamped to the length of shorter months
+  byMonthDay?: number;
+  // Last allowed due date as YYYY-MM-DD in the user's timezone
+  until?: string;
+  // Total number of occurrences including the first one
+  count?: number;
+}
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+export function parseRecurrence(
+  value: unknown,
+): { error: string } | { rule: RecurrenceRule } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'recurrence must be an object' };
+  }
+  const input = value as Record<string, unknown>;
+
+  if (!FREQUENCIES.includes(input.freq as RecurrenceRule['freq'])) {
+    return { error: 'recurrence.freq must be daily, weekly or monthly' };
+  }
+  const rule: RecurrenceRule = {
+    freq: input.freq as RecurrenceRule['freq'],
+    interval: 1,
+  };
+
+  if (input.interval !== undefined) {
+    if (!isIntegerInRange(input.interval, 1, 365)) {
+      return { error: 'recurrence.interval must be an integer from 1 to 365' };
+    }
+    rule.interval = input.interval as number;
+  }
+
+  if (rule.freq === 'weekly' && input.byWeekday !== undefined) {
+    if (
+      !Array.isArray(input.byWeekday) ||
+      input.byWeekday.length === 0 ||
+      !input.byWeekday.every((day) => isIntegerInRange(day, 0, 6))
+    ) {
+      return { error: 'recurrence.byWeekday must list weekdays from 0 to 6' };
+    }
+    rule.byWeekday = [...new Set(input.byWeekday as number[])].sort(
+      (a, b) => a - b,
+    );
+  }
+
+  if (rule.freq === 'monthly' && input.byMonthDay !== undefined) {
+    if (!isIntegerInRange(input.byMonthDay, 1, 31)) {
+      return { error: 'recurrence.byMonthDay must be from 1 to 31' };
+    }
+    rule.byMonthDay = input.byMonthDay as number;
+  }
+
+  if (input.until !== undefined && input.count !== undefined) {
+    return { error: 'recurrence can end on a date or after a count, not both' };
+  }
+  if (input.until !== undefined) {
+    if (
+      typeof input.until !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(input.until)
+    ) {
+      return { error: 'recurrence.until must be YYYY-MM-DD' };
+    }
+    rule.until = input.until;
+  }
+  if (input.count !== undefined) {
+    if (!isIntegerInRange(input.count, 1, 1000)) {
+      return { error: 'recurrence.count must be an integer from 1 to 1000' };
+    }
+    rule.count = input.count as number;
+  }
+
+  return { rule };
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Computes the due date following `dueAt`, keeping the wall-clock time in the
+// user's timezone. Returns null once the rule has ended. `occurrence` is the
+// 1-based position of `dueAt` in the series.
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  dueAt: Date,
+  timeZone: string,
+  occurrence: number,
+): Date | null {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return null;
+  }
+
+  const current = formatZonedInput(dueAt, timeZone);
+  const [year, month, day] = current.date.split('-').map(Number);
+  const [hour, minute] = current.time.split(':').map(Number);
+  const currentDay = Date.UTC(year, month - 1, day) / DAY_MS;
+
+  let next: { year: number; month: number; day: number };
+  switch (rule.freq) {
+    case 'daily': {
+      const date = new Date((currentDay + rule.interval) * DAY_MS);
+      next = {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      };
+      break;
+    }
+    case 'weekly': {
+      const weekdays = rule.byWeekday ?? [
+        new Date(currentDay * DAY_MS).getUTCDay(),
+      ];
+      // Weeks run Sunday to Saturday; day 0, the epoch, was a Thursday
+      const currentWeek = Math.floor((currentDay + 4) / 7);
+      let candidate = currentDay + 1;
+      // Walk forward to the next allowed weekday in a week that is a multiple
+      // of the interval away from the current one
+      while (
+        !weekdays.includes(new Date(candidate * DAY_MS).getUTCDay()) ||
+        (Math.floor((candidate + 4) / 7) - currentWeek) % rule.interval !== 0
+      ) {
+        candidate++;
+      }
+      const date = new Date(candidate * DAY_MS);
+      next = {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      };
+      break;
+    }
+    case 'monthly': {
+      const monthIndex = month - 1 + rule.interval;
+      const nextYear = year + Math.floor(monthIndex / 12);
+      const nextMonth = (monthIndex % 12) + 1;
+      next = {
+        year: nextYear,
+        month: nextMonth,
+        day: Math.min(rule.byMonthDay ?? day, daysInMonth(nextYear, nextMonth)),
+      };
+      break;
+    }
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (
+    rule.until !== undefined &&
+    `${next.year}-${pad(next.month)}-${pad(next.day)}` > rule.until
+  ) {
+    return null;
+  }
+
+  return zonedTimeToUtc(
+    next.year,
+    next.month,
+    next.day,
+    hour,
+    minute,
+    timeZone,
+  );
+}
+
+export function describeRecurrence(rule: RecurrenceRule) {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month' } as const;
+  const unit = units[rule.freq];
+  let summary =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'weekly' && rule.byWeekday) {
+    summary += ` on ${rule.byWeekday.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    summary += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) {
+    summary += ` until ${rule.until}`;
+  }
+  if (rule.count) {
+    summary += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  }
+
+  return summary;
+}
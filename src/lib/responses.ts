@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { API_ERROR_CODES, type ApiErrorBody, type ApiErrorStatus } from './api';
+import { versionETag } from './etags';
+import type { TodoWithDetails } from './todos';
+import type { FieldError, Schema } from './validation';
+
+export function apiError(
+  status: ApiErrorStatus,
+  message: string,
+  details?: FieldError[],
+) {
+  return NextResponse.json<ApiErrorBody>(
+    {
+      error: {
+        code: API_ERROR_CODES[status],
+        message,
+        ...(details && { details }),
+      },
+    },
+    { status },
+  );
+}
+
+// 422 listing the fields that failed, led by the first one's message
+export function validationError(details: FieldError[]) {
+  return apiError(422, details[0]?.message ?? 'Invalid request', details);
+}
+
+// 412 with the server's copy of a todo whose version didn't match If-Match,
+// so the client can merge its change or overwrite
+export function versionMismatch(current: TodoWithDetails) {
+  const response = NextResponse.json<ApiErrorBody>(
+    {
+      error: {
+        code: API_ERROR_CODES[412],
+        message: 'This todo was changed by someone else',
+        current,
+      },
+    },
+    { status: 412 },
+  );
+  response.headers.set('ETag', versionETag(current.version));
+  return response;
+}
+
+// Changes to an existing todo must name the version they apply to
+export function readIfMatch(
+  request: Request,
+): { ifMatch: string } | { response: NextResponse } {
+  const ifMatch = request.headers.get('if-match');
+  return ifMatch
+    ? { ifMatch }
+    : { response: apiError(428, 'If-Match header is required') };
+}
+
+// Reads and validates a JSON body. A body that isn't JSON is a 400; one
+// that doesn't match the schema is a 422.
+export async function parseBody<T>(
+  request: Request,
+  schema: Schema<T>,
+): Promise<{ data: T } | { response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: apiError(400, 'Request body must be valid JSON') };
+  }
+  const result = schema.parse(body);
+  return 'errors' in result
+    ? { response: validationError(result.errors) }
+    : { data: result.value };
+}
+
+// Validates query parameters; repeated parameters arrive as arrays when the
+// schema lists them in `repeated`
+export function parseQuery<T>(
+  searchParams: URLSearchParams,
+  schema: Schema<T>,
+  repeated: string[] = [],
+): { data: T } | { response: NextResponse } {
+  const query: Record<string, unknown> = Object.fromEntries(searchParams);
+  for (const key of repeated) {
+    query[key] = searchParams.getAll(key);
+  }
+  const result = schema.parse(query);
+  return 'errors' in result
+    ? { response: validationError(result.errors) }
+    : { data: result.value };
+}
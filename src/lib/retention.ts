@@ -0,0 +1,14 @@
+// How long deleted todos stay in the trash before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Todos moved to the trash before this are due for purging
+export function trashCutoff(now: Date) {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+// When a todo moved to the trash at `deletedAt` is purged
+export function trashExpiresAt(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
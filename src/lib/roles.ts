@@ -0,0 +1,17 @@
+// Roles on a shared list, from least to most privileged. Viewers can read
+// the list's todos, editors can also change them, owners can also manage
+// the list itself and its members.
+export const LIST_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ListRole = (typeof LIST_ROLES)[number];
+
+export function isListRole(value: unknown): value is ListRole {
+  return LIST_ROLES.includes(value as ListRole);
+}
+
+export function hasRole(role: ListRole | null | undefined, required: ListRole) {
+  return (
+    role !== null &&
+    role !== undefined &&
+    LIST_ROLES.indexOf(role) >= LIST_ROLES.indexOf(required)
+  );
+}
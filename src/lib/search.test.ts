@@ -0,0 +1,138 @@
+import { sql } from 'drizzle-orm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DELETE, PATCH } from '@/app/api/todos/[id]/route';
+import { GET as listTodos, POST } from '@/app/api/todos/route';
+import { GET } from '@/app/api/todos/search/route';
+import { createUser, params, requestsAs } from '@/test/fixtures';
+import { db } from './db';
+import {
+  ensureSearchIndex,
+  type TodoSearchResult,
+  toMatchQuery,
+} from './search';
+import type { TodoWithDetails } from './todos';
+
+let request: Awaited<ReturnType<typeof requestsAs>>;
+
+beforeAll(async () => {
+  request = await requestsAs((await createUser()).id);
+});
+
+async function createTodo(title: string, description?: string) {
+  const response = await POST(
+    request('POST', '/api/todos', { title, description }),
+  );
+  const todo: TodoWithDetails = await response.json();
+  return todo;
+}
+
+async function search(q: string, as = request): Promise<TodoSearchResult[]> {
+  const response = await GET(
+    as('GET', `/api/todos/search?q=${encodeURIComponent(q)}`),
+  );
+  return response.json();
+}
+
+const titles = (results: TodoSearchResult[]) =>
+  results.map((result) => result.title);
+
+describe('toMatchQuery', () => {
+  it('requires every word and lets the last one be a prefix', () => {
+    expect(toMatchQuery('buy milk')).toBe('"buy" "milk"*');
+  });
+
+  it('matches operators and punctuation literally', () => {
+    expect(toMatchQuery('NOT "tax" OR -receipts*')).toBe(
+      '"NOT" "tax" "OR" "receipts"*',
+    );
+    expect(toMatchQuery(' -*" ')).toBeNull();
+  });
+});
+
+// Runs before any search, while the database has no index yet
+describe('ensureSearchIndex', () => {
+  it('replaces an index read by rowid and indexes todos written without one', async () => {
+    // The layout before the index was keyed by todo id
+    for (const statement of [
+      `create virtual table "todos_fts" using fts5(title, description, content='todos', content_rowid='rowid')`,
+      `create trigger "todos_fts_insert" after insert on "todos" begin
+        insert into "todos_fts"(rowid, title, description) values (new.rowid, new.title, new.description);
+      end`,
+    ]) {
+      await db.run(sql.raw(statement));
+    }
+    const todo = await createTodo('Renew passport');
+
+    await ensureSearchIndex();
+
+    const [table] = await db.all<{ sql: string }>(
+      sql`select sql from sqlite_master where name = 'todos_fts'`,
+    );
+    expect(table.sql).toContain('todo_id');
+    expect((await search('passport')).map((result) => result.id)).toEqual([
+      todo.id,
+    ]);
+  });
+});
+
+describe('searching todos', () => {
+  it('ranks title matches above description matches and marks them', async () => {
+    await createTodo('Call the plumber', 'About the garden tap');
+    await createTodo('Garden party', 'Invite the neighbours');
+
+    const results = await search('garden');
+    expect(titles(results)).toEqual(['Garden party', 'Call the plumber']);
+    expect(results[0].titleSnippet).toEqual([
+      { text: 'Garden', match: true },
+      { text: ' party', match: false },
+    ]);
+    expect(results[1].descriptionSnippet).toContainEqual({
+      text: 'garden',
+      match: true,
+    });
+  });
+
+  it('matches prefixes and ignores accents', async () => {
+    await createTodo('Book the café');
+    expect(titles(await search('cafe'))).toEqual(['Book the café']);
+    expect(titles(await search('book the ca'))).toEqual(['Book the café']);
+  });
+
+  it('follows renames and leaves out trashed todos', async () => {
+    const todo = await createTodo('Water the ferns');
+    await PATCH(
+      request(
+        'PATCH',
+        `/api/todos/${todo.id}`,
+        { title: 'Water the orchids' },
+        { 'If-Match': '*' },
+      ),
+      params({ id: todo.id }),
+    );
+    expect(await search('ferns')).toEqual([]);
+    expect(titles(await search('orchids'))).toEqual(['Water the orchids']);
+
+    await DELETE(
+      request('DELETE', `/api/todos/${todo.id}`, undefined, {
+        'If-Match': '*',
+      }),
+      params({ id: todo.id }),
+    );
+    expect(await search('orchids')).toEqual([]);
+  });
+
+  it("doesn't find other people's todos", async () => {
+    await createTodo('Private diary entry');
+    const other = await requestsAs((await createUser('Grace')).id);
+    expect(await search('diary', other)).toEqual([]);
+  });
+
+  it('narrows the todo list with q', async () => {
+    await createTodo('Pick up dry cleaning');
+    const response = await listTodos(request('GET', '/api/todos?q=cleaning'));
+    const page: { items: TodoWithDetails[] } = await response.json();
+    expect(page.items.map((todo) => todo.title)).toEqual([
+      'Pick up dry cleaning',
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { and, eq, type SQL, sql } from 'drizzle-orm';
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { accessibleTodosFilter } from './authz';
+import { db } from './db';
+import { todos } from './db/schema';
+import { type TodoWithDetails, todoWithDetailsColumns } from './todos';
+
+// FTS5 index over todo titles and descriptions, keyed by todo id. It keeps
+// its own copy of the text, kept in sync by triggers on "todos", rather than
+// reading from "todos" by rowid: todos has no integer primary key, so its
+// rowids may change when the database is vacuumed. Virtual tables and
+// triggers can't be expressed in the drizzle schema, so they are created
+// when the server starts and excluded from drizzle-kit via tablesFilter.
+const todosFts = sqliteTable('todos_fts', {
+  title: text('title'),
+  description: text('description'),
+  todoId: text('todo_id'),
+});
+
+const SEARCH_INDEX_TRIGGERS = [
+  'todos_fts_insert',
+  'todos_fts_delete',
+  'todos_fts_update',
+];
+
+const SEARCH_INDEX_STATEMENTS = [
+  // Left over from an index in an older layout, or one missing a trigger
+  ...SEARCH_INDEX_TRIGGERS.map((name) => `drop trigger if exists "${name}"`),
+  `drop table if exists "todos_fts"`,
+  `create virtual table "todos_fts" using fts5(title, description, todo_id unindexed, tokenize='unicode61 remove_diacritics 2')`,
+  `create trigger "todos_fts_insert" after insert on "todos" begin
+    insert into "todos_fts"(title, description, todo_id) values (new.title, new.description, new.id);
+  end`,
+  `create trigger "todos_fts_delete" after delete on "todos" begin
+    delete from "todos_fts" where todo_id = old.id;
+  end`,
+  `create trigger "todos_fts_update" after update of title, description on "todos" begin
+    delete from "todos_fts" where todo_id = old.id;
+    insert into "todos_fts"(title, description, todo_id) values (new.title, new.description, new.id);
+  end`,
+  // Rebuilt from scratch whenever the triggers are (re)created, so todos
+  // written while they were missing are indexed too
+  `insert into "todos_fts"(title, description, todo_id) select title, description, id from "todos"`,
+];
+
+let searchIndexReady: Promise<void> | null = null;
+
+// Creates the index and its triggers unless they are already in place. Runs
+// when the server starts, so no write goes unindexed, and again before
+// searches in case the database was swapped since.
+export function ensureSearchIndex() {
+  searchIndexReady ??= (async () => {
+    const existing = await db.all<{ name: string; sql: string }>(
+      sql`select name, sql from sqlite_master where name in ('todos_fts', 'todos_fts_insert', 'todos_fts_delete', 'todos_fts_update')`,
+    );
+    const table = existing.find((row) => row.name === 'todos_fts');
+    if (
+      existing.length === SEARCH_INDEX_TRIGGERS.length + 1 &&
+      table?.sql.includes('todo_id')
+    ) {
+      return;
+    }
+    await db.batch(
+      SEARCH_INDEX_STATEMENTS.map((statement) =>
+        db.run(sql.raw(statement)),
+      ) as [ReturnType<typeof db.run>],
+    );
+  })().catch((error) => {
+    searchIndexReady = null;
+    throw error;
+  });
+  return searchIndexReady;
+}
+
+// Turns free text into an FTS5 query: every word must appear, and the last
+// one may be a prefix so results update while typing. Words are quoted so
+// FTS5 operators and punctuation in the input are matched literally.
+export function toMatchQuery(input: string) {
+  const words = input.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+  return words
+    .map((word, index) =>
+      index === words.length - 1 ? `"${word}"*` : `"${word}"`,
+    )
+    .join(' ');
+}
+
+// Todos whose title or description match, for narrowing list queries.
+// Callers must await ensureSearchIndex() first.
+export function searchFilter(query: string): SQL | undefined {
+  const matchQuery = toMatchQuery(query);
+  if (!matchQuery) {
+    return undefined;
+  }
+  return sql`"todos"."id" in (select "todo_id" from "todos_fts" where "todos_fts" match ${matchQuery})`;
+}
+
+// snippet() wraps matches in these control characters, which can't occur in
+// user input that went through JSON, so the client can split on them safely
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+function parseSnippet(snippet: string | null): SnippetPart[] {
+  if (!snippet) {
+    return [];
+  }
+  return snippet
+    .split(MATCH_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) {
+        return [{ text: chunk, match: false }];
+      }
+      const [match, rest = ''] = chunk.split(MATCH_END);
+      return [
+        { text: match, match: true },
+        { text: rest, match: false },
+      ];
+    })
+    .filter((part) => part.text !== '');
+}
+
+export type TodoSearchResult = TodoWithDetails & {
+  titleSnippet: SnippetPart[];
+  descriptionSnippet: SnippetPart[];
+};
+
+// Ranked with bm25, weighting title matches above description matches
+export async function searchTodos(
+  userId: string,
+  matchQuery: string,
+  limit: number,
+): Promise<TodoSearchResult[]> {
+  await ensureSearchIndex();
+
+  const rows = await db
+    .select({
+      todo: todoWithDetailsColumns(userId),
+      titleSnippet: sql<
+        string | null
+      >`snippet("todos_fts", 0, ${MATCH_START}, ${MATCH_END}, '…', 16)`,
+      descriptionSnippet: sql<
+        string | null
+      >`snippet("todos_fts", 1, ${MATCH_START}, ${MATCH_END}, '…', 16)`,
+    })
+    .from(todosFts)
+    .innerJoin(todos, eq(todos.id, todosFts.todoId))
+    .where(
+      and(sql`"todos_fts" match ${matchQuery}`, accessibleTodosFilter(userId)),
+    )
+    .orderBy(sql`bm25("todos_fts", 10.0, 1.0)`)
+    .limit(limit);
+
+  return rows.map(({ todo, titleSnippet, descriptionSnippet }) => ({
+    ...todo,
+    titleSnippet: parseSnippet(titleSnippet),
+    descriptionSnippet: parseSnippet(descriptionSnippet),
+  }));
+}
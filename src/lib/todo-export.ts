@@ -0,0 +1,212 @@
+import { asc, eq, getTableColumns, sql } from 'drizzle-orm';
+import { accessibleTodosFilter } from './authz';
+import { formatCsvRow } from './csv';
+import { DEFAULT_TIMEZONE, formatZonedInput } from './dates';
+import { db } from './db';
+import { lists, type Todo, todos } from './db/schema';
+import type { ExportFormat } from './todo-schemas';
+import { todoTagNamesColumn } from './todos';
+
+// Exports every todo the user can see, trash aside, a batch at a time so
+// large accounts stream instead of being built up in memory. Dates are
+// written as "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm" in the user's timezone,
+// the same form the API accepts, so exports can be imported again.
+
+const BATCH_SIZE = 500;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+};
+
+// Markdown heading for todos outside any list; importing it maps back
+export const INBOX_HEADING = 'Inbox';
+
+// Columns of the CSV export, which the CSV import reads back
+export const CSV_COLUMNS = [
+  'id',
+  'parentId',
+  'title',
+  'description',
+  'completed',
+  'list',
+  'dueAt',
+  'remindAt',
+  'recurrence',
+  'priority',
+  'important',
+  'tags',
+  'createdAt',
+] as const;
+
+type ExportRow = Todo & { listName: string | null; tagNames: string[] };
+
+export interface ExportedTodo {
+  id: string;
+  parentId: string | null;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  list: string | null;
+  dueAt: string | null;
+  remindAt: string | null;
+  recurrence: Todo['recurrence'];
+  priority: Todo['priority'];
+  important: boolean;
+  tags: string[];
+  createdAt: string;
+}
+
+function zonedInput(date: Date, hasTime: boolean, timeZone: string) {
+  const { date: day, time } = formatZonedInput(date, timeZone);
+  return hasTime ? `${day}T${time}` : day;
+}
+
+function toExported(row: ExportRow, timeZone: string): ExportedTodo {
+  return {
+    id: row.id,
+    parentId: row.parentId,
+    title: row.title,
+    description: row.description,
+    completed: row.completed,
+    list: row.listName,
+    dueAt: row.dueAt ? zonedInput(row.dueAt, row.dueHasTime, timeZone) : null,
+    remindAt: row.remindAt ? zonedInput(row.remindAt, true, timeZone) : null,
+    recurrence: row.recurrence,
+    priority: row.priority,
+    important: row.important,
+    tags: row.tagNames,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// One checklist item, with the description quoted below it. A title has to
+// stay on its item's line, so line breaks in it are written as spaces.
+export function markdownItem(todo: ExportedTodo) {
+  const tokens = [
+    todo.dueAt && `due:${todo.dueAt}`,
+    todo.remindAt && `remind:${todo.remindAt}`,
+    todo.priority !== 'none' && `priority:${todo.priority}`,
+    todo.important && '!important',
+    ...todo.tags.map((tag) => `#${tag.replaceAll(/\s+/g, '-')}`),
+  ].filter(Boolean);
+  const title = todo.title.replaceAll(/\s*\n\s*/g, ' ');
+  const indent = todo.parentId ? '  ' : '';
+  const lines = [
+    `${indent}- [${todo.completed ? 'x' : ' '}] ${[title, ...tokens].join(' ')}`,
+    ...(todo.description?.split('\n') ?? []).map(
+      (line) => `${indent}  > ${line}`,
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+// One batch of rows, ordered by list and then as in the app, with each
+// subtask right after its parent
+function exportBatch(userId: string, offset: number): Promise<ExportRow[]> {
+  return db
+    .select({
+      ...getTableColumns(todos),
+      listName: lists.name,
+      tagNames: todoTagNamesColumn(userId),
+    })
+    .from(todos)
+    .leftJoin(lists, eq(lists.id, todos.listId))
+    .where(accessibleTodosFilter(userId))
+    .orderBy(
+      sql`${lists.name} is not null`,
+      asc(lists.name),
+      asc(todos.listId),
+      sql`coalesce((select "parents"."position" from "todos" as "parents" where "parents"."id" = "todos"."parentId"), "todos"."position")`,
+      sql`coalesce("todos"."parentId", "todos"."id")`,
+      sql`"todos"."parentId" is not null`,
+      asc(todos.position),
+      asc(todos.id),
+    )
+    .limit(BATCH_SIZE)
+    .offset(offset);
+}
+
+export function exportTodos(
+  user: { id: string; timezone?: string | null },
+  format: ExportFormat,
+): ReadableStream<Uint8Array> {
+  const timeZone = user.timezone || DEFAULT_TIMEZONE;
+  const encoder = new TextEncoder();
+  let offset = 0;
+  // The list whose Markdown heading was written last; undefined before any
+  let heading: string | null | undefined;
+
+  const header = () => {
+    switch (format) {
+      case 'json':
+        return `{"exportedAt":${JSON.stringify(new Date().toISOString())},"timeZone":${JSON.stringify(timeZone)},"todos":[`;
+      case 'csv':
+        return formatCsvRow([...CSV_COLUMNS]);
+      case 'markdown':
+        return '# Todos\n';
+    }
+  };
+
+  const footer = () => (format === 'json' ? ']}\n' : '');
+
+  const formatTodo = (todo: ExportedTodo, index: number) => {
+    switch (format) {
+      case 'json':
+        return `${index === 0 ? '\n' : ',\n'}${JSON.stringify(todo)}`;
+      case 'csv':
+        return formatCsvRow([
+          todo.id,
+          todo.parentId,
+          todo.title,
+          todo.description,
+          todo.completed,
+          todo.list,
+          todo.dueAt,
+          todo.remindAt,
+          todo.recurrence && JSON.stringify(todo.recurrence),
+          todo.priority,
+          todo.important,
+          todo.tags.join(', '),
+          todo.createdAt,
+        ]);
+      case 'markdown': {
+        let chunk = '';
+        if (!todo.parentId && todo.list !== heading) {
+          heading = todo.list;
+          chunk = `\n## ${todo.list ?? INBOX_HEADING}\n\n`;
+        }
+        return chunk + markdownItem(todo);
+      }
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(header()));
+    },
+    async pull(controller) {
+      const rows = await exportBatch(user.id, offset);
+      const chunk = rows
+        .map((row, index) =>
+          formatTodo(toExported(row, timeZone), offset + index),
+        )
+        .join('');
+      offset += rows.length;
+      if (chunk) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      if (rows.length < BATCH_SIZE) {
+        controller.enqueue(encoder.encode(footer()));
+        controller.close();
+      }
+    },
+  });
+}
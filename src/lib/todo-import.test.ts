@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { type ExportedTodo, markdownItem } from './todo-export';
+import { parseImport } from './todo-import';
+
+const todo: ExportedTodo = {
+  id: '5b0c6f5e-6a0c-4b8e-9d6b-0d3f1c2a7e41',
+  parentId: null,
+  title: 'Buy milk',
+  description: null,
+  completed: false,
+  list: null,
+  dueAt: null,
+  remindAt: null,
+  recurrence: null,
+  priority: 'none',
+  important: false,
+  tags: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const roundTrip = (...todos: ExportedTodo[]) => {
+  const parsed = parseImport(
+    'markdown',
+    `# Todos\n\n## Inbox\n\n${todos.map(markdownItem).join('')}`,
+  );
+  if ('error' in parsed) {
+    throw new Error(parsed.error);
+  }
+  return parsed.rows;
+};
+
+describe('Markdown export and import', () => {
+  it('keeps a todo with its tokens and description', () => {
+    const [row] = roundTrip({
+      ...todo,
+      description: 'Semi-skimmed\nTwo pints',
+      dueAt: '2026-01-02T09:00',
+      priority: 'high',
+      important: true,
+      tags: ['errands'],
+    });
+    expect(row).toMatchObject({
+      title: 'Buy milk',
+      description: 'Semi-skimmed\nTwo pints',
+      dueAt: '2026-01-02T09:00',
+      priority: 'high',
+      important: true,
+      tags: ['errands'],
+    });
+  });
+
+  it('keeps a title with line breaks on one line', () => {
+    const rows = roundTrip(
+      { ...todo, title: 'Buy milk\n- [ ] and eggs\r\n  and bread' },
+      { ...todo, title: 'Call Sam' },
+    );
+    expect(rows.map((row) => row.title)).toEqual([
+      'Buy milk - [ ] and eggs and bread',
+      'Call Sam',
+    ]);
+  });
+});
@@ -0,0 +1,785 @@
+import { eq } from 'drizzle-orm';
+import {
+  accessibleListsFilter,
+  accessibleTodosFilter,
+  listRoleColumn,
+} from './authz';
+import { parseCsv } from './csv';
+import { db } from './db';
+import { lists, type NewTodo, tags, todos, todoTags } from './db/schema';
+import { diffTodo, type TodoChanges } from './history';
+import { keyBetween } from './positions';
+import { isPriority, PRIORITIES, type Priority } from './priorities';
+import { hasRole } from './roles';
+import { INBOX_HEADING } from './todo-export';
+import {
+  DESCRIPTION_MAX_LENGTH,
+  type ImportFormat,
+  type ImportReport,
+  type ImportRowResult,
+  type ImportRowStatus,
+  MAX_IMPORT_ROWS,
+  MAX_TAGS,
+  TITLE_MAX_LENGTH,
+} from './todo-schemas';
+import {
+  endPosition,
+  parseSchedule,
+  recordTodoEvents,
+  todoTransaction,
+} from './todos';
+
+// Imports todos in three steps: parseImport reads the file into rows,
+// planImport validates them, resolves lists, tags and parents and finds
+// duplicates, and commitImport creates what the plan says in one
+// transaction. A dry run stops after planning, so its report is exactly
+// what a real import would do.
+
+// A todo as read from the file, before validation
+interface ImportRow {
+  row: number;
+  // The todo's id in the file, or a made-up one in formats without ids
+  ref: string;
+  parentRef: string | null;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  // A list name; none leaves the todo in the list picked for the import
+  list: string | null;
+  dueAt: string | null;
+  remindAt: string | null;
+  recurrence: unknown;
+  priority: string;
+  important: boolean;
+  tags: string[];
+  // Problems that keep the row from being imported
+  errors: string[];
+  warnings: string[];
+}
+
+type ParsedImport = { rows: ImportRow[] } | { error: string };
+
+const emptyRow = (row: number): ImportRow => ({
+  row,
+  ref: `row:${row}`,
+  parentRef: null,
+  title: '',
+  description: null,
+  completed: false,
+  list: null,
+  dueAt: null,
+  remindAt: null,
+  recurrence: null,
+  priority: 'none',
+  important: false,
+  tags: [],
+  errors: [],
+  warnings: [],
+});
+
+const appendLine = (text: string | null, line: string) =>
+  text === null ? line : `${text}\n${line}`;
+
+// Reads the object form of GET /api/todos/export?format=json, or a bare
+// array of todos
+function parseJsonImport(content: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+  const items = Array.isArray(data)
+    ? data
+    : (data as { todos?: unknown } | null)?.todos;
+  if (!Array.isArray(items)) {
+    return { error: 'The file must hold an array of todos' };
+  }
+
+  return {
+    rows: items.map((item, index) => {
+      const result = emptyRow(index + 1);
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        result.errors.push('todo must be an object');
+        return result;
+      }
+      const value = item as Record<string, unknown>;
+      const text = (field: string) => {
+        const fieldValue = value[field];
+        if (fieldValue === undefined || fieldValue === null) {
+          return null;
+        }
+        if (typeof fieldValue !== 'string') {
+          result.errors.push(`${field} must be a string`);
+          return null;
+        }
+        return fieldValue;
+      };
+      const flag = (field: string) => {
+        const fieldValue = value[field] ?? false;
+        if (typeof fieldValue !== 'boolean') {
+          result.errors.push(`${field} must be true or false`);
+          return false;
+        }
+        return fieldValue;
+      };
+
+      result.ref = text('id') ?? result.ref;
+      result.parentRef = text('parentId');
+      result.title = text('title') ?? '';
+      result.description = text('description');
+      result.completed = flag('completed');
+      result.list = text('list');
+      result.dueAt = text('dueAt');
+      result.remindAt = text('remindAt');
+      result.recurrence = value.recurrence ?? null;
+      result.priority = text('priority') ?? 'none';
+      result.important = flag('important');
+      if (value.tags !== undefined && value.tags !== null) {
+        if (
+          Array.isArray(value.tags) &&
+          value.tags.every((tag) => typeof tag === 'string')
+        ) {
+          result.tags = value.tags;
+        } else {
+          result.errors.push('tags must be an array of tag names');
+        }
+      }
+      return result;
+    }),
+  };
+}
+
+// CSV records with a header row; columns are found by name
+function csvRecords(content: string) {
+  const [header, ...records] = parseCsv(content);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const field = (record: string[], name: string) => {
+    const value = record[columns.indexOf(name.toLowerCase())]?.trim();
+    return value ? value : null;
+  };
+  return { columns, records, field };
+}
+
+const TRUE_VALUES = ['true', 'yes', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', '0'];
+
+// Reads the columns of GET /api/todos/export?format=csv; only title is
+// required. Records are numbered from 2, after the header.
+function parseCsvImport(content: string): ParsedImport {
+  const { columns, records, field } = csvRecords(content);
+  if (!columns.includes('title')) {
+    return { error: 'The CSV file needs a header row with a title column' };
+  }
+
+  return {
+    rows: records.map((record, index) => {
+      const result = emptyRow(index + 2);
+      const flag = (name: string) => {
+        const value = field(record, name)?.toLowerCase();
+        if (value === undefined || FALSE_VALUES.includes(value)) {
+          return false;
+        }
+        if (TRUE_VALUES.includes(value)) {
+          return true;
+        }
+        result.errors.push(`${name} must be true or false`);
+        return false;
+      };
+
+      result.ref = field(record, 'id') ?? result.ref;
+      result.parentRef = field(record, 'parentId');
+      result.title = field(record, 'title') ?? '';
+      result.description =
+        record[columns.indexOf('description')]?.trim() || null;
+      result.completed = flag('completed');
+      result.list = field(record, 'list');
+      result.dueAt = field(record, 'dueAt');
+      result.remindAt = field(record, 'remindAt');
+      const recurrence = field(record, 'recurrence');
+      if (recurrence) {
+        try {
+          result.recurrence = JSON.parse(recurrence);
+        } catch {
+          result.errors.push('recurrence must be a JSON rule');
+        }
+      }
+      result.priority = field(record, 'priority')?.toLowerCase() ?? 'none';
+      result.important = flag('important');
+      result.tags =
+        field(record, 'tags')
+          ?.split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean) ?? [];
+      return result;
+    }),
+  };
+}
+
+// Todoist's p1 (PRIORITY 1) is its most pressing level
+const TODOIST_PRIORITIES: Record<string, Priority> = {
+  '1': 'urgent',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'none',
+};
+const TODOIST_LABEL_PATTERN = /(^|\s)@([^\s@]+)/g;
+const TODOIST_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?$/;
+
+// Reads a Todoist project exported as CSV. Tasks with INDENT 2 or more are
+// subtasks of the task above, labels (@name) become tags and notes are added
+// to their task's description. Only plain dates are understood; natural
+// language dates such as "every monday" are left out with a warning.
+function parseTodoistImport(content: string): ParsedImport {
+  const { columns, records, field } = csvRecords(content);
+  if (!columns.includes('type') || !columns.includes('content')) {
+    return {
+      error: 'This is not a Todoist CSV export (TYPE and CONTENT are missing)',
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  // The latest top-level task, and the latest task of any level
+  let parent: ImportRow | null = null;
+  let previous: ImportRow | null = null;
+  records.forEach((record, index) => {
+    const type = field(record, 'TYPE')?.toLowerCase();
+    const content = field(record, 'CONTENT') ?? '';
+    if (type === 'note') {
+      if (previous && content) {
+        previous.description = appendLine(previous.description, content);
+      }
+      return;
+    }
+    // Sections and anything else are skipped
+    if (type !== 'task') {
+      return;
+    }
+
+    const result = emptyRow(index + 2);
+    result.tags = [...content.matchAll(TODOIST_LABEL_PATTERN)].map(
+      (match) => match[2],
+    );
+    result.title = content.replaceAll(TODOIST_LABEL_PATTERN, '$1').trim();
+    result.description = field(record, 'DESCRIPTION');
+    result.priority =
+      TODOIST_PRIORITIES[field(record, 'PRIORITY') ?? '4'] ?? 'none';
+
+    const indent = Number(field(record, 'INDENT') ?? 1);
+    if (indent > 1 && parent) {
+      result.parentRef = parent.ref;
+      if (indent > 2) {
+        result.warnings.push(
+          'Nested more than one level deep, so added to the top-level task above',
+        );
+      }
+    } else {
+      parent = result;
+    }
+
+    const date = field(record, 'DATE');
+    const dateMatch = date ? TODOIST_DATE_PATTERN.exec(date) : null;
+    if (dateMatch) {
+      result.dueAt = dateMatch[2]
+        ? `${dateMatch[1]}T${dateMatch[2]}`
+        : dateMatch[1];
+    } else if (date) {
+      result.warnings.push(
+        `Due date "${date}" was left out; only dates like 2025-01-31 are read`,
+      );
+    }
+
+    rows.push(result);
+    previous = result;
+  });
+  return { rows };
+}
+
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*$/;
+const MARKDOWN_ITEM_PATTERN = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const MARKDOWN_QUOTE_PATTERN = /^\s+>\s?(.*)$/;
+// Trailing tokens of an item, read from the end of the line
+const MARKDOWN_TOKEN_PATTERN =
+  /\s+(due:\S+|remind:\S+|priority:\S+|!important|#[^\s#]+)$/;
+
+// Reads the checklist of GET /api/todos/export?format=markdown: "## List"
+// headings, "- [ ] title" items (indented for subtasks) with trailing
+// due:, remind:, priority:, !important and #tag tokens, and indented
+// "> " lines holding the description. Other lines are ignored.
+function parseMarkdownImport(content: string): ParsedImport {
+  const rows: ImportRow[] = [];
+  let list: string | null = null;
+  let parent: ImportRow | null = null;
+  let previous: ImportRow | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const heading = MARKDOWN_HEADING_PATTERN.exec(line);
+    if (heading) {
+      // The top-level heading is the document's title
+      if (heading[1].length > 1) {
+        list = heading[2] === INBOX_HEADING ? null : heading[2];
+      }
+      parent = null;
+      previous = null;
+      return;
+    }
+
+    const quote = MARKDOWN_QUOTE_PATTERN.exec(line);
+    if (quote && previous) {
+      previous.description = appendLine(previous.description, quote[1]);
+      return;
+    }
+
+    const item = MARKDOWN_ITEM_PATTERN.exec(line);
+    if (!item) {
+      return;
+    }
+    const result = emptyRow(index + 1);
+    result.completed = item[2] === 'x' || item[2] === 'X';
+    result.list = list;
+
+    let text = item[3];
+    for (
+      let token = MARKDOWN_TOKEN_PATTERN.exec(text);
+      token;
+      token = MARKDOWN_TOKEN_PATTERN.exec(text)
+    ) {
+      text = text.slice(0, token.index);
+      const [name, ...rest] = token[1].split(':');
+      const value = rest.join(':');
+      if (name === 'due') {
+        result.dueAt = value;
+      } else if (name === 'remind') {
+        result.remindAt = value;
+      } else if (name === 'priority') {
+        result.priority = value.toLowerCase();
+      } else if (token[1] === '!important') {
+        result.important = true;
+      } else {
+        result.tags.unshift(token[1].slice(1));
+      }
+    }
+    result.title = text;
+
+    if (item[1].length > 0 && parent) {
+      result.parentRef = parent.ref;
+    } else {
+      parent = result;
+    }
+    rows.push(result);
+    previous = result;
+  });
+  return { rows };
+}
+
+const PARSERS: Record<ImportFormat, (content: string) => ParsedImport> = {
+  json: parseJsonImport,
+  csv: parseCsvImport,
+  markdown: parseMarkdownImport,
+  todoist: parseTodoistImport,
+};
+
+export function parseImport(
+  format: ImportFormat,
+  content: string,
+): ParsedImport {
+  const parsed = PARSERS[format](content);
+  if ('error' in parsed) {
+    return parsed;
+  }
+  if (parsed.rows.length === 0) {
+    return { error: 'No todos were found in the file' };
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return { error: `A file can hold at most ${MAX_IMPORT_ROWS} todos` };
+  }
+  return parsed;
+}
+
+interface PlannedRow {
+  source: ImportRow;
+  status: ImportRowStatus;
+  message: string | null;
+  // The new todo's id, or for a duplicate the todo it matches, so subtasks
+  // can still be attached to it
+  id: string | null;
+  parentId: string | null;
+  listId: string | null;
+  // A list the import creates
+  newList: string | null;
+  listName: string | null;
+  parentTitle: string | null;
+  values: Pick<
+    NewTodo,
+    | 'title'
+    | 'description'
+    | 'completed'
+    | 'priority'
+    | 'important'
+    | 'dueAt'
+    | 'dueHasTime'
+    | 'remindAt'
+    | 'recurrence'
+  > | null;
+  tagNames: string[];
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[];
+  newLists: string[];
+  newTags: string[];
+}
+
+// Rows count as duplicates of a todo with the same title in the same list
+// and under the same parent, or of one with the same id
+const duplicateKey = (listKey: string, parentKey: string, title: string) =>
+  `${listKey}\n${parentKey}\n${title.toLowerCase()}`;
+
+export async function planImport(
+  user: { id: string; timezone?: string | null },
+  rows: ImportRow[],
+  // Where todos that don't name a list go; null is the inbox
+  target: { id: string; name: string } | null,
+): Promise<ImportPlan> {
+  const [accessibleLists, userTags, existingTodos] = await Promise.all([
+    db
+      .select({
+        id: lists.id,
+        name: lists.name,
+        role: listRoleColumn(user.id),
+      })
+      .from(lists)
+      .where(accessibleListsFilter(user.id)),
+    db.select({ name: tags.name }).from(tags).where(eq(tags.userId, user.id)),
+    db
+      .select({
+        id: todos.id,
+        title: todos.title,
+        listId: todos.listId,
+        parentId: todos.parentId,
+      })
+      .from(todos)
+      .where(accessibleTodosFilter(user.id)),
+  ]);
+
+  const listsById = new Map(accessibleLists.map((list) => [list.id, list]));
+  // Lists the user can add to win when several share a name
+  const listsByName = new Map<string, (typeof accessibleLists)[number]>();
+  for (const list of accessibleLists) {
+    const key = list.name.toLowerCase();
+    if (!listsByName.has(key) || hasRole(list.role, 'editor')) {
+      listsByName.set(key, list);
+    }
+  }
+  const tagNames = new Set(userTags.map((tag) => tag.name.toLowerCase()));
+  const todosById = new Map(existingTodos.map((todo) => [todo.id, todo]));
+  // Matching todo for each duplicate key; row is 0 for existing todos
+  const matches = new Map<string, { id: string; row: number }>();
+  for (const todo of existingTodos) {
+    matches.set(
+      duplicateKey(todo.listId ?? '', todo.parentId ?? '', todo.title),
+      { id: todo.id, row: 0 },
+    );
+  }
+
+  const newLists = new Map<string, string>();
+  const newTags = new Map<string, string>();
+  const rowsByRef = new Map<string, PlannedRow>();
+  const planned: PlannedRow[] = [];
+
+  // Parents are planned before their subtasks, wherever they are in the file
+  const ordered = [
+    ...rows.filter((row) => !row.parentRef),
+    ...rows.filter((row) => row.parentRef),
+  ];
+  for (const source of ordered) {
+    const row: PlannedRow = {
+      source,
+      status: 'error',
+      message: null,
+      id: null,
+      parentId: null,
+      listId: null,
+      newList: null,
+      listName: null,
+      parentTitle: null,
+      values: null,
+      tagNames: [],
+    };
+    planned.push(row);
+    const errors = [...source.errors];
+
+    if (rowsByRef.has(source.ref)) {
+      errors.push(`Another row has the id ${source.ref}`);
+    } else {
+      rowsByRef.set(source.ref, row);
+    }
+
+    const title = source.title.trim();
+    if (!title) {
+      errors.push('title must not be empty');
+    } else if (title.length > TITLE_MAX_LENGTH) {
+      errors.push(`title must be at most ${TITLE_MAX_LENGTH} characters`);
+    }
+    if ((source.description?.length ?? 0) > DESCRIPTION_MAX_LENGTH) {
+      errors.push(
+        `description must be at most ${DESCRIPTION_MAX_LENGTH} characters`,
+      );
+    }
+    const priority = source.priority;
+    if (!isPriority(priority)) {
+      errors.push(`priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+    const rowTags = [
+      ...new Map(
+        source.tags
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+          .map((tag) => [tag.toLowerCase(), tag]),
+      ).values(),
+    ];
+    if (rowTags.length > MAX_TAGS) {
+      errors.push(`A todo can have at most ${MAX_TAGS} tags`);
+    }
+    const schedule = parseSchedule(
+      {
+        dueAt: source.dueAt ?? undefined,
+        remindAt: source.remindAt ?? undefined,
+        recurrence: source.recurrence ?? undefined,
+      },
+      user.timezone,
+    );
+    if ('error' in schedule) {
+      errors.push(schedule.error);
+    }
+
+    if (source.parentRef) {
+      const parentRow = rowsByRef.get(source.parentRef);
+      const parentTodo = todosById.get(source.parentRef);
+      if (parentRow && parentRow !== row) {
+        row.parentTitle = parentRow.source.title.trim();
+        if (parentRow.source.parentRef) {
+          errors.push("Subtasks can't have subtasks of their own");
+        } else if (!parentRow.id) {
+          errors.push(`Its parent on row ${parentRow.source.row} is skipped`);
+        } else {
+          row.parentId = parentRow.id;
+          row.listId = parentRow.listId;
+          row.newList = parentRow.newList;
+          row.listName = parentRow.listName;
+        }
+      } else if (parentTodo) {
+        const list = parentTodo.listId
+          ? listsById.get(parentTodo.listId)
+          : undefined;
+        row.parentTitle = parentTodo.title;
+        row.listName = list?.name ?? null;
+        if (parentTodo.parentId) {
+          errors.push("Subtasks can't have subtasks of their own");
+        } else if (list && !hasRole(list.role, 'editor')) {
+          errors.push(`You can't add todos to the list ${list.name}`);
+        } else {
+          row.parentId = parentTodo.id;
+          row.listId = parentTodo.listId;
+        }
+      } else {
+        errors.push(`The parent ${source.parentRef} isn't in the file`);
+      }
+    } else if (source.list?.trim()) {
+      const name = source.list.trim();
+      const list = listsByName.get(name.toLowerCase());
+      row.listName = list?.name ?? name;
+      if (!list) {
+        row.newList = newLists.get(name.toLowerCase()) ?? name;
+      } else if (hasRole(list.role, 'editor')) {
+        row.listId = list.id;
+      } else {
+        errors.push(`You can't add todos to the list ${list.name}`);
+      }
+    } else {
+      row.listId = target?.id ?? null;
+      row.listName = target?.name ?? null;
+    }
+
+    if (errors.length > 0 || 'error' in schedule || !isPriority(priority)) {
+      row.message = errors.join('; ');
+      continue;
+    }
+
+    const key = duplicateKey(
+      row.newList ? `new:${row.newList.toLowerCase()}` : (row.listId ?? ''),
+      row.parentId ?? '',
+      title,
+    );
+    const match = todosById.has(source.ref)
+      ? { id: source.ref, row: 0 }
+      : matches.get(key);
+    if (match) {
+      row.status = 'duplicate';
+      row.id = match.id;
+      row.message =
+        match.row === 0 ? 'Already exists' : `Same as row ${match.row}`;
+      continue;
+    }
+
+    row.status = 'create';
+    row.id = crypto.randomUUID();
+    row.values = {
+      title,
+      description: source.description || null,
+      completed: source.completed,
+      priority,
+      important: source.important,
+      dueAt: null,
+      dueHasTime: false,
+      remindAt: null,
+      recurrence: null,
+      ...schedule.values,
+    };
+    row.tagNames = rowTags;
+    matches.set(key, { id: row.id, row: source.row });
+    if (row.newList) {
+      newLists.set(row.newList.toLowerCase(), row.newList);
+    }
+    for (const tag of rowTags) {
+      if (!tagNames.has(tag.toLowerCase())) {
+        newTags.set(tag.toLowerCase(), newTags.get(tag.toLowerCase()) ?? tag);
+      }
+    }
+  }
+
+  return {
+    rows: planned,
+    newLists: [...newLists.values()],
+    newTags: [...newTags.values()],
+  };
+}
+
+export function importReport(plan: ImportPlan, dryRun: boolean): ImportReport {
+  const rows: ImportRowResult[] = plan.rows
+    .map((row) => ({
+      row: row.source.row,
+      title: row.source.title.trim(),
+      list: row.listName,
+      parentTitle: row.parentTitle,
+      status: row.status,
+      message: row.message,
+      warnings: row.source.warnings,
+    }))
+    .sort((a, b) => a.row - b.row);
+  const count = (status: ImportRowStatus) =>
+    rows.filter((row) => row.status === status).length;
+
+  return {
+    dryRun,
+    rows,
+    created: count('create'),
+    duplicates: count('duplicate'),
+    errors: count('error'),
+    newLists: plan.newLists,
+    newTags: plan.newTags,
+  };
+}
+
+// History rows are written in chunks to stay under SQLite's limit on
+// statement parameters
+const EVENT_CHUNK_SIZE = 500;
+
+// Creates the planned lists, tags and todos. Subtasks come after their
+// parents in the plan, and each group of siblings is appended in file order.
+export async function commitImport(userId: string, plan: ImportPlan) {
+  const creates = plan.rows.filter((row) => row.status === 'create');
+  if (creates.length === 0) {
+    return;
+  }
+
+  await todoTransaction(async (tx) => {
+    const now = new Date();
+
+    const listIds = new Map<string, string>();
+    for (const name of plan.newLists) {
+      const id = crypto.randomUUID();
+      await tx.insert(lists).values({
+        id,
+        name,
+        userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+      listIds.set(name.toLowerCase(), id);
+    }
+
+    const tagIds = new Map(
+      (
+        await tx
+          .select({ id: tags.id, name: tags.name })
+          .from(tags)
+          .where(eq(tags.userId, userId))
+      ).map((tag) => [tag.name.toLowerCase(), tag.id]),
+    );
+    for (const name of plan.newTags) {
+      const id = crypto.randomUUID();
+      await tx.insert(tags).values({
+        id,
+        name,
+        userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+      tagIds.set(name.toLowerCase(), id);
+    }
+
+    // Position of the last todo added under each parent ('' for top level)
+    const lastPositions = new Map<string, string>();
+    const nextPosition = async (parentId: string | null) => {
+      const last = lastPositions.get(parentId ?? '');
+      const position = last
+        ? keyBetween(last, null)
+        : await endPosition(tx, userId, parentId);
+      lastPositions.set(parentId ?? '', position);
+      return position;
+    };
+
+    const events: { todoId: string; action: 'create'; changes: TodoChanges }[] =
+      [];
+    for (const row of creates) {
+      if (!row.id || !row.values) {
+        continue;
+      }
+      const [inserted] = await tx
+        .insert(todos)
+        .values({
+          id: row.id,
+          ...row.values,
+          completedBy: row.values.completed ? userId : null,
+          listId: row.newList
+            ? (listIds.get(row.newList.toLowerCase()) ?? null)
+            : row.listId,
+          parentId: row.parentId,
+          position: await nextPosition(row.parentId),
+          userId,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      const todoTagIds = row.tagNames
+        .map((name) => tagIds.get(name.toLowerCase()))
+        .filter((id): id is string => id !== undefined);
+      if (todoTagIds.length > 0) {
+        await tx
+          .insert(todoTags)
+          .values(todoTagIds.map((tagId) => ({ todoId: inserted.id, tagId })));
+      }
+      events.push({
+        todoId: inserted.id,
+        action: 'create',
+        changes: diffTodo(null, { ...inserted, tagIds: todoTagIds }),
+      });
+    }
+
+    for (let i = 0; i < events.length; i += EVENT_CHUNK_SIZE) {
+      await recordTodoEvents(tx, userId, events.slice(i, i + EVENT_CHUNK_SIZE));
+    }
+  });
+}
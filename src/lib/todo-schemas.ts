@@ -0,0 +1,182 @@
+import { BULK_OPERATIONS, type BulkResult, MAX_BULK_IDS } from './bulk';
+import type { TodoEventAction } from './history';
+import { PRIORITIES } from './priorities';
+import { parseRecurrence } from './recurrence';
+import type { TodoWithDetails } from './todos';
+import {
+  array,
+  boolean,
+  custom,
+  type Infer,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './validation';
+
+// Request bodies and responses of the /api/todos routes. The routes parse
+// bodies with these schemas and useTodos sends the inferred types.
+
+export const TITLE_MAX_LENGTH = 500;
+export const DESCRIPTION_MAX_LENGTH = 10_000;
+export const MAX_TAGS = 50;
+
+const id = string({ min: 1 });
+const title = string({ min: 1, max: TITLE_MAX_LENGTH, trim: true });
+const description = nullable(string({ max: DESCRIPTION_MAX_LENGTH }));
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Id picked by the client for a new todo, so the same create can be sent
+// again after a lost response without adding the todo twice
+const clientId = custom((value) =>
+  typeof value === 'string' && UUID_PATTERN.test(value)
+    ? { value }
+    : { error: 'id must be a UUID' },
+);
+
+// Dates are "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm" in the user's timezone (or
+// ISO strings). parseSchedule reads them once the timezone is known.
+const scheduleFields = {
+  dueAt: optional(nullable(string())),
+  remindAt: optional(nullable(string())),
+  recurrence: optional(
+    nullable(
+      custom((value) => {
+        const result = parseRecurrence(value);
+        return 'error' in result ? result : { value: result.rule };
+      }),
+    ),
+  ),
+};
+
+const priorityFields = {
+  priority: optional(oneOf(PRIORITIES)),
+  important: optional(boolean()),
+};
+
+export const createTodoSchema = object({
+  id: optional(clientId),
+  title,
+  description: optional(description),
+  listId: optional(nullable(id)),
+  ...scheduleFields,
+  ...priorityFields,
+  completeSubtasks: optional(boolean()),
+  tagIds: optional(array(id, { max: MAX_TAGS })),
+});
+export type CreateTodoInput = Infer<typeof createTodoSchema>;
+
+export const updateTodoSchema = object({
+  title: optional(title),
+  description: optional(description),
+  completed: optional(boolean()),
+  listId: optional(nullable(id)),
+  ...scheduleFields,
+  ...priorityFields,
+  completeSubtasks: optional(boolean()),
+  tagIds: optional(array(id, { max: MAX_TAGS })),
+});
+export type UpdateTodoInput = Infer<typeof updateTodoSchema>;
+
+export const createSubtaskSchema = object({
+  id: optional(clientId),
+  title,
+  description: optional(description),
+});
+export type CreateSubtaskInput = Infer<typeof createSubtaskSchema>;
+
+// The sibling the todo should directly follow and/or precede
+export const moveTodoSchema = object({
+  after: optional(nullable(id)),
+  before: optional(nullable(id)),
+});
+export type MoveTodoInput = Infer<typeof moveTodoSchema>;
+
+export const bulkTodosSchema = object({
+  // Each todo with the version the operation was chosen against
+  todos: array(object({ id, version: integer({ min: 1 }) }), {
+    min: 1,
+    max: MAX_BULK_IDS,
+  }),
+  operation: oneOf(BULK_OPERATIONS),
+  // Target of "move"; null or left out moves to the inbox
+  listId: optional(nullable(id)),
+  // Fields "set" changes
+  fields: optional(object({ ...scheduleFields, ...priorityFields })),
+});
+export type BulkTodosInput = Infer<typeof bulkTodosSchema>;
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportQuerySchema = object({
+  format: optional(oneOf(EXPORT_FORMATS)),
+});
+
+// Anything exported can be imported again, as can Todoist's CSV export
+export const IMPORT_FORMATS = [...EXPORT_FORMATS, 'todoist'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const MAX_IMPORT_LENGTH = 5_000_000;
+export const MAX_IMPORT_ROWS = 5000;
+
+export const importTodosSchema = object({
+  format: oneOf(IMPORT_FORMATS),
+  // The file's text
+  content: string({ min: 1, max: MAX_IMPORT_LENGTH }),
+  // Where todos that don't name a list go; null or left out is the inbox
+  listId: optional(nullable(id)),
+  // Only report what the import would do
+  dryRun: optional(boolean()),
+});
+export type ImportTodosInput = Infer<typeof importTodosSchema>;
+
+export interface TodoPage {
+  items: TodoWithDetails[];
+  nextCursor: string | null;
+}
+
+export interface BulkTodosResponse {
+  results: BulkResult[];
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface UndoResponse {
+  undone: TodoEventAction;
+}
+
+// create: the row is (or would be) imported; duplicate: it matches a todo
+// that already exists or an earlier row; error: it can't be imported
+export type ImportRowStatus = 'create' | 'duplicate' | 'error';
+
+export interface ImportRowResult {
+  // Line (Markdown) or record (CSV, JSON) number in the file, from 1
+  row: number;
+  title: string;
+  list: string | null;
+  parentTitle: string | null;
+  status: ImportRowStatus;
+  // Why the row is a duplicate or can't be imported
+  message: string | null;
+  // What was left out of a row that is imported anyway
+  warnings: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  rows: ImportRowResult[];
+  // Todos created, or that would be on a dry run
+  created: number;
+  duplicates: number;
+  errors: number;
+  // Lists and tags the import creates
+  newLists: string[];
+  newTags: string[];
+}
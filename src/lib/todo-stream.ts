@@ -0,0 +1,95 @@
+import type { TodoWithDetails } from './todos';
+
+// In-process bus behind GET /api/todos/stream. Todo changes are published to
+// every user who can see the todo, and the most recent events are kept so a
+// reconnecting client can catch up from its Last-Event-ID. Event ids are
+// "<epoch>:<seq>"; an id from another server process (or one that has
+// scrolled out of the buffer) can't be caught up from.
+
+export type TodoStreamEvent =
+  | { type: 'create' | 'update'; todo: TodoWithDetails }
+  | { type: 'delete'; todoId: string };
+
+export interface TodoStreamMessage {
+  id: string;
+  event: TodoStreamEvent;
+}
+
+type Listener = (message: TodoStreamMessage) => void;
+
+interface TodoStreamBus {
+  epoch: string;
+  seq: number;
+  listeners: Map<string, Set<Listener>>;
+  recent: { userId: string; seq: number; message: TodoStreamMessage }[];
+}
+
+const BUFFER_SIZE = 1000;
+
+// Kept on globalThis so every route bundle, and dev reloads, share one bus
+const globalForStream = globalThis as typeof globalThis & {
+  todoStreamBus?: TodoStreamBus;
+};
+
+function bus() {
+  globalForStream.todoStreamBus ??= {
+    epoch: Date.now().toString(36),
+    seq: 0,
+    listeners: new Map(),
+    recent: [],
+  };
+  return globalForStream.todoStreamBus;
+}
+
+export function publishTodoEvent(userId: string, event: TodoStreamEvent) {
+  const state = bus();
+  state.seq += 1;
+  const message = { id: `${state.epoch}:${state.seq}`, event };
+  state.recent.push({ userId, seq: state.seq, message });
+  if (state.recent.length > BUFFER_SIZE) {
+    state.recent.shift();
+  }
+  for (const listener of state.listeners.get(userId) ?? []) {
+    listener(message);
+  }
+}
+
+// Listens for the user's events. `missed` holds what came after
+// lastEventId, or is null when those events are gone and the client has to
+// refetch instead.
+export function subscribeTodoEvents(
+  userId: string,
+  lastEventId: string | null,
+  listener: Listener,
+) {
+  const state = bus();
+  const listeners = state.listeners.get(userId) ?? new Set();
+  listeners.add(listener);
+  state.listeners.set(userId, listeners);
+
+  const unsubscribe = () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      state.listeners.delete(userId);
+    }
+  };
+
+  if (!lastEventId) {
+    return { missed: [], unsubscribe };
+  }
+  const [epoch, seqValue] = lastEventId.split(':');
+  const seq = Number(seqValue);
+  const oldest = state.recent[0]?.seq ?? state.seq + 1;
+  if (
+    epoch !== state.epoch ||
+    !Number.isInteger(seq) ||
+    seq > state.seq ||
+    seq < oldest - 1
+  ) {
+    return { missed: null, unsubscribe };
+  }
+  const missed = state.recent
+    .filter((entry) => entry.seq > seq && entry.userId === userId)
+    .map((entry) => entry.message);
+  return { missed, unsubscribe };
+}
@@ -0,0 +1,897 @@
+import {
+  and,
+  eq,
+  getTableColumns,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  max,
+  min,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
+import { accessibleTodosFilter, todoRoleColumn, todoViewerIds } from './authz';
+import {
+  DEFAULT_TIMEZONE,
+  formatZonedInput,
+  parseZonedInput,
+  startOfZonedDay,
+} from './dates';
+import { type DbTransaction, db } from './db';
+import {
+  type NewTodo,
+  type Todo,
+  tags,
+  todoEvents,
+  todos,
+  todoTags,
+} from './db/schema';
+import {
+  diffTodo,
+  type TodoChanges,
+  type TodoEventAction,
+  type TodoEventEffects,
+} from './history';
+import { keyBetween } from './positions';
+import { nextOccurrence, parseRecurrence } from './recurrence';
+import type { ListRole } from './roles';
+import { publishTodoEvent, type TodoStreamEvent } from './todo-stream';
+import { WEBHOOK_EVENT_FOR_ACTION } from './webhook-schemas';
+import {
+  processWebhookDeliveries,
+  queueWebhookDelivery,
+  subscribedWebhooks,
+} from './webhooks';
+
+export type TodoWithDetails = Todo & {
+  subtaskCount: number;
+  subtaskCompletedCount: number;
+  tagIds: string[];
+  role: ListRole;
+  creatorName: string | null;
+  completerName: string | null;
+};
+
+// Set as `version` by every update of a todo row
+export const nextVersion = sql<number>`${todos.version} + 1`;
+
+// Todo columns plus subtask progress counts, the viewer's tag ids and role,
+// and who created/completed it, for list payloads. Columns are qualified by
+// hand because drizzle leaves them bare in single-table selects.
+export function todoWithDetailsColumns(viewerId: string) {
+  return {
+    ...getTableColumns(todos),
+    subtaskCount: sql<number>`(select count(*) from "todos" as "subtasks" where "subtasks"."parentId" = "todos"."id" and "subtasks"."deletedAt" is null)`,
+    subtaskCompletedCount: sql<number>`(select count(*) from "todos" as "subtasks" where "subtasks"."parentId" = "todos"."id" and "subtasks"."deletedAt" is null and "subtasks"."completed" = 1)`,
+    tagIds: sql<
+      string[]
+    >`(select json_group_array("todo_tags"."tagId") from "todo_tags" inner join "tags" on "tags"."id" = "todo_tags"."tagId" where "todo_tags"."todoId" = "todos"."id" and "tags"."userId" = ${viewerId})`.mapWith(
+      (value: string) => JSON.parse(value),
+    ),
+    role: todoRoleColumn(viewerId),
+    creatorName: sql<
+      string | null
+    >`(select "user"."name" from "user" where "user"."id" = "todos"."userId")`,
+    completerName: sql<
+      string | null
+    >`(select "user"."name" from "user" where "user"."id" = "todos"."completedBy")`,
+  };
+}
+
+// Names of the viewer's tags on each todo, for exports and feeds
+export function todoTagNamesColumn(viewerId: string) {
+  return sql<
+    string[]
+  >`(select json_group_array("tags"."name") from "todo_tags" inner join "tags" on "tags"."id" = "todo_tags"."tagId" where "todo_tags"."todoId" = "todos"."id" and "tags"."userId" = ${viewerId})`.mapWith(
+    (value: string) => JSON.parse(value),
+  );
+}
+
+// One todo, trashed or not, with the viewer's details; undefined once it is
+// deleted for good
+export async function todoDetails(
+  viewerId: string,
+  id: string,
+): Promise<TodoWithDetails | undefined> {
+  const [todo] = await db
+    .select(todoWithDetailsColumns(viewerId))
+    .from(todos)
+    .where(eq(todos.id, id));
+  return todo;
+}
+
+export const TODO_SORTS = [
+  'position',
+  'created',
+  'updated',
+  'title',
+  'due',
+  'priority',
+] as const;
+export type TodoSort = (typeof TODO_SORTS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+// Largest timestamp SQLite stores for us, so todos without a due date sort last
+const NO_DUE_DATE = 253402300799;
+
+// The raw column value a page is ordered by, also used as the cursor value
+export function sortExpression(sort: TodoSort): SQL {
+  switch (sort) {
+    case 'position':
+      return sql`"todos"."position"`;
+    case 'created':
+      return sql`"todos"."createdAt"`;
+    case 'updated':
+      return sql`"todos"."updatedAt"`;
+    case 'title':
+      return sql`"todos"."title" collate nocase`;
+    case 'due':
+      return sql`coalesce("todos"."dueAt", ${NO_DUE_DATE})`;
+    case 'priority':
+      // Ranked so ascending order, like due dates, puts the most pressing first
+      return sql`(case "todos"."priority" when 'urgent' then 0 when 'high' then 1 when 'medium' then 2 when 'low' then 3 else 4 end)`;
+  }
+}
+
+interface TodoCursor {
+  value: string | number;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64url JSON of the last row's sort key
+export function encodeCursor(cursor: TodoCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): TodoCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    if (
+      (typeof cursor.value === 'string' || typeof cursor.value === 'number') &&
+      typeof cursor.id === 'string'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+// Rows strictly after the cursor in (sort key, id) order
+export function cursorFilter(
+  sort: TodoSort,
+  order: SortOrder,
+  cursor: TodoCursor,
+): SQL {
+  const expression = sortExpression(sort);
+  const operator = sql.raw(order === 'asc' ? '>' : '<');
+  return sql`(${expression} ${operator} ${cursor.value} or (${expression} = ${cursor.value} and "todos"."id" ${operator} ${cursor.id}))`;
+}
+
+export type TagMatch = 'any' | 'all';
+
+// Todos carrying any (or all) of the given tags
+export function tagFilter(tagIds: string[], match: TagMatch): SQL | undefined {
+  if (tagIds.length === 0) {
+    return undefined;
+  }
+
+  const tagged = db
+    .select({ todoId: todoTags.todoId })
+    .from(todoTags)
+    .where(inArray(todoTags.tagId, tagIds))
+    .groupBy(todoTags.todoId);
+
+  return inArray(
+    todos.id,
+    match === 'all'
+      ? tagged.having(sql`count(*) = ${new Set(tagIds).size}`)
+      : tagged,
+  );
+}
+
+// Checks that tag ids from a request body are the user's own tags
+export async function parseTagIds(
+  value: string[],
+  userId: string,
+): Promise<{ error: string } | { tagIds: string[] }> {
+  const tagIds = [...new Set(value)];
+  if (tagIds.length === 0) {
+    return { tagIds };
+  }
+
+  const owned = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(tags.id, tagIds)));
+
+  if (owned.length !== tagIds.length) {
+    return { error: 'Tag not found' };
+  }
+
+  return { tagIds };
+}
+
+// Replaces the user's own tags on a todo; collaborators' tags are kept
+export async function replaceTodoTags(
+  tx: DbTransaction,
+  todoId: string,
+  tagIds: string[],
+  userId: string,
+) {
+  await tx
+    .delete(todoTags)
+    .where(
+      and(
+        eq(todoTags.todoId, todoId),
+        inArray(
+          todoTags.tagId,
+          tx.select({ id: tags.id }).from(tags).where(eq(tags.userId, userId)),
+        ),
+      ),
+    );
+  if (tagIds.length > 0) {
+    await tx
+      .insert(todoTags)
+      .values(tagIds.map((tagId) => ({ todoId, tagId })));
+  }
+}
+
+// The user's own tag ids on a todo
+export async function userTagIds(
+  tx: DbTransaction,
+  todoId: string,
+  userId: string,
+) {
+  const rows = await tx
+    .select({ tagId: todoTags.tagId })
+    .from(todoTags)
+    .innerJoin(tags, eq(tags.id, todoTags.tagId))
+    .where(and(eq(todoTags.todoId, todoId), eq(tags.userId, userId)));
+  return rows.map((row) => row.tagId);
+}
+
+type TodoChange = { todoId: string; action: TodoEventAction };
+
+const STREAM_TYPES: Record<TodoEventAction, TodoStreamEvent['type']> = {
+  create: 'create',
+  update: 'update',
+  complete: 'update',
+  delete: 'delete',
+  // A restored todo reappears in lists as if it were new
+  restore: 'create',
+};
+
+// Changes recorded inside a todoTransaction, published once it commits
+const pendingChanges = new WeakMap<DbTransaction, TodoChange[]>();
+
+// Runs a todo change in a transaction, then publishes what it recorded to
+// the live stream and webhooks of everyone who can see the todos
+export async function todoTransaction<T>(
+  run: (tx: DbTransaction) => Promise<T>,
+) {
+  const changes: TodoChange[] = [];
+  const result = await db.transaction((tx) => {
+    pendingChanges.set(tx, changes);
+    return run(tx);
+  });
+  // The change is saved either way, so a failed publish only logs
+  await publishTodoChanges(changes).catch((error) => {
+    console.error('Error publishing todo changes:', error);
+  });
+  await queueTodoWebhooks(changes).catch((error) => {
+    console.error('Error queueing todo webhooks:', error);
+  });
+  return result;
+}
+
+async function publishTodoChanges(changes: TodoChange[]) {
+  // One event per todo. A create followed by updates is still a create;
+  // otherwise the last change wins.
+  const latest = new Map<string, TodoStreamEvent['type']>();
+  for (const { todoId, action } of changes) {
+    const type = STREAM_TYPES[action];
+    latest.set(
+      todoId,
+      latest.get(todoId) === 'create' && type === 'update' ? 'create' : type,
+    );
+  }
+
+  for (const [todoId, type] of latest) {
+    const [todo] = await db.select().from(todos).where(eq(todos.id, todoId));
+    // Gone for good, or since trashed along with its parent
+    if (!todo || (type !== 'delete' && todo.deletedAt)) {
+      continue;
+    }
+    // A subtask's changes move its parent's progress counts; the parent is
+    // added to the map, so this loop reaches it too
+    if (todo.parentId && !latest.has(todo.parentId)) {
+      latest.set(todo.parentId, 'update');
+    }
+    for (const userId of await todoViewerIds(todo)) {
+      if (type === 'delete') {
+        publishTodoEvent(userId, { type, todoId });
+        continue;
+      }
+      const details = await todoDetails(userId, todoId);
+      if (details) {
+        publishTodoEvent(userId, { type, todo: details });
+      }
+    }
+  }
+}
+
+// Queues a webhook delivery for each change, once per todo and action, to
+// the subscribed webhooks of everyone who can see the todo. The payload is
+// the todo as the webhook's owner sees it.
+async function queueTodoWebhooks(changes: TodoChange[]) {
+  const seen = new Set<string>();
+  let queued = 0;
+  for (const { todoId, action } of changes) {
+    const key = `${todoId}:${action}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const [todo] = await db.select().from(todos).where(eq(todos.id, todoId));
+    if (!todo) {
+      continue;
+    }
+    const event = WEBHOOK_EVENT_FOR_ACTION[action];
+    const subscribed = await subscribedWebhooks(
+      await todoViewerIds(todo),
+      event,
+    );
+    const details = new Map<string, TodoWithDetails>();
+    for (const webhook of subscribed) {
+      const viewed =
+        details.get(webhook.userId) ??
+        (await todoDetails(webhook.userId, todoId));
+      if (!viewed) {
+        continue;
+      }
+      details.set(webhook.userId, viewed);
+      await queueWebhookDelivery(webhook.id, event, { todo: viewed });
+      queued += 1;
+    }
+  }
+  if (queued === 0) {
+    return;
+  }
+  // Sent in the background; the scheduled loop retries what fails
+  processWebhookDeliveries().catch((error) => {
+    console.error('Error delivering webhooks:', error);
+  });
+}
+
+// Appends to the todos' history; updates that changed nothing are skipped.
+// Inside a todoTransaction the changes are also published to the live
+// stream and webhooks.
+export async function recordTodoEvents(
+  tx: DbTransaction,
+  userId: string,
+  events: {
+    todoId: string;
+    action: TodoEventAction;
+    changes: TodoChanges;
+    effects?: TodoEventEffects;
+  }[],
+) {
+  const recorded = events.filter(
+    (event) =>
+      (event.action !== 'update' && event.action !== 'complete') ||
+      Object.keys(event.changes).length > 0,
+  );
+  if (recorded.length === 0) {
+    return;
+  }
+  await tx.insert(todoEvents).values(
+    recorded.map((event) => ({
+      id: crypto.randomUUID(),
+      userId,
+      ...event,
+      createdAt: new Date(),
+    })),
+  );
+  pendingChanges
+    .get(tx)
+    ?.push(...recorded.map(({ todoId, action }) => ({ todoId, action })));
+}
+
+export const SMART_VIEWS = ['today', 'upcoming', 'overdue'] as const;
+export type SmartView = (typeof SMART_VIEWS)[number];
+
+// Builds the WHERE condition for a smart view, evaluated in the user's timezone
+export function smartViewFilter(
+  view: SmartView,
+  userTimeZone: string | null | undefined,
+  now = new Date(),
+): SQL | undefined {
+  const timeZone = userTimeZone || DEFAULT_TIMEZONE;
+  const startOfToday = startOfZonedDay(now, timeZone);
+  const startOfTomorrow = startOfZonedDay(now, timeZone, 1);
+
+  switch (view) {
+    case 'today':
+      return and(
+        gte(todos.dueAt, startOfToday),
+        lt(todos.dueAt, startOfTomorrow),
+      );
+    case 'upcoming':
+      return and(
+        eq(todos.completed, false),
+        gte(todos.dueAt, startOfTomorrow),
+        lt(todos.dueAt, startOfZonedDay(now, timeZone, 8)),
+      );
+    case 'overdue':
+      // All-day todos only become overdue once their day has passed
+      return and(
+        eq(todos.completed, false),
+        isNotNull(todos.dueAt),
+        or(
+          and(eq(todos.dueHasTime, true), lt(todos.dueAt, now)),
+          and(eq(todos.dueHasTime, false), lt(todos.dueAt, startOfToday)),
+        ),
+      );
+  }
+}
+
+type PriorityFields = Pick<Todo, 'priority' | 'important'>;
+
+type ScheduleFields = Pick<
+  Todo,
+  'dueAt' | 'dueHasTime' | 'remindAt' | 'recurrence'
+>;
+
+// Parses dueAt/remindAt/recurrence from a request body. Undefined fields are left out so
+// PATCH keeps the stored value; null or '' clears it. Errors name the field
+// they are about.
+export function parseSchedule(
+  body: { dueAt?: unknown; remindAt?: unknown; recurrence?: unknown },
+  userTimeZone: string | null | undefined,
+  existing?: ScheduleFields,
+): { error: string; field: string } | { values: Partial<ScheduleFields> } {
+  const timeZone = userTimeZone || DEFAULT_TIMEZONE;
+  const values: Partial<ScheduleFields> = {};
+
+  if (body.dueAt !== undefined) {
+    if (body.dueAt === null || body.dueAt === '') {
+      values.dueAt = null;
+      values.dueHasTime = false;
+    } else {
+      const due =
+        typeof body.dueAt === 'string'
+          ? parseZonedInput(body.dueAt, timeZone)
+          : null;
+      if (!due) {
+        return {
+          error: 'dueAt must be YYYY-MM-DD, YYYY-MM-DDTHH:mm or an ISO date',
+          field: 'dueAt',
+        };
+      }
+      values.dueAt = due.date;
+      values.dueHasTime = due.hasTime;
+    }
+  }
+
+  if (body.remindAt !== undefined) {
+    if (body.remindAt === null || body.remindAt === '') {
+      values.remindAt = null;
+    } else {
+      const remind =
+        typeof body.remindAt === 'string'
+          ? parseZonedInput(body.remindAt, timeZone)
+          : null;
+      if (!remind) {
+        return {
+          error: 'remindAt must be YYYY-MM-DDTHH:mm or an ISO date',
+          field: 'remindAt',
+        };
+      }
+      values.remindAt = remind.date;
+    }
+  }
+
+  if (body.recurrence !== undefined) {
+    if (body.recurrence === null) {
+      values.recurrence = null;
+    } else {
+      const parsed = parseRecurrence(body.recurrence);
+      if ('error' in parsed) {
+        return { error: parsed.error, field: 'recurrence' };
+      }
+      values.recurrence = parsed.rule;
+    }
+  }
+
+  const dueAt = values.dueAt !== undefined ? values.dueAt : existing?.dueAt;
+  const dueHasTime = values.dueHasTime ?? existing?.dueHasTime ?? false;
+  const remindAt =
+    values.remindAt !== undefined ? values.remindAt : existing?.remindAt;
+
+  const recurrence =
+    values.recurrence !== undefined ? values.recurrence : existing?.recurrence;
+
+  if (recurrence && !dueAt) {
+    return { error: 'Recurring todos need a due date', field: 'recurrence' };
+  }
+
+  // A monthly rule remembers the day it started on, so a series due on the
+  // 31st comes back to the 31st after shorter months
+  if (
+    dueAt &&
+    values.recurrence?.freq === 'monthly' &&
+    values.recurrence.byMonthDay === undefined
+  ) {
+    values.recurrence = {
+      ...values.recurrence,
+      byMonthDay: Number(formatZonedInput(dueAt, timeZone).date.slice(8)),
+    };
+  }
+
+  if (dueAt && remindAt) {
+    // An all-day todo can still be reminded about during its day
+    const latestReminder = dueHasTime
+      ? dueAt
+      : startOfZonedDay(dueAt, timeZone, 1);
+    if (remindAt > latestReminder) {
+      return {
+        error: 'remindAt must not be after the due date',
+        field: 'remindAt',
+      };
+    }
+  }
+
+  return { values };
+}
+
+// Builds the follow-up todo created when a recurring todo is completed, or
+// null when the todo does not recur or its series has ended
+export function nextRecurringTodo(
+  todo: Todo,
+  userTimeZone: string | null | undefined,
+): NewTodo | null {
+  if (!todo.recurrence || !todo.dueAt) {
+    return null;
+  }
+
+  const timeZone = userTimeZone || DEFAULT_TIMEZONE;
+  const dueAt = nextOccurrence(
+    todo.recurrence,
+    todo.dueAt,
+    timeZone,
+    todo.occurrence,
+  );
+  if (!dueAt) {
+    return null;
+  }
+
+  // Keep the reminder at the same distance before the due date
+  const remindAt = todo.remindAt
+    ? new Date(
+        dueAt.getTime() - (todo.dueAt.getTime() - todo.remindAt.getTime()),
+      )
+    : null;
+  const now = new Date();
+
+  return {
+    id: crypto.randomUUID(),
+    title: todo.title,
+    description: todo.description,
+    completed: false,
+    listId: todo.listId,
+    dueAt,
+    dueHasTime: todo.dueHasTime,
+    remindAt,
+    recurrence: todo.recurrence,
+    occurrence: todo.occurrence + 1,
+    previousOccurrenceId: todo.id,
+    priority: todo.priority,
+    important: todo.important,
+    completeSubtasks: todo.completeSubtasks,
+    userId: todo.userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export type TodoUpdateValues = Partial<
+  Pick<
+    Todo,
+    | 'title'
+    | 'description'
+    | 'completed'
+    | 'listId'
+    | 'completeSubtasks'
+    | keyof ScheduleFields
+    | keyof PriorityFields
+  >
+>;
+
+// Writes already validated changes to a todo and records them. Subtasks
+// follow the todo into another list, and completing it also completes its
+// subtasks (when asked to) and schedules the next occurrence of a recurring
+// todo. `tagIds` replaces the user's own tags when given.
+export async function applyTodoUpdate(
+  tx: DbTransaction,
+  user: { id: string; timezone?: string | null },
+  existing: Todo,
+  values: TodoUpdateValues,
+  tagIds?: string[],
+) {
+  const [updated] = await tx
+    .update(todos)
+    .set({
+      ...values,
+      completedBy:
+        values.completed === undefined ||
+        values.completed === existing.completed
+          ? existing.completedBy
+          : values.completed
+            ? user.id
+            : null,
+      updatedAt: new Date(),
+      version: nextVersion,
+    })
+    .where(eq(todos.id, existing.id))
+    .returning();
+
+  // Subtasks follow their parent into the new list
+  if (updated.listId !== existing.listId) {
+    await tx
+      .update(todos)
+      .set({
+        listId: updated.listId,
+        updatedAt: new Date(),
+        version: nextVersion,
+      })
+      .where(eq(todos.parentId, existing.id));
+  }
+
+  const previousTagIds = tagIds
+    ? await userTagIds(tx, existing.id, user.id)
+    : undefined;
+  if (tagIds) {
+    await replaceTodoTags(tx, existing.id, tagIds, user.id);
+  }
+
+  const isCompleting = values.completed === true && !existing.completed;
+  const changes = diffTodo(
+    { ...existing, tagIds: previousTagIds },
+    { ...updated, tagIds },
+  );
+
+  if (!isCompleting) {
+    await recordTodoEvents(tx, user.id, [
+      { todoId: existing.id, action: 'update', changes },
+    ]);
+    return updated;
+  }
+
+  // The completion is recorded last, with what it did to other todos
+  const effects: TodoEventEffects = {};
+
+  const children = await tx
+    .select()
+    .from(todos)
+    .where(and(eq(todos.parentId, existing.id), isNull(todos.deletedAt)));
+
+  if (updated.completeSubtasks) {
+    const completedChildren = await tx
+      .update(todos)
+      .set({
+        completed: true,
+        completedBy: user.id,
+        updatedAt: new Date(),
+        version: nextVersion,
+      })
+      .where(
+        and(
+          eq(todos.parentId, existing.id),
+          eq(todos.completed, false),
+          isNull(todos.deletedAt),
+        ),
+      )
+      .returning();
+    effects.completedSubtaskIds = completedChildren.map((child) => child.id);
+    await recordTodoEvents(
+      tx,
+      user.id,
+      completedChildren.map((child) => ({
+        todoId: child.id,
+        action: 'complete',
+        changes: diffTodo(
+          children.find((before) => before.id === child.id) ?? null,
+          child,
+        ),
+      })),
+    );
+  }
+
+  // Completing a recurring todo schedules its next occurrence right after
+  // it, with a fresh copy of its checklist, unless an earlier completion
+  // already did
+  const [scheduled] = await tx
+    .select({ id: todos.id })
+    .from(todos)
+    .where(
+      and(eq(todos.previousOccurrenceId, existing.id), isNull(todos.deletedAt)),
+    )
+    .limit(1);
+  const next = scheduled ? null : nextRecurringTodo(updated, user.timezone);
+  if (next) {
+    const neighbours = await neighbourPositions(
+      tx,
+      user.id,
+      updated,
+      updated.position,
+    );
+    next.position = keyBetween(updated.position, neighbours.next);
+    const [created] = await tx.insert(todos).values(next).returning();
+    effects.nextOccurrenceId = created.id;
+    await recordTodoEvents(tx, user.id, [
+      {
+        todoId: created.id,
+        action: 'create',
+        changes: diffTodo(null, created),
+      },
+    ]);
+    // Every collaborator's tags carry over
+    const currentTags = await tx
+      .select({ tagId: todoTags.tagId })
+      .from(todoTags)
+      .where(eq(todoTags.todoId, existing.id));
+    if (currentTags.length > 0) {
+      await tx
+        .insert(todoTags)
+        .values(
+          currentTags.map((tag) => ({ todoId: created.id, tagId: tag.tagId })),
+        );
+    }
+    if (children.length > 0) {
+      const copies = await tx
+        .insert(todos)
+        .values(
+          children.map((child) => ({
+            id: crypto.randomUUID(),
+            title: child.title,
+            description: child.description,
+            completed: false,
+            listId: created.listId,
+            parentId: created.id,
+            position: child.position,
+            userId: child.userId,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })),
+        )
+        .returning();
+      await recordTodoEvents(
+        tx,
+        user.id,
+        copies.map((copy) => ({
+          todoId: copy.id,
+          action: 'create',
+          changes: diffTodo(null, copy),
+        })),
+      );
+    }
+  }
+
+  await recordTodoEvents(tx, user.id, [
+    { todoId: existing.id, action: 'complete', changes, effects },
+  ]);
+
+  return updated;
+}
+
+// Whether any todo, trashed or not, already has this id. Clients may pick the
+// id of a new todo so a create queued offline can be replayed safely.
+export async function todoExists(id: string) {
+  const [existing] = await db
+    .select({ id: todos.id })
+    .from(todos)
+    .where(eq(todos.id, id));
+  return existing !== undefined;
+}
+
+// Siblings share an ordering: one todo's subtasks, or the top-level todos
+// the user can see (their own and those in lists shared with them)
+function siblingFilter(userId: string, parentId: string | null) {
+  return parentId
+    ? and(eq(todos.parentId, parentId), isNull(todos.deletedAt))
+    : and(isNull(todos.parentId), accessibleTodosFilter(userId));
+}
+
+// Position for a todo appended after its last sibling
+export async function endPosition(
+  tx: DbTransaction,
+  userId: string,
+  parentId: string | null,
+) {
+  const [last] = await tx
+    .select({ position: max(todos.position) })
+    .from(todos)
+    .where(siblingFilter(userId, parentId));
+  return keyBetween(last?.position ?? null, null);
+}
+
+// Positions of the nearest siblings before and after `position`, skipping
+// the todo being moved
+export async function neighbourPositions(
+  tx: DbTransaction,
+  userId: string,
+  todo: Pick<Todo, 'id' | 'parentId'>,
+  position: string,
+) {
+  const [bounds] = await tx
+    .select({
+      previous: max(
+        sql<string>`case when "todos"."position" < ${position} then "todos"."position" end`,
+      ),
+      next: min(
+        sql<string>`case when "todos"."position" > ${position} then "todos"."position" end`,
+      ),
+    })
+    .from(todos)
+    .where(
+      and(
+        siblingFilter(userId, todo.parentId),
+        sql`"todos"."id" <> ${todo.id}`,
+      ),
+    );
+  return { previous: bounds?.previous ?? null, next: bounds?.next ?? null };
+}
+
+// Whether two siblings share a position, as rows created before manual
+// ordering do. Moves next to them would be ambiguous until rebalanced.
+export async function hasDuplicatePositions(
+  tx: DbTransaction,
+  userId: string,
+  parentId: string | null,
+) {
+  const duplicates = await tx
+    .select({ position: todos.position })
+    .from(todos)
+    .where(siblingFilter(userId, parentId))
+    .groupBy(todos.position)
+    .having(sql`count(*) > 1`)
+    .limit(1);
+  return duplicates.length > 0;
+}
+
+// Gives every sibling a distinct position, keeping the order lists show them
+// in (ties broken by id, like the list query)
+export async function rebalancePositions(
+  tx: DbTransaction,
+  userId: string,
+  parentId: string | null,
+) {
+  const siblings = await tx
+    .select({ id: todos.id, position: todos.position })
+    .from(todos)
+    .where(siblingFilter(userId, parentId))
+    .orderBy(todos.position, todos.id);
+
+  const moved: TodoChange[] = [];
+  let position: string | null = null;
+  for (const sibling of siblings) {
+    position = keyBetween(position, null);
+    if (position === sibling.position) {
+      continue;
+    }
+    await tx
+      .update(todos)
+      .set({ position, version: nextVersion })
+      .where(eq(todos.id, sibling.id));
+    moved.push({ todoId: sibling.id, action: 'update' });
+  }
+  // Published without a history entry: nobody chose the new positions, and
+  // undoing one would only bring the duplicates back
+  pendingChanges.get(tx)?.push(...moved);
+}
@@ -0,0 +1,139 @@
+import { eq, inArray } from 'drizzle-orm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST as restore } from '@/app/api/todos/[id]/restore/route';
+import { DELETE } from '@/app/api/todos/[id]/route';
+import { POST as addSubtask } from '@/app/api/todos/[id]/subtasks/route';
+import { POST } from '@/app/api/todos/route';
+import { GET as listTrash } from '@/app/api/todos/trash/route';
+import { createUser, params, requestsAs } from '@/test/fixtures';
+import { db } from './db';
+import { todoEvents, todos } from './db/schema';
+import { TRASH_RETENTION_DAYS } from './retention';
+import type { TodoWithDetails } from './todos';
+import { purgeExpiredTodos, type TrashedTodo } from './trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let request: Awaited<ReturnType<typeof requestsAs>>;
+
+beforeAll(async () => {
+  request = await requestsAs((await createUser()).id);
+});
+
+async function createTodo(title: string): Promise<TodoWithDetails> {
+  return (await POST(request('POST', '/api/todos', { title }))).json();
+}
+
+async function createSubtask(
+  parent: TodoWithDetails,
+  title: string,
+): Promise<TodoWithDetails> {
+  return (
+    await addSubtask(
+      request('POST', `/api/todos/${parent.id}/subtasks`, { title }),
+      params({ id: parent.id }),
+    )
+  ).json();
+}
+
+function trash(id: string) {
+  return DELETE(
+    request('DELETE', `/api/todos/${id}`, undefined, { 'If-Match': '*' }),
+    params({ id }),
+  );
+}
+
+function restoreTodo(id: string) {
+  return restore(request('POST', `/api/todos/${id}/restore`), params({ id }));
+}
+
+async function deletedAt(ids: string[]) {
+  const rows = await db
+    .select({ id: todos.id, deletedAt: todos.deletedAt })
+    .from(todos)
+    .where(inArray(todos.id, ids));
+  return Object.fromEntries(rows.map((row) => [row.id, row.deletedAt]));
+}
+
+describe('the trash', () => {
+  it('takes subtasks along and lists only the todo that was deleted', async () => {
+    const parent = await createTodo('Move house');
+    const subtask = await createSubtask(parent, 'Book the van');
+
+    expect((await trash(parent.id)).status).toBe(200);
+
+    const trashed: TrashedTodo[] = await (
+      await listTrash(request('GET', '/api/todos/trash'))
+    ).json();
+    expect(trashed.map((todo) => todo.id)).toContain(parent.id);
+    expect(trashed.map((todo) => todo.id)).not.toContain(subtask.id);
+    const dates = await deletedAt([parent.id, subtask.id]);
+    expect(dates[subtask.id]).toEqual(dates[parent.id]);
+  });
+
+  it('restores the subtasks deleted with a todo but not ones deleted before', async () => {
+    const parent = await createTodo('Plan trip');
+    const kept = await createSubtask(parent, 'Book flights');
+    const dropped = await createSubtask(parent, 'Rent a car');
+    await trash(dropped.id);
+    // Trashed a minute earlier, so the two deletions can be told apart
+    await db
+      .update(todos)
+      .set({ deletedAt: new Date(Date.now() - 60_000) })
+      .where(eq(todos.id, dropped.id));
+    await trash(parent.id);
+
+    expect((await restoreTodo(parent.id)).status).toBe(200);
+
+    const dates = await deletedAt([parent.id, kept.id, dropped.id]);
+    expect(dates[parent.id]).toBeNull();
+    expect(dates[kept.id]).toBeNull();
+    expect(dates[dropped.id]).not.toBeNull();
+  });
+
+  it("won't restore a subtask while its parent is in the trash", async () => {
+    const parent = await createTodo('Paint the fence');
+    const subtask = await createSubtask(parent, 'Buy paint');
+    await trash(parent.id);
+
+    const response = await restoreTodo(subtask.id);
+    expect(response.status).toBe(409);
+    expect((await response.json()).error.message).toBe(
+      'Restore the parent todo first',
+    );
+  });
+});
+
+describe('purging the trash', () => {
+  it('deletes todos for good once the retention period is over', async () => {
+    const expired = await createTodo('Old news');
+    const subtask = await createSubtask(expired, 'Older news');
+    const recent = await createTodo('Recently deleted');
+    await trash(expired.id);
+    await trash(recent.id);
+    // Trashed, with its subtask, just over the retention period ago
+    await db
+      .update(todos)
+      .set({
+        deletedAt: new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS - 1000),
+      })
+      .where(inArray(todos.id, [expired.id, subtask.id]));
+
+    expect(await purgeExpiredTodos()).toBe(2);
+
+    expect(await deletedAt([expired.id, subtask.id, recent.id])).toEqual({
+      [recent.id]: expect.any(Date),
+    });
+    const history = await db
+      .select()
+      .from(todoEvents)
+      .where(inArray(todoEvents.todoId, [expired.id, subtask.id]));
+    expect(history).toEqual([]);
+  });
+
+  it('leaves todos outside the trash alone', async () => {
+    const todo = await createTodo('Still here');
+    await purgeExpiredTodos(new Date(Date.now() + 365 * DAY_MS));
+    expect(await deletedAt([todo.id])).toEqual({ [todo.id]: null });
+  });
+});
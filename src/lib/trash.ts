@@ -0,0 +1,120 @@
+import { and, desc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { accessibleTodosFilter } from './authz';
+import { type DbTransaction, db } from './db';
+import { type Todo, todoEvents, todos, todoTags } from './db/schema';
+import { trashCutoff } from './retention';
+import {
+  nextVersion,
+  type TodoWithDetails,
+  todoWithDetailsColumns,
+} from './todos';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Moves a todo and its subtasks to the trash. The subtasks share the
+// parent's deletedAt, which is how restoring tells them apart from subtasks
+// that were trashed on their own earlier.
+export async function trashTodo(tx: DbTransaction, id: string) {
+  await tx
+    .update(todos)
+    .set({ deletedAt: new Date(), version: nextVersion })
+    .where(
+      and(
+        or(eq(todos.id, id), eq(todos.parentId, id)),
+        isNull(todos.deletedAt),
+      ),
+    );
+}
+
+// A subtask can't leave the trash while its parent is still in it
+export async function isParentTrashed(todo: Todo) {
+  if (!todo.parentId) {
+    return false;
+  }
+  const [parent] = await db
+    .select({ deletedAt: todos.deletedAt })
+    .from(todos)
+    .where(eq(todos.id, todo.parentId));
+  return Boolean(parent?.deletedAt);
+}
+
+export async function restoreTodo(tx: DbTransaction, todo: Todo) {
+  if (!todo.deletedAt) {
+    return;
+  }
+  await tx
+    .update(todos)
+    .set({ deletedAt: null, version: nextVersion })
+    .where(
+      and(
+        or(eq(todos.id, todo.id), eq(todos.parentId, todo.id)),
+        eq(todos.deletedAt, todo.deletedAt),
+      ),
+    );
+}
+
+// Deletes todos for good, with their subtasks, tag links and history
+export async function purgeTodos(tx: DbTransaction, ids: string[]) {
+  if (ids.length === 0) {
+    return;
+  }
+  const subtasks = await tx
+    .select({ id: todos.id })
+    .from(todos)
+    .where(inArray(todos.parentId, ids));
+  const allIds = [...ids, ...subtasks.map((subtask) => subtask.id)];
+
+  await tx.delete(todoTags).where(inArray(todoTags.todoId, allIds));
+  await tx.delete(todoEvents).where(inArray(todoEvents.todoId, allIds));
+  await tx.delete(todos).where(inArray(todos.parentId, ids));
+  await tx.delete(todos).where(inArray(todos.id, ids));
+}
+
+// Purges everything that has been in the trash longer than the retention
+// period and returns how many todos went
+export async function purgeExpiredTodos(now = new Date()) {
+  return db.transaction(async (tx) => {
+    const expired = await tx
+      .select({ id: todos.id })
+      .from(todos)
+      .where(lt(todos.deletedAt, trashCutoff(now)));
+    await purgeTodos(
+      tx,
+      expired.map((todo) => todo.id),
+    );
+    return expired.length;
+  });
+}
+
+// Runs the purge now and then hourly for the life of the server process
+export function scheduleTrashPurge() {
+  const purge = () =>
+    purgeExpiredTodos().catch((error) => {
+      console.error('Error purging trash:', error);
+    });
+  purge();
+  // Unref'd so the timer never keeps the process alive on its own
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
+
+export type TrashedTodo = TodoWithDetails & { parentTitle: string | null };
+
+// Trashed todos the user can see, most recently deleted first. Subtasks that
+// went to the trash with their parent are left out, as they come back with it.
+export async function listTrashedTodos(userId: string): Promise<TrashedTodo[]> {
+  return db
+    .select({
+      ...todoWithDetailsColumns(userId),
+      parentTitle: sql<
+        string | null
+      >`(select "parents"."title" from "todos" as "parents" where "parents"."id" = "todos"."parentId")`,
+    })
+    .from(todos)
+    .where(
+      and(
+        accessibleTodosFilter(userId, true),
+        sql`("todos"."parentId" is null or not exists (select 1 from "todos" as "parents" where "parents"."id" = "todos"."parentId" and "parents"."deletedAt" is not null))`,
+      ),
+    )
+    .orderBy(desc(todos.deletedAt));
+}
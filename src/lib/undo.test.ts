@@ -0,0 +1,144 @@
+import { eq } from 'drizzle-orm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DELETE, PATCH } from '@/app/api/todos/[id]/route';
+import { POST as addSubtask } from '@/app/api/todos/[id]/subtasks/route';
+import { POST as undo } from '@/app/api/todos/[id]/undo/route';
+import { POST } from '@/app/api/todos/route';
+import { createList, createUser, params, requestsAs } from '@/test/fixtures';
+import { db } from './db';
+import { type List, todos } from './db/schema';
+import type { TodoWithDetails } from './todos';
+
+type Requests = Awaited<ReturnType<typeof requestsAs>>;
+
+let owner: Requests;
+let editor: Requests;
+let viewer: Requests;
+let outsider: Requests;
+let list: List;
+
+beforeAll(async () => {
+  const [ownerUser, editorUser, viewerUser, outsiderUser] = await Promise.all(
+    ['Owner', 'Editor', 'Viewer', 'Outsider'].map((name) => createUser(name)),
+  );
+  owner = await requestsAs(ownerUser.id);
+  editor = await requestsAs(editorUser.id);
+  viewer = await requestsAs(viewerUser.id);
+  outsider = await requestsAs(outsiderUser.id);
+  list = await createList(ownerUser.id, [
+    [editorUser.id, 'editor'],
+    [viewerUser.id, 'viewer'],
+  ]);
+});
+
+async function createTodo(
+  body: Record<string, unknown>,
+): Promise<TodoWithDetails> {
+  return (
+    await POST(owner('POST', '/api/todos', { listId: list.id, ...body }))
+  ).json();
+}
+
+function patch(request: Requests, id: string, body: unknown) {
+  return PATCH(
+    request('PATCH', `/api/todos/${id}`, body, { 'If-Match': '*' }),
+    params({ id }),
+  );
+}
+
+function undoAs(request: Requests, id: string) {
+  return undo(request('POST', `/api/todos/${id}/undo`), params({ id }));
+}
+
+async function stored(id: string) {
+  const [todo] = await db.select().from(todos).where(eq(todos.id, id));
+  return todo;
+}
+
+describe('undo', () => {
+  it('puts changed fields back, and undoing again redoes the change', async () => {
+    const todo = await createTodo({ title: 'Draft', priority: 'low' });
+    await patch(owner, todo.id, { title: 'Final', priority: 'high' });
+
+    const response = await undoAs(owner, todo.id);
+    expect(await response.json()).toEqual({ undone: 'update' });
+    expect(await stored(todo.id)).toMatchObject({
+      title: 'Draft',
+      priority: 'low',
+    });
+
+    await undoAs(owner, todo.id);
+    expect(await stored(todo.id)).toMatchObject({
+      title: 'Final',
+      priority: 'high',
+    });
+  });
+
+  it('moves new todos to the trash and brings deleted ones back', async () => {
+    const todo = await createTodo({ title: 'Created' });
+    expect(await (await undoAs(owner, todo.id)).json()).toEqual({
+      undone: 'create',
+    });
+    expect((await stored(todo.id)).deletedAt).not.toBeNull();
+
+    const other = await createTodo({ title: 'Deleted' });
+    await DELETE(
+      owner('DELETE', `/api/todos/${other.id}`, undefined, { 'If-Match': '*' }),
+      params({ id: other.id }),
+    );
+    expect(await (await undoAs(owner, other.id)).json()).toEqual({
+      undone: 'delete',
+    });
+    expect((await stored(other.id)).deletedAt).toBeNull();
+  });
+
+  it('reverts what completing a recurring todo did to others', async () => {
+    const todo = await createTodo({
+      title: 'Water plants',
+      dueAt: '2026-05-01',
+      recurrence: { freq: 'weekly', interval: 1 },
+      completeSubtasks: true,
+    });
+    const subtask: TodoWithDetails = await (
+      await addSubtask(
+        owner('POST', `/api/todos/${todo.id}/subtasks`, { title: 'Balcony' }),
+        params({ id: todo.id }),
+      )
+    ).json();
+    await patch(owner, todo.id, { completed: true });
+    const [next] = await db
+      .select()
+      .from(todos)
+      .where(eq(todos.previousOccurrenceId, todo.id));
+    expect((await stored(subtask.id)).completed).toBe(true);
+
+    expect(await (await undoAs(owner, todo.id)).json()).toEqual({
+      undone: 'complete',
+    });
+    expect((await stored(todo.id)).completed).toBe(false);
+    expect((await stored(subtask.id)).completed).toBe(false);
+    expect((await stored(next.id)).deletedAt).not.toBeNull();
+  });
+});
+
+describe('who can undo', () => {
+  it("refuses another member's latest change", async () => {
+    const todo = await createTodo({ title: 'Shared' });
+    await patch(editor, todo.id, { title: 'Edited' });
+    const response = await undoAs(owner, todo.id);
+    expect(response.status).toBe(409);
+  });
+
+  it("doesn't let viewers undo", async () => {
+    const todo = await createTodo({ title: 'Read only' });
+    expect((await undoAs(viewer, todo.id)).status).toBe(403);
+  });
+
+  it("reports todos the user can't see as missing, before looking at history", async () => {
+    const todo = await createTodo({ title: 'Not yours' });
+    const response = await undoAs(outsider, todo.id);
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Todo not found');
+    expect((await stored(todo.id)).deletedAt).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+// Small request schemas shared by the API routes and the client. A schema
+// checks an unknown value and returns it typed, or every field that failed;
+// Infer<typeof schema> gives the type the client sends.
+
+export interface FieldError {
+  // Dotted path to the field, e.g. "fields.priority" or "ids.2"
+  field: string;
+  message: string;
+}
+
+export type ParseResult<T> = { value: T } | { errors: FieldError[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const fieldName = (path: string) => path || 'body';
+
+const fail = (path: string, message: string): { errors: FieldError[] } => ({
+  errors: [
+    { field: fieldName(path), message: `${fieldName(path)} ${message}` },
+  ],
+});
+
+export function string(
+  options: { min?: number; max?: number; trim?: boolean } = {},
+): Schema<string> {
+  const { min = 0, max = Number.POSITIVE_INFINITY, trim = false } = options;
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string') {
+        return fail(path, 'must be a string');
+      }
+      const result = trim ? value.trim() : value;
+      if (result.length < min) {
+        return fail(
+          path,
+          min === 1
+            ? 'must not be empty'
+            : `must be at least ${min} characters`,
+        );
+      }
+      if (result.length > max) {
+        return fail(path, `must be at most ${max} characters`);
+      }
+      return { value: result };
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path = '') {
+      return typeof value === 'boolean'
+        ? { value }
+        : fail(path, 'must be true or false');
+    },
+  };
+}
+
+// A whole number, also accepted as a numeric string so query parameters
+// can use the same schemas as bodies
+export function integer(
+  options: { min?: number; max?: number } = {},
+): Schema<number> {
+  const { min, max } = options;
+  return {
+    parse(value, path = '') {
+      const number =
+        typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : value;
+      if (typeof number !== 'number' || !Number.isInteger(number)) {
+        return fail(path, 'must be a whole number');
+      }
+      if (min !== undefined && number < min) {
+        return fail(path, `must be at least ${min}`);
+      }
+      if (max !== undefined && number > max) {
+        return fail(path, `must be at most ${max}`);
+      }
+      return { value: number };
+    },
+  };
+}
+
+export function oneOf<const T extends readonly string[]>(
+  values: T,
+): Schema<T[number]> {
+  return {
+    parse(value, path = '') {
+      return values.includes(value as string)
+        ? { value: value as T[number] }
+        : fail(path, `must be one of ${values.join(', ')}`);
+    },
+  };
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number } = {},
+): Schema<T[]> {
+  const { min = 0, max = Number.POSITIVE_INFINITY } = options;
+  return {
+    parse(value, path = '') {
+      if (!Array.isArray(value)) {
+        return fail(path, 'must be an array');
+      }
+      if (value.length < min) {
+        return fail(
+          path,
+          min === 1 ? 'must not be empty' : `needs ${min} items`,
+        );
+      }
+      if (value.length > max) {
+        return fail(path, `must have at most ${max} items`);
+      }
+      const items: T[] = [];
+      const errors: FieldError[] = [];
+      value.forEach((element, index) => {
+        const result = item.parse(element, `${fieldName(path)}.${index}`);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else {
+          items.push(result.value);
+        }
+      });
+      return errors.length > 0 ? { errors } : { value: items };
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path = '') {
+      return value === undefined ? { value } : schema.parse(value, path);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path = '') {
+      return value === null ? { value } : schema.parse(value, path);
+    },
+  };
+}
+
+// Wraps one of the existing parse helpers, which return { error } on failure
+export function custom<T>(
+  check: (value: unknown) => { error: string } | { value: T },
+): Schema<T> {
+  return {
+    parse(value, path = '') {
+      const result = check(value);
+      return 'error' in result
+        ? { errors: [{ field: fieldName(path), message: result.error }] }
+        : result;
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+// Keys whose schema accepts undefined may be left out
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+// Unknown keys are dropped, so handlers only ever see declared fields
+export function object<S extends Shape>(
+  shape: S,
+): Schema<{ [K in keyof ObjectOf<S>]: ObjectOf<S>[K] }> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, 'must be an object');
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const errors: FieldError[] = [];
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema.parse(input[key], path ? `${path}.${key}` : key);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else if (result.value !== undefined) {
+          output[key] = result.value;
+        }
+      }
+      return errors.length > 0
+        ? { errors }
+        : { value: output as { [K in keyof ObjectOf<S>]: ObjectOf<S>[K] } };
+    },
+  };
+}
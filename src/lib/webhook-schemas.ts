@@ -0,0 +1,90 @@
+import type { Webhook, WebhookDelivery } from './db/schema';
+import type { TodoEventAction } from './history';
+import {
+  array,
+  boolean,
+  custom,
+  type Infer,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './validation';
+
+// Request bodies and responses of the /api/webhooks routes.
+
+export const WEBHOOK_EVENTS = [
+  'todo.created',
+  'todo.updated',
+  'todo.completed',
+  'todo.deleted',
+  'todo.restored',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// The webhook event sent for each kind of todo history event
+export const WEBHOOK_EVENT_FOR_ACTION: Record<TodoEventAction, WebhookEvent> = {
+  create: 'todo.created',
+  update: 'todo.updated',
+  complete: 'todo.completed',
+  delete: 'todo.deleted',
+  restore: 'todo.restored',
+};
+
+// pending deliveries are waiting for their next attempt; failed ones ran
+// out of retries
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'succeeded',
+  'failed',
+] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+const URL_MAX_LENGTH = 2000;
+export const WEBHOOK_SECRET_MIN_LENGTH = 16;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const url = custom<string>((value) =>
+  typeof value === 'string' &&
+  value.length <= URL_MAX_LENGTH &&
+  isHttpUrl(value)
+    ? { value }
+    : { error: 'url must be an http or https URL' },
+);
+const events = array(oneOf(WEBHOOK_EVENTS), {
+  min: 1,
+  max: WEBHOOK_EVENTS.length,
+});
+const secret = string({ min: WEBHOOK_SECRET_MIN_LENGTH, max: 200 });
+
+export const createWebhookSchema = object({
+  url,
+  events,
+  // Left out to have one generated
+  secret: optional(secret),
+});
+export type CreateWebhookInput = Infer<typeof createWebhookSchema>;
+
+export const updateWebhookSchema = object({
+  url: optional(url),
+  events: optional(events),
+  active: optional(boolean()),
+  secret: optional(secret),
+});
+export type UpdateWebhookInput = Infer<typeof updateWebhookSchema>;
+
+// A webhook as listed in settings; the secret is only returned when created
+export type WebhookSummary = Omit<Webhook, 'secret' | 'userId'>;
+
+export interface CreatedWebhook extends WebhookSummary {
+  secret: string;
+}
+
+export type WebhookDeliverySummary = WebhookDelivery;
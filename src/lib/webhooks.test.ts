@@ -0,0 +1,166 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { eq } from 'drizzle-orm';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createUser } from '@/test/fixtures';
+import { db } from './db';
+import { webhookDeliveries } from './db/schema';
+import {
+  createWebhook,
+  processWebhookDeliveries,
+  queueWebhookDelivery,
+  signPayload,
+} from './webhooks';
+
+interface Received {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+// A local receiver that records every request and answers with `status`
+let receiver: Server;
+let port: number;
+let received: Received[] = [];
+let status = 200;
+
+beforeAll(async () => {
+  receiver = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      response.writeHead(status, {
+        'Content-Type': 'text/plain',
+        Location: '/elsewhere',
+      });
+      response.end(`answered ${status}`);
+    });
+  });
+  await new Promise<void>((resolve) =>
+    receiver.listen(0, '127.0.0.1', resolve),
+  );
+  port = (receiver.address() as AddressInfo).port;
+});
+
+afterAll(() => {
+  receiver.close();
+});
+
+afterEach(async () => {
+  received = [];
+  status = 200;
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+  await db.delete(webhookDeliveries);
+});
+
+async function queueDelivery(host = '127.0.0.1') {
+  const owner = await createUser();
+  const webhook = await createWebhook(owner.id, {
+    url: `http://${host}:${port}/hook`,
+    events: ['todo.created'],
+  });
+  await queueWebhookDelivery(webhook.id, 'todo.created', { todo: { id: 't' } });
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.webhookId, webhook.id));
+  return { webhook, delivery };
+}
+
+async function deliveryRow(id: string) {
+  const [row] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, id));
+  return row;
+}
+
+describe('webhook deliveries', () => {
+  it('signs the timestamp and body with the secret', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    const { webhook, delivery } = await queueDelivery();
+
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(body).toBe(delivery.payload);
+    expect(headers['x-webhook-event']).toBe('todo.created');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(headers['x-webhook-signature']).toBe(
+      signPayload(webhook.secret, Number(headers['x-webhook-timestamp']), body),
+    );
+    const row = await deliveryRow(delivery.id);
+    expect(row.status).toBe('succeeded');
+    expect(row.responseStatus).toBe(200);
+    // Responses from private hosts stay out of the log
+    expect(row.response).toBeNull();
+  });
+
+  it('retries with doubling delays and gives up after eight attempts', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    status = 500;
+    const { delivery } = await queueDelivery();
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 8; attempt++) {
+      await processWebhookDeliveries();
+      const row = await deliveryRow(delivery.id);
+      expect(row.attempts).toBe(attempt);
+      if (row.status === 'pending' && row.nextAttemptAt && row.lastAttemptAt) {
+        delays.push(row.nextAttemptAt.getTime() - row.lastAttemptAt.getTime());
+        // Due again straight away
+        await db
+          .update(webhookDeliveries)
+          .set({ nextAttemptAt: new Date(0) })
+          .where(eq(webhookDeliveries.id, delivery.id));
+      }
+    }
+
+    // Timestamps are stored in whole seconds
+    expect(delays.map((delay) => Math.round(delay / 1000))).toEqual([
+      30, 60, 120, 240, 480, 960, 1920,
+    ]);
+    const row = await deliveryRow(delivery.id);
+    expect(row.status).toBe('failed');
+    expect(row.nextAttemptAt).toBeNull();
+    expect(received).toHaveLength(8);
+  });
+
+  it('refuses private addresses', async () => {
+    const { delivery } = await queueDelivery();
+
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(0);
+    const row = await deliveryRow(delivery.id);
+    expect(row.status).toBe('pending');
+    expect(row.responseStatus).toBeNull();
+    expect(row.response).toMatch(/private network address/);
+  });
+
+  it('refuses host names that resolve to private addresses', async () => {
+    const { delivery } = await queueDelivery('localhost');
+
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(0);
+    const row = await deliveryRow(delivery.id);
+    expect(row.response).toMatch(/private network address/);
+  });
+
+  it("doesn't follow redirects", async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    status = 307;
+    const { delivery } = await queueDelivery();
+
+    await processWebhookDeliveries();
+
+    expect(received).toHaveLength(1);
+    const row = await deliveryRow(delivery.id);
+    expect(row.status).toBe('pending');
+    expect(row.responseStatus).toBe(307);
+  });
+});
@@ -0,0 +1,509 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { lookup } from 'node:dns';
+import { lookup as lookupAll } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { and, asc, desc, eq, inArray, isNull, lt, lte, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+  user,
+  type Webhook,
+  type WebhookDelivery,
+  webhookDeliveries,
+  webhooks,
+} from './db/schema';
+import type {
+  CreatedWebhook,
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookEvent,
+  WebhookSummary,
+} from './webhook-schemas';
+
+// Outgoing webhooks. Todo changes queue a delivery row per subscribed
+// webhook (see todoTransaction); a background loop sends due deliveries and
+// retries failed ones with exponential backoff until MAX_ATTEMPTS. The log
+// keeps every delivery for DELIVERY_RETENTION_DAYS.
+//
+// Each request is a JSON POST signed with the webhook's secret:
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+// where timestamp is the X-Webhook-Timestamp header (Unix seconds).
+//
+// URLs that point at loopback, private or link-local addresses are refused,
+// both when saved and when sent, so webhooks can't reach services behind the
+// server. When sending, the address is checked as the connection looks it
+// up, so a host can't answer one address to the check and another to the
+// request, and redirects aren't followed. WEBHOOK_ALLOW_PRIVATE_URLS=true
+// allows private addresses for a local test receiver; responses from such
+// hosts are still left out of the log.
+
+const MAX_ATTEMPTS = 8;
+// Doubles after every failed attempt: 30s, 1m, 2m ... about 32m
+const BASE_RETRY_DELAY_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// A claimed delivery isn't picked up again for this long, even if the
+// process sending it dies midway
+const CLAIM_MS = 3 * REQUEST_TIMEOUT_MS;
+const BATCH_SIZE = 20;
+const POLL_INTERVAL_MS = 15_000;
+const RESPONSE_MAX_LENGTH = 1000;
+const DELIVERY_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return isPrivateAddress(mapped);
+  }
+  return privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+const privateUrlsAllowed = () =>
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Whether the URL's host is, or resolves to, a private address. A host that
+// doesn't resolve isn't; delivering to it fails anyway.
+async function isPrivateUrl(url: string) {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookupAll(host, { all: true }).catch(() => [])).map(
+        (result) => result.address,
+      );
+  return addresses.some(isPrivateAddress);
+}
+
+const PRIVATE_URL_REFUSED =
+  'Refused: the URL points at a local or private network address';
+
+// A lookup for the delivery's connection that refuses private addresses,
+// unless they are allowed, and reports whether the host was private
+function checkedLookup(onPrivate: () => void): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+      if (addresses.some((result) => isPrivateAddress(result.address))) {
+        if (!privateUrlsAllowed()) {
+          callback(new Error(PRIVATE_URL_REFUSED), '');
+          return;
+        }
+        onPrivate();
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+// POSTs the body and reads the start of the response. A redirect is answered
+// like any other status, so it counts as a failure.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+) {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  // Connections to an address skip the lookup, so it is checked here
+  let isPrivate = isIP(host) !== 0 && isPrivateAddress(host);
+  if (isPrivate && !privateUrlsAllowed()) {
+    return Promise.reject(new Error(PRIVATE_URL_REFUSED));
+  }
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise<{ status: number; response: string | null }>(
+    (resolve, reject) => {
+      const request = send(
+        target,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: checkedLookup(() => {
+            isPrivate = true;
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        },
+        (res) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            if (text.length < RESPONSE_MAX_LENGTH) {
+              text += chunk;
+            }
+          });
+          res.on('error', reject);
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              response: isPrivate ? null : text.slice(0, RESPONSE_MAX_LENGTH),
+            }),
+          );
+        },
+      );
+      request.on('error', reject);
+      request.end(body);
+    },
+  );
+}
+
+// The validation error for a URL webhooks may not be sent to, or null
+export async function checkWebhookUrl(url: string) {
+  return !privateUrlsAllowed() && (await isPrivateUrl(url))
+    ? 'url must not point at a local or private network address'
+    : null;
+}
+
+const summaryColumns = {
+  id: webhooks.id,
+  url: webhooks.url,
+  events: webhooks.events,
+  active: webhooks.active,
+  createdAt: webhooks.createdAt,
+  updatedAt: webhooks.updatedAt,
+};
+
+const generateSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')}`;
+}
+
+export function listWebhooks(userId: string): Promise<WebhookSummary[]> {
+  return db
+    .select(summaryColumns)
+    .from(webhooks)
+    .where(eq(webhooks.userId, userId))
+    .orderBy(asc(webhooks.createdAt));
+}
+
+export async function createWebhook(
+  userId: string,
+  input: CreateWebhookInput,
+): Promise<CreatedWebhook> {
+  const secret = input.secret ?? generateSecret();
+  const now = new Date();
+  const [webhook] = await db
+    .insert(webhooks)
+    .values({
+      id: crypto.randomUUID(),
+      url: input.url,
+      events: [...new Set(input.events)],
+      secret,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning(summaryColumns);
+  return { ...webhook, secret };
+}
+
+// Returns the updated webhook, or undefined when the user has no such webhook
+export async function updateWebhook(
+  userId: string,
+  id: string,
+  input: UpdateWebhookInput,
+): Promise<WebhookSummary | undefined> {
+  const [webhook] = await db
+    .update(webhooks)
+    .set({
+      ...input,
+      ...(input.events && { events: [...new Set(input.events)] }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+    .returning(summaryColumns);
+  return webhook;
+}
+
+// Returns whether a webhook was found (and deleted along with its log)
+export async function deleteWebhook(userId: string, id: string) {
+  const deleted = await db
+    .delete(webhooks)
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+    .returning({ id: webhooks.id });
+  return deleted.length > 0;
+}
+
+export async function findWebhook(userId: string, id: string) {
+  const [webhook] = await db
+    .select(summaryColumns)
+    .from(webhooks)
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+    .limit(1);
+  return webhook;
+}
+
+// The webhook's most recent deliveries, newest first
+export function listWebhookDeliveries(webhookId: string, limit = 50) {
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.webhookId, webhookId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+}
+
+// Active webhooks of these users that subscribe to the event. Webhooks of
+// accounts waiting to be deleted are paused.
+export async function subscribedWebhooks(
+  userIds: string[],
+  event: WebhookEvent,
+) {
+  if (userIds.length === 0) {
+    return [];
+  }
+  return db
+    .select({ id: webhooks.id, userId: webhooks.userId })
+    .from(webhooks)
+    .innerJoin(user, eq(user.id, webhooks.userId))
+    .where(
+      and(
+        inArray(webhooks.userId, userIds),
+        eq(webhooks.active, true),
+        isNull(user.deletionScheduledAt),
+        sql`exists (select 1 from json_each(${webhooks.events}) where json_each.value = ${event})`,
+      ),
+    );
+}
+
+export async function queueWebhookDelivery(
+  webhookId: string,
+  event: WebhookEvent,
+  data: unknown,
+) {
+  const now = new Date();
+  await db.insert(webhookDeliveries).values({
+    id: crypto.randomUUID(),
+    webhookId,
+    event,
+    payload: JSON.stringify({
+      id: crypto.randomUUID(),
+      event,
+      createdAt: now.toISOString(),
+      data,
+    }),
+    nextAttemptAt: now,
+    createdAt: now,
+  });
+}
+
+// Sends the same payload again as a new delivery, so the receiver can tell
+// it apart by X-Webhook-Delivery but dedupe on the payload id
+export async function redeliverWebhookDelivery(
+  webhookId: string,
+  deliveryId: string,
+) {
+  const [original] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.webhookId, webhookId),
+      ),
+    )
+    .limit(1);
+  if (!original) {
+    return undefined;
+  }
+  const now = new Date();
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      id: crypto.randomUUID(),
+      webhookId,
+      event: original.event,
+      payload: original.payload,
+      nextAttemptAt: now,
+      createdAt: now,
+    })
+    .returning();
+  return delivery;
+}
+
+const retryDelay = (attempts: number) =>
+  BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: Pick<Webhook, 'url' | 'secret'>,
+) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let response: string | null;
+  try {
+    const result = await postWebhook(
+      webhook.url,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'todo-app-webhooks',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload,
+        ),
+      },
+      delivery.payload,
+    );
+    responseStatus = result.status;
+    response = result.response;
+  } catch (error) {
+    response = error instanceof Error ? error.message : String(error);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded =
+    responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const status = succeeded
+    ? 'succeeded'
+    : attempts >= MAX_ATTEMPTS
+      ? 'failed'
+      : 'pending';
+  const now = new Date();
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status,
+      attempts,
+      responseStatus,
+      response,
+      lastAttemptAt: now,
+      nextAttemptAt:
+        status === 'pending'
+          ? new Date(now.getTime() + retryDelay(attempts))
+          : null,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+}
+
+// Kept on globalThis so route bundles and the scheduler share one loop
+const globalForWebhooks = globalThis as typeof globalThis & {
+  webhookQueue?: { running: boolean; again: boolean };
+};
+
+// Sends every delivery that is due. A call made while the loop is running
+// makes it look again once it is done, instead of starting a second loop.
+export async function processWebhookDeliveries() {
+  globalForWebhooks.webhookQueue ??= { running: false, again: false };
+  const queue = globalForWebhooks.webhookQueue;
+  if (queue.running) {
+    queue.again = true;
+    return;
+  }
+  queue.running = true;
+  try {
+    let batchSize: number;
+    do {
+      queue.again = false;
+      const now = new Date();
+      const due = await db
+        .select({
+          delivery: webhookDeliveries,
+          webhook: { url: webhooks.url, secret: webhooks.secret },
+        })
+        .from(webhookDeliveries)
+        .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+        .innerJoin(user, eq(user.id, webhooks.userId))
+        .where(
+          and(
+            eq(webhookDeliveries.status, 'pending'),
+            lte(webhookDeliveries.nextAttemptAt, now),
+            eq(webhooks.active, true),
+            // Held until the deletion is cancelled, or deleted with the
+            // account
+            isNull(user.deletionScheduledAt),
+          ),
+        )
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(BATCH_SIZE);
+      batchSize = due.length;
+
+      for (const { delivery, webhook } of due) {
+        // Claiming by the attempt time skips deliveries another process
+        // has already picked up
+        const claimed = await db
+          .update(webhookDeliveries)
+          .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_MS) })
+          .where(
+            and(
+              eq(webhookDeliveries.id, delivery.id),
+              eq(webhookDeliveries.status, 'pending'),
+              lte(webhookDeliveries.nextAttemptAt, now),
+            ),
+          )
+          .returning({ id: webhookDeliveries.id });
+        if (claimed.length > 0) {
+          await attemptDelivery(delivery, webhook);
+        }
+      }
+    } while (queue.again || batchSize === BATCH_SIZE);
+  } finally {
+    queue.running = false;
+  }
+}
+
+// Drops log entries that are done and older than the retention period
+export async function pruneWebhookDeliveries(now = new Date()) {
+  await db
+    .delete(webhookDeliveries)
+    .where(
+      and(
+        inArray(webhookDeliveries.status, ['succeeded', 'failed']),
+        lt(
+          webhookDeliveries.createdAt,
+          new Date(now.getTime() - DELIVERY_RETENTION_DAYS * DAY_MS),
+        ),
+      ),
+    );
+}
+
+// Sends due deliveries now and then every POLL_INTERVAL_MS, pruning the log
+// along the way, for the life of the server process
+export function scheduleWebhookDeliveries() {
+  const run = () =>
+    processWebhookDeliveries()
+      .then(() => pruneWebhookDeliveries())
+      .catch((error) => {
+        console.error('Error delivering webhooks:', error);
+      });
+  run();
+  // Unref'd so the timer never keeps the process alive on its own
+  setInterval(run, POLL_INTERVAL_MS).unref();
+}
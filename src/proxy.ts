@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  authRateLimited,
+  CLIENT_ADDRESS_HEADER,
+  checkRateLimits,
+  clientAddress,
+  RATE_LIMITS,
+  rateLimited,
+  rateLimitHeaders,
+} from './lib/rate-limit';
+
+// Per-address rate limits on every API request, with a much lower limit on
+// the requests that check credentials. Per-user limits on the todo API are
+// applied once the user is known, in lib/api-tokens.ts.
+
+// Better Auth routes, under /api/auth, that check a password, code or token
+const CREDENTIAL_ROUTES = [
+  '/sign-in/',
+  '/sign-up/',
+  '/request-password-reset',
+  '/forget-password',
+  '/reset-password',
+  '/send-verification-email',
+  '/change-password',
+  '/change-email',
+  '/two-factor/',
+];
+
+function checksCredentials(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (request.method !== 'POST') {
+    return false;
+  }
+  if (pathname === '/api/account/deletion') {
+    return true;
+  }
+  return (
+    pathname.startsWith('/api/auth/') &&
+    CREDENTIAL_ROUTES.some((route) =>
+      pathname.slice('/api/auth'.length).startsWith(route),
+    )
+  );
+}
+
+export async function proxy(request: NextRequest) {
+  const address = clientAddress(request);
+  // Passed on for Better Auth's own limiter, replacing any the client sent
+  const headers = new Headers(request.headers);
+  headers.set(CLIENT_ADDRESS_HEADER, address);
+  const next = () => NextResponse.next({ request: { headers } });
+  try {
+    const result = await checkRateLimits(
+      checksCredentials(request)
+        ? [RATE_LIMITS.api, RATE_LIMITS.credentials]
+        : [RATE_LIMITS.api],
+      `ip:${address}`,
+    );
+    if (!result.allowed) {
+      return request.nextUrl.pathname.startsWith('/api/auth/')
+        ? authRateLimited(result)
+        : rateLimited(result);
+    }
+    const response = next();
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch (error) {
+    // A failing store shouldn't take the API down with it
+    console.error('Error checking rate limit:', error);
+    return next();
+  }
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { createApiToken } from '@/lib/api-tokens';
+import { db } from '@/lib/db';
+import { listMembers, lists, user } from '@/lib/db/schema';
+import type { ListRole } from '@/lib/roles';
+
+// Users and requests for tests that go through the database and the API
+// routes. vitest.setup.ts gives every test file a database of its own.
+
+export async function createUser(name = 'Ada', timezone = 'UTC') {
+  const id = crypto.randomUUID();
+  const now = new Date();
+  const [created] = await db
+    .insert(user)
+    .values({
+      id,
+      name,
+      email: `${id}@example.com`,
+      timezone,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return created;
+}
+
+// A list owned by `ownerId`, shared with each member in the given role
+export async function createList(
+  ownerId: string,
+  members: [userId: string, role: ListRole][] = [],
+) {
+  const now = new Date();
+  const [list] = await db
+    .insert(lists)
+    .values({
+      id: crypto.randomUUID(),
+      name: 'Shared',
+      userId: ownerId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  if (members.length > 0) {
+    await db.insert(listMembers).values(
+      members.map(([userId, role]) => ({
+        listId: list.id,
+        userId,
+        role,
+        createdAt: now,
+        updatedAt: now,
+      })),
+    );
+  }
+  return list;
+}
+
+// Builds requests that authenticate as the user with an API token
+export async function requestsAs(userId: string) {
+  const { secret } = await createApiToken(userId, {
+    name: 'Tests',
+    scopes: ['read', 'write'],
+  });
+  return (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ) =>
+    new NextRequest(`http://localhost:3000${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secret}`,
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+// The second argument of a dynamic route handler
+export const params = <T extends Record<string, string>>(values: T) => ({
+  params: Promise.resolve(values),
+});
@@ -0,0 +1,23 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll } from 'vitest';
+
+// Every test file gets a database of its own, pushed from the schema before
+// the file imports anything that opens the client in src/lib/db.
+const directory = mkdtempSync(path.join(tmpdir(), 'todo-test-'));
+process.env.DATABASE_URL = `file:${path.join(directory, 'test.db')}`;
+
+const { pushSQLiteSchema } = await import('drizzle-kit/api');
+const { db } = await import('@/lib/db');
+const schema = await import('@/lib/db/schema');
+const { setMailTransport } = await import('@/lib/mail');
+const { apply } = await pushSQLiteSchema(schema, db);
+await apply();
+// Sign-up and other emails go nowhere
+setMailTransport({ async send() {} });
+
+afterAll(() => {
+  db.$client.close();
+  rmSync(directory, { recursive: true, force: true });
+});